@@ -232,6 +232,12 @@ function generateTemplateDebtExplanation(
     explanation += ` Start by focusing extra payments on your ${insights.highestAPRDebt.name} (${insights.highestAPRDebt.apr}% APR).`;
   }
   
+  // Promo cliff
+  const firstCliff = insights.promoCliffs[0];
+  if (firstCliff) {
+    explanation += ` Heads up: the promotional rate on your ${firstCliff.debtName} ends in ${firstCliff.date}, when ${format(firstCliff.balanceAtExpiry)} will start accruing ${firstCliff.newApr}% APR.`;
+  }
+  
   return explanation;
 }
 
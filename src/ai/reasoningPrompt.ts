@@ -213,6 +213,15 @@ function formatReasonCode(code: string): string {
     HIGH_CREDIT_UTILIZATION: 'High credit card utilization',
     LOW_CREDIT_UTILIZATION: 'Low credit utilization',
     HIGH_INTEREST_DEBT: 'High interest rate debt present',
+    NEGATIVE_AMORTIZATION: 'Minimum payment does not cover interest',
+    CONSOLIDATION_SAVES_MONEY: 'Consolidation loan costs less overall',
+    CONSOLIDATION_COSTS_MORE: 'Consolidation loan costs more overall',
+    CONSOLIDATION_LOWERS_PAYMENT: 'Consolidation lowers the monthly payment',
+    CONSOLIDATION_RAISES_PAYMENT: 'Consolidation raises the monthly payment',
+    CONSOLIDATION_EXTENDS_PAYOFF: 'Consolidation extends the payoff date',
+    PAY_DOWN_BEATS_INVESTING: 'Paying down debt beats investing the surplus',
+    INVESTING_BEATS_PAY_DOWN: 'Investing the surplus beats paying down debt',
+    EMPLOYER_MATCH_FORGONE: 'Paying down debt first gives up employer match',
     DEBT_FREE: 'No debt',
     EMERGENCY_FUND_INADEQUATE: 'Emergency fund below recommended level',
     EMERGENCY_FUND_ADEQUATE: 'Adequate emergency fund',
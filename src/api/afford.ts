@@ -15,7 +15,8 @@ import { AffordabilityRequestSchema } from '../core/affordability/affordTypes.js
 import { calculateAffordability } from '../core/affordability/affordCalculator.js';
 import { synthesizeAffordabilityExplanation } from '../ai/decisionSynthesizer.js';
 import { getRuleExplanations } from '../core/affordability/affordRules.js';
-import type { AffordabilityDecision } from '../models/DecisionResponse.js';
+import type { BnplStacking } from '../core/affordability/affordTypes.js';
+import type { AffordabilityDecision, BnplStackingSummary } from '../models/DecisionResponse.js';
 import {
   validateProfileConsistency,
   validateProfileLimits,
@@ -59,7 +60,7 @@ export async function registerAffordabilityRoutes(fastify: FastifyInstance): Pro
             explanation: { type: 'string' },
             risk_level: { type: 'string' },
             recommended_plan: { type: 'array', items: { type: 'string' } },
-            impact_analysis: { type: 'object' },
+            impact_analysis: { type: 'object', additionalProperties: true },
             alternatives: { type: 'array' },
             metadata: { type: 'object' },
           },
@@ -174,6 +175,9 @@ export async function registerAffordabilityRoutes(fastify: FastifyInstance): Pro
           new_monthly_cashflow: calculation.impact.newMonthlyCashflow ?? undefined,
           new_debt_to_income: calculation.impact.newDebtToIncomeRatio ?? undefined,
           credit_utilization_change: calculation.impact.creditUtilizationChange ?? undefined,
+          bnpl_stacking: calculation.impact.bnplStacking
+            ? formatBnplStacking(calculation.impact.bnplStacking)
+            : undefined,
         },
         alternatives: calculation.alternatives,
         metadata: {
@@ -204,3 +208,36 @@ export async function registerAffordabilityRoutes(fastify: FastifyInstance): Pro
     }
   });
 }
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function formatBnplStacking(stacking: BnplStacking): BnplStackingSummary {
+  return {
+    active_plans: stacking.activePlans,
+    new_installments: stacking.newInstallments.map((i) => ({
+      installment: i.installment,
+      due_date: i.dueDate,
+      amount: i.amount,
+      late_fee: i.lateFee,
+    })),
+    new_monthly_payment: stacking.newMonthlyPayment,
+    weekly_capacity: stacking.weeklyCapacity,
+    weeks: stacking.weeks.map((w) => ({
+      week: w.week,
+      week_start: w.weekStart,
+      existing_due: w.existingDue,
+      new_due: w.newDue,
+      total_due: w.totalDue,
+      plans_due: w.plansDue,
+      late_fees_at_risk: w.lateFeesAtRisk,
+      over_capacity: w.overCapacity,
+    })),
+    peak_week: stacking.peakWeek,
+    peak_week_due: stacking.peakWeekDue,
+    stacked_weeks: stacking.stackedWeeks,
+    late_fees_at_risk: stacking.lateFeesAtRisk,
+    stacking_risk: stacking.stackingRisk,
+  };
+}
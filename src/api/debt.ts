@@ -10,21 +10,100 @@
 
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { v4 as uuidv4 } from 'uuid';
-import { DebtPayoffRequestSchema } from '../core/debt/debtTypes.js';
+import {
+  DebtStrategySchema,
+  DebtPayoffRequestSchema,
+  PayoffTargetRequestSchema,
+  HybridWeightsSchema,
+  OneTimePaymentSchema,
+  ExtraPaymentStepSchema,
+  MissedPaymentSchema,
+  RatePathSpecSchema,
+  ScheduleGranularitySchema,
+  ScheduleFormatSchema,
+  BalanceTransferRequestSchema,
+  ConsolidationRequestSchema,
+  MortgageAnalysisRequestSchema,
+  PayDownVsInvestRequestSchema,
+  MonteCarloRequestSchema,
+  SensitivityCurveRequestSchema,
+  HardshipOptionsRequestSchema,
+} from '../core/debt/debtTypes.js';
 import {
   simulateStrategy,
   compareStrategies,
   generateDebtInsights,
+  analyzeWindfalls,
+  analyzeRateSensitivity,
+  detectNegativeAmortization,
 } from '../core/debt/debtSimulator.js';
 import { getStrategyDescription } from '../core/debt/payoffStrategies.js';
+import { solveAllStrategies } from '../core/debt/payoffSolver.js';
+import { compareStudentLoanPlans } from '../core/debt/incomeDrivenRepayment.js';
+import { evaluateBalanceTransfers } from '../core/debt/balanceTransfer.js';
+import { analyzeConsolidation } from '../core/debt/consolidation.js';
+import { analyzeMortgage } from '../core/debt/mortgage.js';
+import { comparePayDownVsInvest } from '../core/debt/payDownVsInvest.js';
+import { runMonteCarlo } from '../core/debt/monteCarlo.js';
+import {
+  buildSensitivityCurve,
+  buildExtraPaymentGrid,
+  extraPaymentGridSize,
+} from '../core/debt/sensitivityCurve.js';
+import { resolveTaxProfile, calculateAfterTaxInterest } from '../core/debt/taxAdjustment.js';
+import { pageSchedule, decodeScheduleCursor } from '../core/debt/schedulePaging.js';
+import { analyzeRolloverCosts } from '../core/debt/rolloverLoans.js';
+import { analyzeHardshipOptions } from '../core/debt/hardshipOptions.js';
+import { buildUtilizationTrajectory } from '../core/debt/creditUtilization.js';
+import { scheduleToCsv, scheduleToICalendar } from '../core/debt/scheduleExport.js';
 import { synthesizeDebtExplanation } from '../ai/decisionSynthesizer.js';
-import type { DebtPayoffPlan, DebtStrategySummary, DebtPayoffMonth } from '../models/DecisionResponse.js';
-import { OUTPUT_LIMITS } from '../config/limits.js';
-import { validateProfileLimits, validateProfileConsistency } from '../utils/validation.js';
+import type {
+  DebtPayoffPlan,
+  DebtStrategySummary,
+  DebtPayoffMonth,
+  PromoCliff,
+  StudentLoanPlanSummary,
+  NegativeAmortizationSummary,
+  RateSensitivitySummary,
+  SchedulePeriodSummary,
+  SchedulePageInfo,
+  RolloverLoanSummary,
+  CreditUtilizationSummary,
+} from '../models/DecisionResponse.js';
+import type {
+  MonthlySimulationState,
+  StrategySimulationResult,
+  PromoRateExpiration,
+  StudentLoanPlanResult,
+  NegativeAmortization,
+  RateSensitivity,
+  MortgageAmortization,
+  SurplusPathProjection,
+  StrategySensitivityCurve,
+  ScheduleGranularity,
+  SchedulePage,
+  SchedulePeriod,
+  RolloverLoanCost,
+  HardshipOptionResult,
+  UtilizationTrajectory,
+  ScheduleFormat,
+} from '../core/debt/debtTypes.js';
+import type { ValidationError } from '../utils/validation.js';
+import { OUTPUT_LIMITS, COMPUTATION_LIMITS } from '../config/limits.js';
+import { MONTE_CARLO } from '../config/thresholds.js';
+import {
+  validateProfileLimits,
+  validateDebtLimits,
+  validateProfileConsistency,
+  validateDebtReferences,
+  validateNewIds,
+} from '../utils/validation.js';
 import { getIdempotentResponse, storeIdempotentResponse } from '../utils/idempotency.js';
 import { ENGINE_VERSION } from '../config/constants.js';
+import { now, parse, addMonths, monthsBetween, startOfDay, toDateString } from '../utils/dates.js';
 import { z } from 'zod';
 import { DebtAccountSchema } from '../models/types.js';
+import type { DebtAccount } from '../models/types.js';
 
 // =============================================================================
 // ROUTE REGISTRATION
@@ -47,8 +126,22 @@ export async function registerDebtRoutes(fastify: FastifyInstance): Promise<void
           user: { type: 'object' },
           extra_monthly_payment: { type: 'number' },
           strategy: { type: 'string' },
+          custom_order: { type: 'array', items: { type: 'string' } },
+          hybrid_weights: { type: 'object' },
+          one_time_payments: { type: 'array' },
+          extra_payment_schedule: { type: 'array' },
+          missed_payments: { type: 'array' },
+          rate_paths: { type: 'array' },
+          rank_by_after_tax_apr: { type: 'boolean' },
           include_schedule: { type: 'boolean' },
+          schedule_granularity: { type: 'string', enum: ['monthly', 'quarterly', 'yearly'] },
+          schedule_cursor: { type: 'string' },
+          schedule_page_size: { type: 'number' },
+          format: { type: 'string', enum: ['json', 'csv', 'ics'] },
           max_months: { type: 'number' },
+          include_utilization: { type: 'boolean' },
+          include_score_estimate: { type: 'boolean' },
+          utilization_score_table: { type: 'array' },
           include_ai_explanation: { type: 'boolean' },
         },
       },
@@ -57,8 +150,10 @@ export async function registerDebtRoutes(fastify: FastifyInstance): Promise<void
     const startTime = Date.now();
     const requestId = uuidv4();
     const idempotencyKey = request.headers['x-idempotency-key'] as string | undefined;
+    const exportFormat = requestedScheduleFormat(request);
     
-    const cached = getIdempotentResponse(idempotencyKey, request.body);
+    // Exports aren't kept for replay: the cache holds JSON bodies only
+    const cached = exportFormat === 'json' ? getIdempotentResponse(idempotencyKey, request.body) : null;
     if (cached) {
       if ('conflict' in cached) {
         return reply.status(409).send({
@@ -97,8 +192,21 @@ export async function registerDebtRoutes(fastify: FastifyInstance): Promise<void
         user,
         extra_monthly_payment = 100,
         strategy,
+        custom_order,
+        hybrid_weights,
+        one_time_payments = [],
+        extra_payment_schedule,
+        missed_payments = [],
+        rate_paths,
+        rank_by_after_tax_apr,
         include_schedule = true,
+        schedule_granularity,
+        schedule_cursor,
+        schedule_page_size,
         max_months = 360,
+        include_utilization = true,
+        include_score_estimate = false,
+        utilization_score_table,
         include_ai_explanation = true,
       } = validationResult.data;
       
@@ -110,8 +218,26 @@ export async function registerDebtRoutes(fastify: FastifyInstance): Promise<void
           cash_balance: user.cash_balance,
           debts: user.debts,
         }),
+        ...validateDebtReferences(
+          one_time_payments.map((p) => p.debt_id),
+          user.debts,
+          'one_time_payments'
+        ),
+        ...validateDebtReferences(
+          missed_payments.map((m) => m.debt_id),
+          user.debts,
+          'missed_payments'
+        ),
+        ...validateDebtReferences(custom_order ?? [], user.debts, 'custom_order'),
       ];
       
+      const firstPeriod = schedule_cursor !== undefined
+        ? decodeScheduleCursor(schedule_cursor, schedule_granularity)
+        : 1;
+      if (firstPeriod === null) {
+        limitErrors.push(invalidCursorError(schedule_granularity));
+      }
+      
       if (limitErrors.length > 0) {
         return reply.status(400).send({
           error: {
@@ -126,13 +252,29 @@ export async function registerDebtRoutes(fastify: FastifyInstance): Promise<void
         });
       }
       
+      const taxProfile = resolveTaxProfile(user);
+      
+      const simulationOptions = {
+        customOrder: custom_order,
+        hybridWeights: hybrid_weights,
+        oneTimePayments: one_time_payments,
+        extraPaymentSchedule: extra_payment_schedule,
+        missedPayments: missed_payments,
+        indexRatePaths: rate_paths,
+        taxProfile: rank_by_after_tax_apr !== false ? taxProfile : undefined,
+      };
+      
       // Check if user has any debt
       if (!user.debts || user.debts.length === 0 || user.debts.every((d: { balance: number }) => d.balance <= 0)) {
+        if (exportFormat !== 'json') return sendScheduleExport(reply, exportFormat, null, user.debts);
+        
         const response = {
           message: 'Congratulations! You have no debt to pay off.',
           recommended_strategy: null,
           strategy_comparison: [],
           monthly_schedule: [],
+          schedule_periods: [],
+          schedule_page: null,
           insights: {
             total_debt: 0,
             potential_interest_savings: 0,
@@ -153,16 +295,39 @@ export async function registerDebtRoutes(fastify: FastifyInstance): Promise<void
         return reply.status(200).send(response);
       }
       
-      // Run strategy comparison
+      // Run strategy comparison (after-tax interest is read off the schedules)
       const comparison = compareStrategies(
         user.debts,
         extra_monthly_payment,
-        max_months
+        max_months,
+        simulationOptions,
+        include_schedule || taxProfile !== undefined || exportFormat !== 'json'
       );
       
       // Generate insights
       const insights = generateDebtInsights(user.debts, comparison);
       
+      // A plan that never finishes because balances grow is an error, not a 30-year result
+      const recommendedPaysOff = comparison.strategies
+        .find((s) => s.strategy === comparison.recommendedStrategy)
+        ?.payoffOrder.every((p) => p.monthsToPayoff <= max_months) ?? true;
+      
+      if (!recommendedPaysOff && insights.negativeAmortization.length > 0) {
+        return reply.status(422).send(
+          negativeAmortizationError(insights.negativeAmortization, requestId)
+        );
+      }
+      
+      // Get recommended strategy result
+      const recommendedResult = comparison.strategies.find(
+        (s) => s.strategy === comparison.recommendedStrategy
+      );
+      
+      // CSV and iCalendar exports carry the recommended schedule only
+      if (exportFormat !== 'json') {
+        return sendScheduleExport(reply, exportFormat, recommendedResult ?? null, user.debts);
+      }
+      
       // Generate explanation
       const { explanation, aiUsed } = await synthesizeDebtExplanation(
         comparison,
@@ -170,47 +335,84 @@ export async function registerDebtRoutes(fastify: FastifyInstance): Promise<void
         include_ai_explanation
       );
       
-      // Get recommended strategy result
-      const recommendedResult = comparison.strategies.find(
-        (s) => s.strategy === comparison.recommendedStrategy
-      );
-      
       // Format strategy summaries
-      const strategySummaries: DebtStrategySummary[] = comparison.strategies.map((s) => ({
-        strategy_name: s.strategy,
-        total_months_to_payoff: s.totalMonths,
-        total_interest_paid: s.totalInterestPaid,
-        total_amount_paid: s.totalAmountPaid,
-        monthly_payment_required: s.monthlyPaymentRequired,
-        payoff_order: s.payoffOrder.map((p) => ({
-          debt_id: p.debtId,
-          debt_name: p.debtName,
-          months_to_payoff: p.monthsToPayoff,
-          interest_paid: p.interestPaid,
-        })),
+      const strategySummaries: DebtStrategySummary[] = comparison.strategies.map((s) => {
+        const afterTax = calculateAfterTaxInterest(s, taxProfile);
+        
+        return {
+          strategy_name: s.strategy,
+          strategy_description: getStrategyDescription(s.strategy, simulationOptions),
+          total_months_to_payoff: s.totalMonths,
+          total_interest_paid: s.totalInterestPaid,
+          interest_tax_savings: afterTax.taxSavings,
+          after_tax_interest_paid: afterTax.afterTaxInterest,
+          total_fees_charged: s.totalFeesCharged,
+          total_amount_paid: s.totalAmountPaid,
+          monthly_payment_required: s.monthlyPaymentRequired,
+          payoff_order: s.payoffOrder.map((p) => ({
+            debt_id: p.debtId,
+            debt_name: p.debtName,
+            months_to_payoff: p.monthsToPayoff,
+            interest_paid: p.interestPaid,
+          })),
+        };
+      });
+      
+      // One page of the schedule at the requested granularity
+      const schedulePage = include_schedule && recommendedResult
+        ? pageSchedule(recommendedResult.schedule, schedule_granularity, firstPeriod!, schedule_page_size)
+        : null;
+      
+      // Savings from each one-time payment under the recommended strategy
+      const windfallImpact = analyzeWindfalls(
+        user.debts,
+        comparison.recommendedStrategy,
+        extra_monthly_payment,
+        max_months,
+        simulationOptions
+      ).map((w) => ({
+        label: w.label,
+        amount: w.amount,
+        date: w.date,
+        month: w.month,
+        debt_id: w.debtId,
+        interest_saved: w.interestSaved,
+        months_saved: w.monthsSaved,
       }));
       
-      // Format monthly schedule (limited)
-      const monthlySchedule: DebtPayoffMonth[] = include_schedule && recommendedResult
-        ? recommendedResult.schedule
-            .slice(0, OUTPUT_LIMITS.MAX_SIMULATION_MONTHS_RETURNED)
-            .map((m) => ({
-              month: m.month,
-              date: m.date,
-              payments: m.payments.map((p) => ({
-                debt_id: p.debtId,
-                debt_name: p.debtName,
-                payment_amount: p.paymentAmount,
-                principal_paid: p.principalPaid,
-                interest_paid: p.interestPaid,
-                remaining_balance: p.remainingBalance,
-              })),
-              total_payment: m.totalPayment,
-              total_remaining_debt: m.totalRemainingDebt,
-              debts_paid_off_this_month: m.debtsPaidOffThisMonth,
-            }))
+      // Payoff if benchmark rates run above or below the projected paths
+      const rateSensitivity = analyzeRateSensitivity(
+        user.debts,
+        comparison.recommendedStrategy,
+        extra_monthly_payment,
+        max_months,
+        simulationOptions
+      ).map(formatRateSensitivity);
+      
+      // What payday and title loans cost under the recommended plan
+      const rolloverLoans = recommendedResult
+        ? analyzeRolloverCosts(user.debts, recommendedResult, max_months).map(formatRolloverLoanCost)
         : [];
       
+      // Card utilization as the plan pays the cards down (rerun if schedules weren't kept)
+      const utilization = include_utilization && recommendedResult
+        ? buildUtilizationTrajectory(
+            user.debts,
+            recommendedResult.schedule.length > 0
+              ? recommendedResult
+              : simulateStrategy(user.debts, recommendedResult.strategy, extra_monthly_payment, max_months, simulationOptions),
+            include_score_estimate
+              ? { creditScore: user.credit_score, table: utilization_score_table }
+              : undefined
+          )
+        : null;
+      
+      // Standard vs income-driven repayment for any student loans
+      const studentLoanPlans = compareStudentLoanPlans(user.debts, {
+        monthlyIncome: user.monthly_income,
+        dependents: user.dependents,
+      });
+      
       // Determine risk level
       const riskLevel = recommendedResult && recommendedResult.totalMonths > 120
         ? 'HIGH'
@@ -223,13 +425,45 @@ export async function registerDebtRoutes(fastify: FastifyInstance): Promise<void
         recommended_strategy: comparison.recommendedStrategy,
         recommendation_reason: comparison.recommendationReason,
         strategy_comparison: strategySummaries,
-        monthly_schedule: monthlySchedule,
+        hybrid_weights: comparison.hybridWeights,
+        custom_order_cost: comparison.customOrderCost
+          ? {
+              extra_interest: comparison.customOrderCost.extraInterest,
+              extra_months: comparison.customOrderCost.extraMonths,
+            }
+          : null,
+        ...(schedulePage
+          ? formatScheduleFields(schedulePage)
+          : { monthly_schedule: [], schedule_periods: [], schedule_page: null }),
+        reason_codes: [
+          ...(insights.negativeAmortization.length > 0 ? ['NEGATIVE_AMORTIZATION' as const] : []),
+          ...(rolloverLoans.length > 0 ? ['ROLLOVER_LOAN' as const] : []),
+        ],
+        negative_amortization: insights.negativeAmortization.map(formatNegativeAmortization),
+        rollover_loans: rolloverLoans,
+        credit_utilization: utilization ? formatUtilizationTrajectory(utilization) : null,
         insights: {
           potential_interest_savings: comparison.savingsVsMinimum,
           debt_free_date: insights.debtFreeDate,
           highest_interest_debt: insights.highestAPRDebt?.name ?? 'N/A',
           quick_wins: insights.quickWins,
+          promo_cliffs: insights.promoCliffs.map(formatPromoCliff),
         },
+        windfall_impact: windfallImpact,
+        rate_sensitivity: rateSensitivity,
+        student_loan_repayment: studentLoanPlans
+          ? {
+              total_balance: studentLoanPlans.totalBalance,
+              weighted_apr: studentLoanPlans.weightedApr,
+              household_size: studentLoanPlans.householdSize,
+              annual_income: studentLoanPlans.annualIncome,
+              poverty_guideline: studentLoanPlans.povertyGuideline,
+              standard: formatStudentLoanPlan(studentLoanPlans.standard),
+              income_driven: studentLoanPlans.incomeDriven.map(formatStudentLoanPlan),
+              lowest_total_cost: studentLoanPlans.lowestTotalCost,
+              lowest_monthly_payment: studentLoanPlans.lowestMonthlyPayment,
+            }
+          : null,
         explanation,
         risk_level: riskLevel,
         confidence: 0.9, // High confidence for deterministic calculations
@@ -262,10 +496,25 @@ export async function registerDebtRoutes(fastify: FastifyInstance): Promise<void
   
   const DebtSimulationSchema = z.object({
     debts: z.array(DebtAccountSchema),
-    strategy: z.enum(['avalanche', 'snowball', 'hybrid', 'minimum_only']),
+    strategy: DebtStrategySchema,
+    custom_order: z.array(z.string()).min(1).max(50).optional(),
+    hybrid_weights: HybridWeightsSchema.optional(),
     extra_monthly_payment: z.number().nonnegative().optional(),
+    one_time_payments: z.array(OneTimePaymentSchema).max(50).optional(),
+    extra_payment_schedule: z.array(ExtraPaymentStepSchema).max(50).optional(),
+    missed_payments: z.array(MissedPaymentSchema).max(50).optional(),
+    rate_paths: z.array(RatePathSpecSchema).max(3).optional(),
     max_months: z.number().int().min(1).max(480).optional(),
-  });
+    schedule_granularity: ScheduleGranularitySchema.default('monthly'),
+    schedule_cursor: z.string().max(100).optional(),
+    schedule_page_size: z.number().int().positive()
+      .max(OUTPUT_LIMITS.MAX_SIMULATION_MONTHS_RETURNED)
+      .default(OUTPUT_LIMITS.MAX_SIMULATION_MONTHS_RETURNED),
+    format: ScheduleFormatSchema.optional(),
+  }).refine(
+    (body) => body.strategy !== 'custom' || body.custom_order !== undefined,
+    { message: 'custom_order is required for the custom strategy', path: ['custom_order'] }
+  );
   
   /**
    * POST /api/v1/debt/simulate
@@ -281,8 +530,10 @@ export async function registerDebtRoutes(fastify: FastifyInstance): Promise<void
     const startTime = Date.now();
     const requestId = uuidv4();
     const idempotencyKey = request.headers['x-idempotency-key'] as string | undefined;
+    const exportFormat = requestedScheduleFormat(request);
     
-    const cached = getIdempotentResponse(idempotencyKey, request.body);
+    // Exports aren't kept for replay: the cache holds JSON bodies only
+    const cached = exportFormat === 'json' ? getIdempotentResponse(idempotencyKey, request.body) : null;
     if (cached) {
       if ('conflict' in cached) {
         return reply.status(409).send({
@@ -320,14 +571,27 @@ export async function registerDebtRoutes(fastify: FastifyInstance): Promise<void
       const body = validationResult.data;
       
       const limitErrors = [
-        ...validateProfileLimits({
-          monthly_income: 0,
-          monthly_fixed_expenses: 0,
-          cash_balance: 0,
-          debts: body.debts,
-        } as any),
+        ...validateDebtLimits(body.debts),
+        ...validateDebtReferences(
+          (body.one_time_payments ?? []).map((p) => p.debt_id),
+          body.debts,
+          'one_time_payments'
+        ),
+        ...validateDebtReferences(
+          (body.missed_payments ?? []).map((m) => m.debt_id),
+          body.debts,
+          'missed_payments'
+        ),
+        ...validateDebtReferences(body.custom_order ?? [], body.debts, 'custom_order'),
       ];
       
+      const firstPeriod = body.schedule_cursor !== undefined
+        ? decodeScheduleCursor(body.schedule_cursor, body.schedule_granularity)
+        : 1;
+      if (firstPeriod === null) {
+        limitErrors.push(invalidCursorError(body.schedule_granularity));
+      }
+      
       if (limitErrors.length > 0) {
         return reply.status(400).send({
           error: {
@@ -342,22 +606,213 @@ export async function registerDebtRoutes(fastify: FastifyInstance): Promise<void
         });
       }
       
+      const simulationOptions = {
+        customOrder: body.custom_order,
+        hybridWeights: body.hybrid_weights,
+        oneTimePayments: body.one_time_payments,
+        extraPaymentSchedule: body.extra_payment_schedule,
+        missedPayments: body.missed_payments,
+        indexRatePaths: body.rate_paths,
+      };
+      
       const result = simulateStrategy(
         body.debts,
         body.strategy,
         body.extra_monthly_payment ?? 0,
-        body.max_months ?? 360
+        body.max_months ?? 360,
+        simulationOptions
       );
       
+      const negativeAmortization = detectNegativeAmortization(body.debts);
+      const paysOff = result.payoffOrder.every((p) => p.monthsToPayoff <= (body.max_months ?? 360));
+      
+      if (!paysOff && negativeAmortization.length > 0) {
+        return reply.status(422).send(negativeAmortizationError(negativeAmortization, requestId));
+      }
+      
+      if (exportFormat !== 'json') {
+        return sendScheduleExport(reply, exportFormat, result, body.debts);
+      }
+      
+      const rolloverLoans = analyzeRolloverCosts(body.debts, result, body.max_months ?? 360);
+      
       const response = {
         strategy: result.strategy,
-        strategy_description: getStrategyDescription(result.strategy),
+        strategy_description: getStrategyDescription(result.strategy, simulationOptions),
         total_months: result.totalMonths,
         total_interest_paid: result.totalInterestPaid,
+        total_fees_charged: result.totalFeesCharged,
         total_amount_paid: result.totalAmountPaid,
         monthly_payment: result.monthlyPaymentRequired,
         payoff_order: result.payoffOrder,
+        reason_codes: [
+          ...(negativeAmortization.length > 0 ? ['NEGATIVE_AMORTIZATION'] : []),
+          ...(rolloverLoans.length > 0 ? ['ROLLOVER_LOAN'] : []),
+        ],
+        negative_amortization: negativeAmortization.map(formatNegativeAmortization),
+        rollover_loans: rolloverLoans.map(formatRolloverLoanCost),
+        rate_sensitivity: analyzeRateSensitivity(
+          body.debts,
+          body.strategy,
+          body.extra_monthly_payment ?? 0,
+          body.max_months ?? 360,
+          simulationOptions
+        ).map(formatRateSensitivity),
         schedule_preview: result.schedule.slice(0, 12), // First year only
+        ...formatScheduleFields(
+          pageSchedule(result.schedule, body.schedule_granularity, firstPeriod!, body.schedule_page_size)
+        ),
+        metadata: {
+          request_id: requestId,
+          computation_time_ms: Date.now() - startTime,
+          engine_version: ENGINE_VERSION,
+          idempotency_key: idempotencyKey ?? null,
+        },
+      };
+      if (idempotencyKey) reply.header('X-Idempotency-Key', idempotencyKey);
+      storeIdempotentResponse(idempotencyKey, request.body, 200, response);
+      return reply.status(200).send(response);
+      
+    } catch (error) {
+      fastify.log.error(error);
+      
+      return reply.status(500).send({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+          request_id: requestId,
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+  });
+  
+  /**
+   * POST /api/v1/debt/required-payment
+   * 
+   * Solve for the smallest extra payment that reaches a payoff target.
+   */
+  fastify.post('/api/v1/debt/required-payment', {
+    schema: {
+      description: 'Find the smallest extra monthly payment that meets a debt-free date or interest cap',
+      tags: ['Decisions'],
+      body: {
+        type: 'object',
+        required: ['user'],
+        properties: {
+          user: { type: 'object' },
+          target_date: { type: 'string' },
+          max_total_interest: { type: 'number' },
+          max_months: { type: 'number' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const startTime = Date.now();
+    const requestId = uuidv4();
+    const idempotencyKey = request.headers['x-idempotency-key'] as string | undefined;
+    
+    const cached = getIdempotentResponse(idempotencyKey, request.body);
+    if (cached) {
+      if ('conflict' in cached) {
+        return reply.status(409).send({
+          error: {
+            code: 'IDEMPOTENCY_KEY_CONFLICT',
+            message: 'Idempotency key has been used with a different payload',
+          },
+          metadata: {
+            request_id: requestId,
+            timestamp: new Date().toISOString(),
+          },
+        });
+      }
+      reply.header('X-Idempotent-Replay', 'true');
+      if (idempotencyKey) reply.header('X-Idempotency-Key', idempotencyKey);
+      return reply.status(cached.statusCode).send(cached.payload);
+    }
+    
+    try {
+      const validationResult = PayoffTargetRequestSchema.safeParse(request.body);
+      if (!validationResult.success) {
+        return reply.status(400).send({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: validationResult.error.flatten(),
+          },
+          metadata: {
+            request_id: requestId,
+            timestamp: new Date().toISOString(),
+          },
+        });
+      }
+      
+      const { user, target_date, max_total_interest, max_months } = validationResult.data;
+      
+      const limitErrors = [
+        ...validateProfileLimits(user),
+        ...validateProfileConsistency({
+          monthly_income: user.monthly_income,
+          monthly_fixed_expenses: user.monthly_fixed_expenses,
+          cash_balance: user.cash_balance,
+          debts: user.debts,
+        }),
+      ];
+      
+      if (limitErrors.length > 0) {
+        return reply.status(400).send({
+          error: {
+            code: 'LIMITS_EXCEEDED',
+            message: 'Input exceeds allowed limits or is inconsistent',
+            details: limitErrors,
+          },
+          metadata: {
+            request_id: requestId,
+            timestamp: new Date().toISOString(),
+          },
+        });
+      }
+      
+      const startDate = now();
+      const targetMonths = target_date !== undefined
+        ? monthsBetween(startOfDay(startDate), startOfDay(parse(target_date)))
+        : undefined;
+      
+      const results = solveAllStrategies(
+        user.debts,
+        { targetMonths, maxTotalInterest: max_total_interest },
+        max_months
+      );
+      
+      // Cheapest achievable path: lowest required payment, then lowest interest
+      const achievable = results
+        .filter((r) => r.achievable)
+        .sort((a, b) =>
+          (a.requiredExtraPayment ?? 0) - (b.requiredExtraPayment ?? 0) ||
+          (a.totalInterestPaid ?? 0) - (b.totalInterestPaid ?? 0)
+        );
+      
+      const response = {
+        target: {
+          target_date: target_date ?? null,
+          target_months: targetMonths ?? null,
+          max_total_interest: max_total_interest ?? null,
+        },
+        achievable: achievable.length > 0,
+        recommended_strategy: achievable[0]?.strategy ?? null,
+        strategies: results.map((r) => ({
+          strategy: r.strategy,
+          strategy_description: getStrategyDescription(r.strategy),
+          achievable: r.achievable,
+          required_extra_monthly_payment: r.requiredExtraPayment,
+          monthly_payment_required: r.monthlyPaymentRequired,
+          total_months: r.totalMonths,
+          total_interest_paid: r.totalInterestPaid,
+          debt_free_date: r.totalMonths !== null
+            ? toDateString(addMonths(startDate, r.totalMonths))
+            : null,
+          reason: r.reason ?? null,
+        })),
         metadata: {
           request_id: requestId,
           computation_time_ms: Date.now() - startTime,
@@ -382,4 +837,1407 @@ export async function registerDebtRoutes(fastify: FastifyInstance): Promise<void
       });
     }
   });
+  
+  /**
+   * POST /api/v1/debt/balance-transfer
+   * 
+   * Evaluate balance transfer offers against the current debts.
+   */
+  fastify.post('/api/v1/debt/balance-transfer', {
+    schema: {
+      description: 'Decide which balances to move onto balance transfer offers and what it saves',
+      tags: ['Decisions'],
+      body: {
+        type: 'object',
+        required: ['debts', 'offers'],
+        properties: {
+          debts: { type: 'array' },
+          offers: { type: 'array' },
+          extra_monthly_payment: { type: 'number' },
+          strategy: { type: 'string' },
+          max_months: { type: 'number' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const startTime = Date.now();
+    const requestId = uuidv4();
+    const idempotencyKey = request.headers['x-idempotency-key'] as string | undefined;
+    
+    const cached = getIdempotentResponse(idempotencyKey, request.body);
+    if (cached) {
+      if ('conflict' in cached) {
+        return reply.status(409).send({
+          error: {
+            code: 'IDEMPOTENCY_KEY_CONFLICT',
+            message: 'Idempotency key has been used with a different payload',
+          },
+          metadata: {
+            request_id: requestId,
+            timestamp: new Date().toISOString(),
+          },
+        });
+      }
+      reply.header('X-Idempotent-Replay', 'true');
+      if (idempotencyKey) reply.header('X-Idempotency-Key', idempotencyKey);
+      return reply.status(cached.statusCode).send(cached.payload);
+    }
+    
+    try {
+      const validationResult = BalanceTransferRequestSchema.safeParse(request.body);
+      if (!validationResult.success) {
+        return reply.status(400).send({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: validationResult.error.flatten(),
+          },
+          metadata: {
+            request_id: requestId,
+            timestamp: new Date().toISOString(),
+          },
+        });
+      }
+      
+      const { debts, offers, extra_monthly_payment, strategy, max_months } = validationResult.data;
+      
+      const limitErrors = [
+        ...validateDebtLimits(debts),
+        ...validateNewIds(offers.map((o) => o.id), debts, 'offers'),
+      ];
+      
+      if (limitErrors.length > 0) {
+        return reply.status(400).send({
+          error: {
+            code: 'LIMITS_EXCEEDED',
+            message: 'Input exceeds allowed limits or is inconsistent',
+            details: limitErrors,
+          },
+          metadata: {
+            request_id: requestId,
+            timestamp: new Date().toISOString(),
+          },
+        });
+      }
+      
+      const evaluation = evaluateBalanceTransfers(
+        debts,
+        offers,
+        extra_monthly_payment,
+        strategy,
+        max_months
+      );
+      
+      const summarize = (result: typeof evaluation.baseline) => ({
+        total_months: result.totalMonths,
+        total_interest_paid: result.totalInterestPaid,
+        total_fees_charged: result.totalFeesCharged,
+        total_amount_paid: result.totalAmountPaid,
+        monthly_payment: result.monthlyPaymentRequired,
+      });
+      
+      const response = {
+        recommended: evaluation.recommended,
+        transfers: evaluation.moves.map((m) => ({
+          offer_id: m.offerId,
+          debt_id: m.debtId,
+          debt_name: m.debtName,
+          amount: m.amount,
+          transfer_fee: m.fee,
+        })),
+        offers: evaluation.offers.map((o) => ({
+          offer_id: o.offerId,
+          offer_name: o.offerName,
+          amount_transferred: o.amountTransferred,
+          transfer_fee: o.transferFee,
+          intro_months: o.introMonths,
+          required_monthly_payment: o.requiredMonthlyPayment,
+          cleared_before_promo_ends: o.clearedBeforePromoEnds,
+          balance_at_promo_end: o.balanceAtPromoEnd,
+        })),
+        savings: {
+          interest_saved: evaluation.interestSaved,
+          transfer_fees: evaluation.transferFees,
+          net_savings: evaluation.netSavings,
+          months_saved: evaluation.monthsSaved,
+        },
+        without_transfer: summarize(evaluation.baseline),
+        with_transfer: summarize(evaluation.withTransfer),
+        metadata: {
+          request_id: requestId,
+          computation_time_ms: Date.now() - startTime,
+          engine_version: ENGINE_VERSION,
+          idempotency_key: idempotencyKey ?? null,
+        },
+      };
+      if (idempotencyKey) reply.header('X-Idempotency-Key', idempotencyKey);
+      storeIdempotentResponse(idempotencyKey, request.body, 200, response);
+      return reply.status(200).send(response);
+      
+    } catch (error) {
+      fastify.log.error(error);
+      
+      return reply.status(500).send({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+          request_id: requestId,
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+  });
+  
+  /**
+   * POST /api/v1/debt/consolidation
+   * 
+   * Compare a consolidation loan with keeping the current debts.
+   */
+  fastify.post('/api/v1/debt/consolidation', {
+    schema: {
+      description: 'Compare a debt consolidation loan with keeping the current debts',
+      tags: ['Decisions'],
+      body: {
+        type: 'object',
+        required: ['debts', 'loan', 'debt_ids'],
+        properties: {
+          debts: { type: 'array' },
+          loan: { type: 'object' },
+          debt_ids: { type: 'array', items: { type: 'string' } },
+          extra_monthly_payment: { type: 'number' },
+          max_months: { type: 'number' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const startTime = Date.now();
+    const requestId = uuidv4();
+    const idempotencyKey = request.headers['x-idempotency-key'] as string | undefined;
+    
+    const cached = getIdempotentResponse(idempotencyKey, request.body);
+    if (cached) {
+      if ('conflict' in cached) {
+        return reply.status(409).send({
+          error: {
+            code: 'IDEMPOTENCY_KEY_CONFLICT',
+            message: 'Idempotency key has been used with a different payload',
+          },
+          metadata: {
+            request_id: requestId,
+            timestamp: new Date().toISOString(),
+          },
+        });
+      }
+      reply.header('X-Idempotent-Replay', 'true');
+      if (idempotencyKey) reply.header('X-Idempotency-Key', idempotencyKey);
+      return reply.status(cached.statusCode).send(cached.payload);
+    }
+    
+    try {
+      const validationResult = ConsolidationRequestSchema.safeParse(request.body);
+      if (!validationResult.success) {
+        return reply.status(400).send({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: validationResult.error.flatten(),
+          },
+          metadata: {
+            request_id: requestId,
+            timestamp: new Date().toISOString(),
+          },
+        });
+      }
+      
+      const { debts, loan, debt_ids, extra_monthly_payment, max_months } = validationResult.data;
+      
+      const limitErrors = [
+        ...validateDebtLimits(debts),
+        ...validateDebtReferences(debt_ids, debts, 'debt_ids'),
+      ];
+      
+      if (limitErrors.length > 0) {
+        return reply.status(400).send({
+          error: {
+            code: 'LIMITS_EXCEEDED',
+            message: 'Input exceeds allowed limits or is inconsistent',
+            details: limitErrors,
+          },
+          metadata: {
+            request_id: requestId,
+            timestamp: new Date().toISOString(),
+          },
+        });
+      }
+      
+      const analysis = analyzeConsolidation(
+        debts,
+        loan,
+        debt_ids,
+        extra_monthly_payment,
+        max_months
+      );
+      
+      const summarize = (comparison: typeof analysis.current) => {
+        const result = comparison.strategies.find(
+          (s) => s.strategy === comparison.recommendedStrategy
+        )!;
+        return {
+          recommended_strategy: comparison.recommendedStrategy,
+          total_months: result.totalMonths,
+          total_interest_paid: result.totalInterestPaid,
+          total_fees_charged: result.totalFeesCharged,
+          total_amount_paid: result.totalAmountPaid,
+        };
+      };
+      
+      const response = {
+        decision: analysis.decision,
+        reason: analysis.reason,
+        reason_codes: analysis.reasonCodes,
+        loan: {
+          consolidated_balance: analysis.consolidatedBalance,
+          principal: analysis.loanPrincipal,
+          origination_fee: analysis.originationFee,
+          monthly_payment: analysis.loanPayment,
+          apr: loan.apr,
+          term_months: loan.term_months,
+        },
+        monthly_payment: {
+          current: analysis.currentMonthlyPayment,
+          consolidated: analysis.consolidatedMonthlyPayment,
+          change: analysis.monthlyPaymentChange,
+        },
+        interest_difference: analysis.interestDifference,
+        total_cost_difference: analysis.totalCostDifference,
+        months_difference: analysis.monthsDifference,
+        break_even_month: analysis.breakEvenMonth,
+        current_plan: summarize(analysis.current),
+        consolidated_plan: summarize(analysis.consolidated),
+        metadata: {
+          request_id: requestId,
+          computation_time_ms: Date.now() - startTime,
+          engine_version: ENGINE_VERSION,
+          idempotency_key: idempotencyKey ?? null,
+        },
+      };
+      if (idempotencyKey) reply.header('X-Idempotency-Key', idempotencyKey);
+      storeIdempotentResponse(idempotencyKey, request.body, 200, response);
+      return reply.status(200).send(response);
+      
+    } catch (error) {
+      fastify.log.error(error);
+      
+      return reply.status(500).send({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+          request_id: requestId,
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+  });
+  
+  /**
+   * POST /api/v1/debt/mortgage
+   * 
+   * Amortize a mortgage with escrow and PMI, and analyze extra principal
+   * prepayment and a refinance.
+   */
+  fastify.post('/api/v1/debt/mortgage', {
+    schema: {
+      description: 'Amortize a mortgage and analyze prepayment and refinance break-even',
+      tags: ['Decisions'],
+      body: {
+        type: 'object',
+        required: ['mortgage'],
+        properties: {
+          mortgage: { type: 'object' },
+          extra_principal: { type: 'number' },
+          refinance: { type: 'object' },
+          include_schedule: { type: 'boolean' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const startTime = Date.now();
+    const requestId = uuidv4();
+    const idempotencyKey = request.headers['x-idempotency-key'] as string | undefined;
+    
+    const cached = getIdempotentResponse(idempotencyKey, request.body);
+    if (cached) {
+      if ('conflict' in cached) {
+        return reply.status(409).send({
+          error: {
+            code: 'IDEMPOTENCY_KEY_CONFLICT',
+            message: 'Idempotency key has been used with a different payload',
+          },
+          metadata: {
+            request_id: requestId,
+            timestamp: new Date().toISOString(),
+          },
+        });
+      }
+      reply.header('X-Idempotent-Replay', 'true');
+      if (idempotencyKey) reply.header('X-Idempotency-Key', idempotencyKey);
+      return reply.status(cached.statusCode).send(cached.payload);
+    }
+    
+    try {
+      const validationResult = MortgageAnalysisRequestSchema.safeParse(request.body);
+      if (!validationResult.success) {
+        return reply.status(400).send({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: validationResult.error.flatten(),
+          },
+          metadata: {
+            request_id: requestId,
+            timestamp: new Date().toISOString(),
+          },
+        });
+      }
+      
+      const { mortgage, extra_principal, refinance, include_schedule } = validationResult.data;
+      
+      const analysis = analyzeMortgage(mortgage, extra_principal, refinance);
+      
+      const response = {
+        current: formatMortgageAmortization(analysis.current, include_schedule),
+        prepayment: analysis.prepayment
+          ? {
+              extra_principal: analysis.prepayment.extraPrincipal,
+              interest_saved: analysis.prepayment.interestSaved,
+              pmi_saved: analysis.prepayment.pmiSaved,
+              months_saved: analysis.prepayment.monthsSaved,
+              pmi_months_sooner: analysis.prepayment.pmiMonthsSooner,
+              amortization: formatMortgageAmortization(analysis.prepayment.amortization, include_schedule),
+            }
+          : null,
+        refinance: analysis.refinance
+          ? {
+              recommended: analysis.refinance.recommended,
+              reason: analysis.refinance.reason,
+              new_principal: analysis.refinance.newPrincipal,
+              closing_costs: analysis.refinance.closingCosts,
+              cash_to_close: analysis.refinance.cashToClose,
+              monthly_payment_change: analysis.refinance.monthlyPaymentChange,
+              total_monthly_payment_change: analysis.refinance.totalMonthlyPaymentChange,
+              interest_difference: analysis.refinance.interestDifference,
+              total_cost_difference: analysis.refinance.totalCostDifference,
+              months_difference: analysis.refinance.monthsDifference,
+              break_even_month: analysis.refinance.breakEvenMonth,
+              break_even_date: analysis.refinance.breakEvenDate,
+              amortization: formatMortgageAmortization(analysis.refinance.amortization, include_schedule),
+            }
+          : null,
+        metadata: {
+          request_id: requestId,
+          computation_time_ms: Date.now() - startTime,
+          engine_version: ENGINE_VERSION,
+          idempotency_key: idempotencyKey ?? null,
+        },
+      };
+      if (idempotencyKey) reply.header('X-Idempotency-Key', idempotencyKey);
+      storeIdempotentResponse(idempotencyKey, request.body, 200, response);
+      return reply.status(200).send(response);
+      
+    } catch (error) {
+      fastify.log.error(error);
+      
+      return reply.status(500).send({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+          request_id: requestId,
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+  });
+  
+  /**
+   * POST /api/v1/debt/pay-down-vs-invest
+   * 
+   * Compare putting a monthly surplus toward debt with investing it.
+   */
+  fastify.post('/api/v1/debt/pay-down-vs-invest', {
+    schema: {
+      description: 'Compare paying down debt with investing a monthly surplus',
+      tags: ['Decisions'],
+      body: {
+        type: 'object',
+        required: ['user', 'monthly_surplus', 'expected_return'],
+        properties: {
+          user: { type: 'object' },
+          monthly_surplus: { type: 'number' },
+          expected_return: { type: 'number' },
+          return_std_dev: { type: 'number' },
+          employer_match: { type: 'object' },
+          strategy: { type: 'string' },
+          horizon_months: { type: 'number' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const startTime = Date.now();
+    const requestId = uuidv4();
+    const idempotencyKey = request.headers['x-idempotency-key'] as string | undefined;
+    
+    const cached = getIdempotentResponse(idempotencyKey, request.body);
+    if (cached) {
+      if ('conflict' in cached) {
+        return reply.status(409).send({
+          error: {
+            code: 'IDEMPOTENCY_KEY_CONFLICT',
+            message: 'Idempotency key has been used with a different payload',
+          },
+          metadata: {
+            request_id: requestId,
+            timestamp: new Date().toISOString(),
+          },
+        });
+      }
+      reply.header('X-Idempotent-Replay', 'true');
+      if (idempotencyKey) reply.header('X-Idempotency-Key', idempotencyKey);
+      return reply.status(cached.statusCode).send(cached.payload);
+    }
+    
+    try {
+      const validationResult = PayDownVsInvestRequestSchema.safeParse(request.body);
+      if (!validationResult.success) {
+        return reply.status(400).send({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: validationResult.error.flatten(),
+          },
+          metadata: {
+            request_id: requestId,
+            timestamp: new Date().toISOString(),
+          },
+        });
+      }
+      
+      const {
+        user,
+        monthly_surplus,
+        expected_return,
+        return_std_dev,
+        employer_match,
+        strategy,
+        horizon_months,
+      } = validationResult.data;
+      
+      const limitErrors = validateProfileLimits(user);
+      
+      if (limitErrors.length > 0) {
+        return reply.status(400).send({
+          error: {
+            code: 'LIMITS_EXCEEDED',
+            message: 'Input exceeds allowed limits or is inconsistent',
+            details: limitErrors,
+          },
+          metadata: {
+            request_id: requestId,
+            timestamp: new Date().toISOString(),
+          },
+        });
+      }
+      
+      const comparison = comparePayDownVsInvest(
+        user.debts,
+        user.investment_balance ?? 0,
+        monthly_surplus,
+        {
+          expectedReturn: expected_return,
+          returnStdDev: return_std_dev,
+          employerMatch: employer_match && {
+            matchPercent: employer_match.match_percent,
+            maxMatchedContribution: employer_match.max_matched_contribution,
+          },
+          taxProfile: resolveTaxProfile(user),
+        },
+        strategy,
+        horizon_months
+      );
+      
+      const response = {
+        recommendation: comparison.recommendation,
+        reason: comparison.reason,
+        reason_codes: comparison.reasonCodes,
+        monthly_budget: comparison.monthlyBudget,
+        horizon_months: comparison.horizonMonths,
+        net_worth_difference: comparison.netWorthDifference,
+        break_even_apr: comparison.breakEvenApr,
+        pay_down: formatSurplusPath(comparison.payDown),
+        invest: formatSurplusPath(comparison.invest),
+        metadata: {
+          request_id: requestId,
+          computation_time_ms: Date.now() - startTime,
+          engine_version: ENGINE_VERSION,
+          idempotency_key: idempotencyKey ?? null,
+        },
+      };
+      if (idempotencyKey) reply.header('X-Idempotency-Key', idempotencyKey);
+      storeIdempotentResponse(idempotencyKey, request.body, 200, response);
+      return reply.status(200).send(response);
+      
+    } catch (error) {
+      fastify.log.error(error);
+      
+      return reply.status(500).send({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+          request_id: requestId,
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+  });
+  
+  /**
+   * POST /api/v1/debt/monte-carlo
+   * 
+   * Run the payoff plan over many seeded trials with income, expense and
+   * rate shocks.
+   */
+  fastify.post('/api/v1/debt/monte-carlo', {
+    schema: {
+      description: 'Stochastic payoff simulation with job loss, expense spikes and variable rates',
+      tags: ['Decisions'],
+      body: {
+        type: 'object',
+        required: ['user'],
+        properties: {
+          user: { type: 'object' },
+          strategy: { type: 'string' },
+          extra_monthly_payment: { type: 'number' },
+          trials: { type: 'number' },
+          seed: { type: 'number' },
+          shocks: { type: 'object' },
+          variable_rate_debt_ids: { type: 'array', items: { type: 'string' } },
+          include_trials: { type: 'boolean' },
+          max_months: { type: 'number' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const startTime = Date.now();
+    const requestId = uuidv4();
+    const idempotencyKey = request.headers['x-idempotency-key'] as string | undefined;
+    
+    const cached = getIdempotentResponse(idempotencyKey, request.body);
+    if (cached) {
+      if ('conflict' in cached) {
+        return reply.status(409).send({
+          error: {
+            code: 'IDEMPOTENCY_KEY_CONFLICT',
+            message: 'Idempotency key has been used with a different payload',
+          },
+          metadata: {
+            request_id: requestId,
+            timestamp: new Date().toISOString(),
+          },
+        });
+      }
+      reply.header('X-Idempotent-Replay', 'true');
+      if (idempotencyKey) reply.header('X-Idempotency-Key', idempotencyKey);
+      return reply.status(cached.statusCode).send(cached.payload);
+    }
+    
+    try {
+      const validationResult = MonteCarloRequestSchema.safeParse(request.body);
+      if (!validationResult.success) {
+        return reply.status(400).send({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: validationResult.error.flatten(),
+          },
+          metadata: {
+            request_id: requestId,
+            timestamp: new Date().toISOString(),
+          },
+        });
+      }
+      
+      const {
+        user,
+        strategy,
+        extra_monthly_payment,
+        trials,
+        seed,
+        shocks,
+        variable_rate_debt_ids,
+        include_trials,
+        max_months,
+      } = validationResult.data;
+      
+      const limitErrors = [
+        ...validateProfileLimits(user),
+        ...validateDebtReferences(variable_rate_debt_ids ?? [], user.debts, 'variable_rate_debt_ids'),
+      ];
+      
+      // Without a trial count, run as many as fit the work cap
+      const monthsPerTrial = user.debts.length * max_months;
+      const trialCount = trials ?? Math.max(1, Math.min(
+        MONTE_CARLO.DEFAULT_TRIALS,
+        Math.floor(COMPUTATION_LIMITS.MAX_MONTE_CARLO_DEBT_MONTHS / Math.max(1, monthsPerTrial))
+      ));
+      const debtMonths = trialCount * monthsPerTrial;
+      if (debtMonths > COMPUTATION_LIMITS.MAX_MONTE_CARLO_DEBT_MONTHS) {
+        limitErrors.push({
+          field: 'trials',
+          message: `Trials x debts x max_months is ${debtMonths}; lower trials or max_months to stay within ${COMPUTATION_LIMITS.MAX_MONTE_CARLO_DEBT_MONTHS}`,
+          code: 'monte_carlo_too_large',
+        });
+      }
+      
+      if (limitErrors.length > 0) {
+        return reply.status(400).send({
+          error: {
+            code: 'LIMITS_EXCEEDED',
+            message: 'Input exceeds allowed limits or is inconsistent',
+            details: limitErrors,
+          },
+          metadata: {
+            request_id: requestId,
+            timestamp: new Date().toISOString(),
+          },
+        });
+      }
+      
+      const result = runMonteCarlo(user, strategy, extra_monthly_payment, {
+        trials: trialCount,
+        seed,
+        shocks,
+        variableRateDebtIds: variable_rate_debt_ids,
+        maxMonths: max_months,
+      });
+      
+      const response = {
+        seed: result.seed,
+        trials: result.trials,
+        strategy: result.strategy,
+        probability_debt_free: result.probabilityDebtFree,
+        probability_missed_payment: result.probabilityMissedPayment,
+        payoff_months: result.payoffMonths,
+        payoff_dates: result.payoffDates,
+        total_interest: result.totalInterest,
+        average_missed_payment_months: result.averageMissedPaymentMonths,
+        deterministic: {
+          total_months: result.deterministic.totalMonths,
+          total_interest_paid: result.deterministic.totalInterestPaid,
+          debt_free_date: toDateString(addMonths(now(), result.deterministic.totalMonths)),
+        },
+        trial_results: include_trials
+          ? result.trialResults.map((t) => ({
+              trial: t.trial,
+              seed: t.seed,
+              total_months: t.totalMonths,
+              paid_off: t.paidOff,
+              total_interest_paid: t.totalInterestPaid,
+              total_fees_charged: t.totalFeesCharged,
+              missed_payment_months: t.missedPaymentMonths,
+              months_out_of_work: t.monthsOutOfWork,
+              expense_spikes: t.expenseSpikes,
+            }))
+          : undefined,
+        metadata: {
+          request_id: requestId,
+          computation_time_ms: Date.now() - startTime,
+          engine_version: ENGINE_VERSION,
+          idempotency_key: idempotencyKey ?? null,
+        },
+      };
+      if (idempotencyKey) reply.header('X-Idempotency-Key', idempotencyKey);
+      storeIdempotentResponse(idempotencyKey, request.body, 200, response);
+      return reply.status(200).send(response);
+      
+    } catch (error) {
+      fastify.log.error(error);
+      
+      return reply.status(500).send({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+          request_id: requestId,
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+  });
+  
+  /**
+   * POST /api/v1/debt/sensitivity-curve
+   * 
+   * Months to payoff and total interest for each strategy across a grid
+   * of extra monthly payments.
+   */
+  fastify.post('/api/v1/debt/sensitivity-curve', {
+    schema: {
+      description: 'Payoff outcomes across a grid of extra payment amounts',
+      tags: ['Decisions'],
+      body: {
+        type: 'object',
+        required: ['user'],
+        properties: {
+          user: { type: 'object' },
+          strategies: { type: 'array', items: { type: 'string' } },
+          hybrid_weights: { type: 'object' },
+          min_extra: { type: 'number' },
+          max_extra: { type: 'number' },
+          step: { type: 'number' },
+          max_months: { type: 'number' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const startTime = Date.now();
+    const requestId = uuidv4();
+    const idempotencyKey = request.headers['x-idempotency-key'] as string | undefined;
+    
+    const cached = getIdempotentResponse(idempotencyKey, request.body);
+    if (cached) {
+      if ('conflict' in cached) {
+        return reply.status(409).send({
+          error: {
+            code: 'IDEMPOTENCY_KEY_CONFLICT',
+            message: 'Idempotency key has been used with a different payload',
+          },
+          metadata: {
+            request_id: requestId,
+            timestamp: new Date().toISOString(),
+          },
+        });
+      }
+      reply.header('X-Idempotent-Replay', 'true');
+      if (idempotencyKey) reply.header('X-Idempotency-Key', idempotencyKey);
+      return reply.status(cached.statusCode).send(cached.payload);
+    }
+    
+    try {
+      const validationResult = SensitivityCurveRequestSchema.safeParse(request.body);
+      if (!validationResult.success) {
+        return reply.status(400).send({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: validationResult.error.flatten(),
+          },
+          metadata: {
+            request_id: requestId,
+            timestamp: new Date().toISOString(),
+          },
+        });
+      }
+      
+      const {
+        user,
+        strategies,
+        hybrid_weights,
+        min_extra,
+        max_extra,
+        step,
+        max_months,
+      } = validationResult.data;
+      
+      const limitErrors = validateProfileLimits(user);
+      const gridSize = extraPaymentGridSize(min_extra, max_extra, step);
+      if (gridSize > COMPUTATION_LIMITS.MAX_SENSITIVITY_GRID_POINTS) {
+        limitErrors.push({
+          field: 'step',
+          message: `Grid has ${gridSize} points; widen step to stay within ${COMPUTATION_LIMITS.MAX_SENSITIVITY_GRID_POINTS}`,
+          code: 'grid_too_large',
+        });
+      }
+      
+      if (limitErrors.length > 0) {
+        return reply.status(400).send({
+          error: {
+            code: 'LIMITS_EXCEEDED',
+            message: 'Input exceeds allowed limits or is inconsistent',
+            details: limitErrors,
+          },
+          metadata: {
+            request_id: requestId,
+            timestamp: new Date().toISOString(),
+          },
+        });
+      }
+      
+      const curve = buildSensitivityCurve(
+        user.debts,
+        buildExtraPaymentGrid(min_extra, max_extra, step),
+        strategies,
+        max_months,
+        {
+          hybridWeights: hybrid_weights,
+          taxProfile: resolveTaxProfile(user),
+        }
+      );
+      
+      const response = {
+        grid: curve.grid,
+        minimum_only: {
+          total_months: curve.minimumOnly.totalMonths,
+          paid_off: curve.minimumOnly.paidOff,
+          total_interest_paid: curve.minimumOnly.totalInterestPaid,
+        },
+        curves: curve.curves.map(formatSensitivityCurve),
+        metadata: {
+          request_id: requestId,
+          computation_time_ms: Date.now() - startTime,
+          engine_version: ENGINE_VERSION,
+          idempotency_key: idempotencyKey ?? null,
+        },
+      };
+      if (idempotencyKey) reply.header('X-Idempotency-Key', idempotencyKey);
+      storeIdempotentResponse(idempotencyKey, request.body, 200, response);
+      return reply.status(200).send(response);
+      
+    } catch (error) {
+      fastify.log.error(error);
+      
+      return reply.status(500).send({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+          request_id: requestId,
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+  });
+  
+  /**
+   * POST /api/v1/debt/hardship-options
+   * 
+   * Compare settlement, hardship plan and forbearance options with the
+   * current plan.
+   */
+  fastify.post('/api/v1/debt/hardship-options', {
+    schema: {
+      description: 'Compare debt settlement, hardship plan and forbearance options with the current plan',
+      tags: ['Decisions'],
+      body: {
+        type: 'object',
+        required: ['debts', 'options'],
+        properties: {
+          debts: { type: 'array' },
+          options: { type: 'array' },
+          strategy: { type: 'string' },
+          extra_monthly_payment: { type: 'number' },
+          available_cash: { type: 'number' },
+          marginal_tax_rate: { type: 'number' },
+          max_months: { type: 'number' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const startTime = Date.now();
+    const requestId = uuidv4();
+    const idempotencyKey = request.headers['x-idempotency-key'] as string | undefined;
+    
+    const cached = getIdempotentResponse(idempotencyKey, request.body);
+    if (cached) {
+      if ('conflict' in cached) {
+        return reply.status(409).send({
+          error: {
+            code: 'IDEMPOTENCY_KEY_CONFLICT',
+            message: 'Idempotency key has been used with a different payload',
+          },
+          metadata: {
+            request_id: requestId,
+            timestamp: new Date().toISOString(),
+          },
+        });
+      }
+      reply.header('X-Idempotent-Replay', 'true');
+      if (idempotencyKey) reply.header('X-Idempotency-Key', idempotencyKey);
+      return reply.status(cached.statusCode).send(cached.payload);
+    }
+    
+    try {
+      const validationResult = HardshipOptionsRequestSchema.safeParse(request.body);
+      if (!validationResult.success) {
+        return reply.status(400).send({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: validationResult.error.flatten(),
+          },
+          metadata: {
+            request_id: requestId,
+            timestamp: new Date().toISOString(),
+          },
+        });
+      }
+      
+      const {
+        debts,
+        options,
+        strategy,
+        extra_monthly_payment,
+        available_cash,
+        marginal_tax_rate,
+        max_months,
+      } = validationResult.data;
+      
+      const limitErrors = [
+        ...validateDebtLimits(debts),
+        ...validateDebtReferences(options.map((o) => o.debt_id), debts, 'options'),
+      ];
+      options.forEach((option, index) => {
+        const debt = debts.find((d, i) => (d.id ?? `debt_${i}`) === option.debt_id);
+        if (debt && debt.balance <= 0) {
+          limitErrors.push({
+            field: `options[${index}].debt_id`,
+            message: `Debt "${option.debt_id}" has no balance to relieve`,
+            code: 'no_balance',
+          });
+        }
+      });
+      
+      if (limitErrors.length > 0) {
+        return reply.status(400).send({
+          error: {
+            code: 'LIMITS_EXCEEDED',
+            message: 'Input exceeds allowed limits or is inconsistent',
+            details: limitErrors,
+          },
+          metadata: {
+            request_id: requestId,
+            timestamp: new Date().toISOString(),
+          },
+        });
+      }
+      
+      const analysis = analyzeHardshipOptions(
+        debts,
+        options,
+        strategy,
+        extra_monthly_payment,
+        { availableCash: available_cash, marginalTaxRate: marginal_tax_rate },
+        max_months
+      );
+      
+      const response = {
+        strategy: analysis.strategy,
+        current_plan: {
+          total_cost: analysis.currentPlan.totalCost,
+          total_interest_paid: analysis.currentPlan.totalInterestPaid,
+          total_fees_charged: analysis.currentPlan.totalFeesCharged,
+          total_months: analysis.currentPlan.totalMonths,
+          monthly_payment: analysis.currentPlan.monthlyPayment,
+        },
+        options: analysis.options.map(formatHardshipOption),
+        lowest_cost_option: analysis.lowestCostOption,
+        reason_codes: [...new Set(analysis.options.flatMap((o) => o.reasonCodes))],
+        metadata: {
+          request_id: requestId,
+          computation_time_ms: Date.now() - startTime,
+          engine_version: ENGINE_VERSION,
+          idempotency_key: idempotencyKey ?? null,
+        },
+      };
+      if (idempotencyKey) reply.header('X-Idempotency-Key', idempotencyKey);
+      storeIdempotentResponse(idempotencyKey, request.body, 200, response);
+      return reply.status(200).send(response);
+      
+    } catch (error) {
+      fastify.log.error(error);
+      
+      return reply.status(500).send({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+          request_id: requestId,
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+  });
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function formatPromoCliff(cliff: PromoRateExpiration): PromoCliff {
+  return {
+    debt_id: cliff.debtId,
+    debt_name: cliff.debtName,
+    month: cliff.month,
+    date: cliff.date,
+    previous_apr: cliff.previousApr,
+    new_apr: cliff.newApr,
+    balance_at_expiry: cliff.balanceAtExpiry,
+  };
+}
+
+function formatStudentLoanPlan(plan: StudentLoanPlanResult): StudentLoanPlanSummary {
+  return {
+    plan: plan.plan,
+    label: plan.label,
+    initial_monthly_payment: plan.initialMonthlyPayment,
+    max_monthly_payment: plan.maxMonthlyPayment,
+    total_months: plan.totalMonths,
+    total_paid: plan.totalPaid,
+    total_interest_paid: plan.totalInterestPaid,
+    forgiven_balance: plan.forgivenBalance,
+    forgiveness_date: plan.forgivenessDate,
+  };
+}
+
+function formatNegativeAmortization(growing: NegativeAmortization): NegativeAmortizationSummary {
+  return {
+    debt_id: growing.debtId,
+    debt_name: growing.debtName,
+    balance: growing.balance,
+    minimum_payment: growing.minimumPayment,
+    apr: growing.apr,
+    monthly_interest: growing.monthlyInterest,
+    monthly_fees: growing.monthlyFees,
+    monthly_growth: growing.monthlyGrowth,
+    break_even_payment: growing.breakEvenPayment,
+    after_promotional_rate: growing.afterPromotionalRate,
+  };
+}
+
+function formatRateSensitivity(sensitivity: RateSensitivity): RateSensitivitySummary {
+  return {
+    shock: sensitivity.shock,
+    total_months: sensitivity.totalMonths,
+    paid_off: sensitivity.paidOff,
+    total_interest_paid: sensitivity.totalInterestPaid,
+    months_change: sensitivity.monthsChange,
+    interest_change: sensitivity.interestChange,
+  };
+}
+
+/**
+ * Error body for plans that can never finish because minimum payments
+ * don't cover interest.
+ */
+function negativeAmortizationError(growing: NegativeAmortization[], requestId: string) {
+  return {
+    error: {
+      code: 'NEGATIVE_AMORTIZATION',
+      message: 'Minimum payments do not cover interest, so these balances grow and are never paid off',
+      reason_codes: ['NEGATIVE_AMORTIZATION'],
+      details: growing.map(formatNegativeAmortization),
+    },
+    metadata: {
+      request_id: requestId,
+      timestamp: new Date().toISOString(),
+    },
+  };
+}
+
+function formatMortgageAmortization(amortization: MortgageAmortization, includeSchedule: boolean) {
+  return {
+    principal_and_interest: amortization.principalAndInterest,
+    monthly_escrow: amortization.monthlyEscrow,
+    initial_monthly_pmi: amortization.initialMonthlyPmi,
+    initial_total_payment: amortization.initialTotalPayment,
+    total_months: amortization.totalMonths,
+    payoff_date: amortization.payoffDate,
+    total_interest_paid: amortization.totalInterestPaid,
+    total_pmi_paid: amortization.totalPmiPaid,
+    total_escrow_paid: amortization.totalEscrowPaid,
+    pmi_drop_off_month: amortization.pmiDropOffMonth,
+    pmi_drop_off_date: amortization.pmiDropOffDate,
+    schedule: includeSchedule
+      ? amortization.schedule
+          .slice(0, OUTPUT_LIMITS.MAX_AMORTIZATION_MONTHS_RETURNED)
+          .map((m) => ({
+            month: m.month,
+            date: m.date,
+            payment: m.payment,
+            principal: m.principal,
+            interest: m.interest,
+            extra_principal: m.extraPrincipal,
+            escrow: m.escrow,
+            pmi: m.pmi,
+            total_payment: m.totalPayment,
+            ending_balance: m.endingBalance,
+            loan_to_value: m.loanToValue,
+          }))
+      : undefined,
+  };
+}
+
+function formatSurplusPath(projection: SurplusPathProjection) {
+  return {
+    final_net_worth: projection.finalNetWorth,
+    final_net_worth_low: projection.finalNetWorthLow,
+    final_net_worth_high: projection.finalNetWorthHigh,
+    total_contributions: projection.totalContributions,
+    total_employer_match: projection.totalEmployerMatch,
+    total_tax_savings: projection.totalTaxSavings,
+    total_interest_paid: projection.totalInterestPaid,
+    debt_free_month: projection.debtFreeMonth,
+    trajectory: projection.trajectory.map((p) => ({
+      month: p.month,
+      date: p.date,
+      investments: p.investments,
+      debt: p.debt,
+      net_worth: p.netWorth,
+    })),
+  };
+}
+
+function formatSensitivityCurve(curve: StrategySensitivityCurve) {
+  return {
+    strategy: curve.strategy,
+    diminishing_returns_from: curve.diminishingReturnsFrom,
+    points: curve.points.map((p) => ({
+      extra_payment: p.extraPayment,
+      total_months: p.totalMonths,
+      paid_off: p.paidOff,
+      total_interest_paid: p.totalInterestPaid,
+      marginal_interest_saved: p.marginalInterestSaved,
+      marginal_months_saved: p.marginalMonthsSaved,
+      diminishing_returns: p.diminishingReturns,
+    })),
+  };
+}
+
+function formatPayoffMonth(month: MonthlySimulationState): DebtPayoffMonth {
+  return {
+    month: month.month,
+    date: month.date,
+    payments: month.payments.map((p) => ({
+      debt_id: p.debtId,
+      debt_name: p.debtName,
+      payment_amount: p.paymentAmount,
+      principal_paid: p.principalPaid,
+      interest_paid: p.interestPaid,
+      fees_charged: p.feesCharged,
+      fees_paid: p.feesPaid,
+      missed_payment: p.missedPayment,
+      remaining_balance: p.remainingBalance,
+    })),
+    total_payment: month.totalPayment,
+    total_fees_charged: month.totalFeesCharged,
+    total_remaining_debt: month.totalRemainingDebt,
+    debts_paid_off_this_month: month.debtsPaidOffThisMonth,
+    extra_payment_applied: month.extraPaymentApplied,
+    one_time_payments_applied: month.oneTimePaymentsApplied,
+    promotional_rate_expirations: month.promotionalRateExpirations.map(formatPromoCliff),
+  };
+}
+
+function formatSchedulePeriod(period: SchedulePeriod): SchedulePeriodSummary {
+  return {
+    period: period.period,
+    start_month: period.startMonth,
+    end_month: period.endMonth,
+    start_date: period.startDate,
+    end_date: period.endDate,
+    payments: period.payments.map((p) => ({
+      debt_id: p.debtId,
+      debt_name: p.debtName,
+      payment_amount: p.paymentAmount,
+      principal_paid: p.principalPaid,
+      interest_paid: p.interestPaid,
+      fees_charged: p.feesCharged,
+      missed_payments: p.missedPayments,
+      remaining_balance: p.remainingBalance,
+    })),
+    total_payment: period.totalPayment,
+    total_principal_paid: period.totalPrincipalPaid,
+    total_interest_paid: period.totalInterestPaid,
+    total_fees_charged: period.totalFeesCharged,
+    one_time_payments_applied: period.oneTimePaymentsApplied,
+    total_remaining_debt: period.totalRemainingDebt,
+    debts_paid_off: period.debtsPaidOff,
+  };
+}
+
+function formatScheduleFields(page: SchedulePage): {
+  monthly_schedule: DebtPayoffMonth[];
+  schedule_periods: SchedulePeriodSummary[];
+  schedule_page: SchedulePageInfo;
+} {
+  return {
+    monthly_schedule: page.months.map(formatPayoffMonth),
+    schedule_periods: page.periods.map(formatSchedulePeriod),
+    schedule_page: {
+      granularity: page.granularity,
+      total_periods: page.totalPeriods,
+      first_period: page.firstPeriod,
+      next_cursor: page.nextCursor,
+      totals: {
+        total_payment: page.totals.totalPayment,
+        total_principal_paid: page.totals.totalPrincipalPaid,
+        total_interest_paid: page.totals.totalInterestPaid,
+        total_fees_charged: page.totals.totalFeesCharged,
+        one_time_payments_applied: page.totals.oneTimePaymentsApplied,
+      },
+    },
+  };
+}
+
+function invalidCursorError(granularity: ScheduleGranularity): ValidationError {
+  return {
+    field: 'schedule_cursor',
+    message: `Cursor was not issued for a ${granularity} schedule`,
+    code: 'invalid_cursor',
+  };
+}
+
+function formatRolloverLoanCost(cost: RolloverLoanCost): RolloverLoanSummary {
+  return {
+    debt_id: cost.debtId,
+    debt_name: cost.debtName,
+    term_days: cost.termDays,
+    fee_per_term: cost.feePerTerm,
+    true_apr: cost.trueApr,
+    effective_annual_rate: cost.effectiveAnnualRate,
+    rollovers: cost.rollovers,
+    fees_paid: cost.feesPaid,
+    paid_off: cost.paidOff,
+  };
+}
+
+function formatHardshipOption(result: HardshipOptionResult) {
+  return {
+    type: result.option.type,
+    debt_id: result.debtId,
+    debt_name: result.debtName,
+    total_cost: result.totalCost,
+    cost_difference: result.costDifference,
+    total_interest_paid: result.totalInterestPaid,
+    total_fees_charged: result.totalFeesCharged,
+    total_months: result.totalMonths,
+    months_difference: result.monthsDifference,
+    monthly_payment: result.monthlyPayment,
+    monthly_payment_change: result.monthlyPaymentChange,
+    cash_needed: result.cashNeeded,
+    forgiven_amount: result.forgivenAmount,
+    tax_on_forgiven: result.taxOnForgiven,
+    credit_impact: result.creditImpact,
+    reason_codes: result.reasonCodes,
+    reason: result.reason,
+  };
+}
+
+function formatUtilizationTrajectory(trajectory: UtilizationTrajectory): CreditUtilizationSummary {
+  const estimate = trajectory.scoreEstimate;
+  
+  return {
+    strategy: trajectory.strategy,
+    starting_utilization: trajectory.startingUtilization,
+    final_utilization: trajectory.finalUtilization,
+    months: trajectory.months.map((m) => ({
+      month: m.month,
+      date: m.date,
+      total_balance: m.totalBalance,
+      total_credit_limit: m.totalCreditLimit,
+      utilization: m.utilization,
+      cards: m.cards.map((c) => ({
+        debt_id: c.debtId,
+        debt_name: c.debtName,
+        balance: c.balance,
+        credit_limit: c.creditLimit,
+        utilization: c.utilization,
+      })),
+      score_change: m.scoreChange,
+      estimated_score: m.estimatedScore,
+      score_band: m.scoreBand,
+    })),
+    threshold_crossings: trajectory.crossings.map((c) => ({
+      month: c.month,
+      date: c.date,
+      debt_id: c.debtId,
+      debt_name: c.debtName,
+      threshold: c.threshold,
+      threshold_value: c.thresholdValue,
+      direction: c.direction,
+      utilization: c.utilization,
+    })),
+    score_estimate: estimate
+      ? {
+          starting_score: estimate.startingScore,
+          starting_band: estimate.startingBand,
+          final_score_change: estimate.finalScoreChange,
+          final_score: estimate.finalScore,
+          final_band: estimate.finalBand,
+          band_changes: estimate.bandChanges.map((b) => ({
+            month: b.month,
+            date: b.date,
+            from_band: b.fromBand,
+            to_band: b.toBand,
+            estimated_score: b.estimatedScore,
+          })),
+          table: estimate.table,
+        }
+      : null,
+  };
+}
+
+/**
+ * Quality an Accept header gives a media type: the q-value of the most
+ * specific range that matches it, or 0 when none does.
+ */
+function acceptQuality(accept: string, mediaType: string): number {
+  const type = mediaType.split('/')[0];
+  let specificity = -1;
+  let quality = 0;
+  
+  for (const range of accept.split(',')) {
+    const [name, ...params] = range.split(';').map((part) => part.trim().toLowerCase());
+    const rank = name === mediaType ? 2 : name === `${type}/*` ? 1 : name === '*/*' ? 0 : -1;
+    if (rank <= specificity) continue;
+    
+    const q = params.find((param) => param.startsWith('q='));
+    specificity = rank;
+    quality = q === undefined ? 1 : Number(q.slice(2)) || 0;
+  }
+  
+  return quality;
+}
+
+/**
+ * Schedule format from the body's format field, else the Accept header.
+ * JSON wins unless the client ranks an export format strictly higher.
+ * Read before validation, so an invalid format falls back to the header
+ * and is then rejected by the request schema.
+ */
+function requestedScheduleFormat(request: FastifyRequest): ScheduleFormat {
+  const format = (request.body as { format?: unknown } | undefined)?.format;
+  if (format === 'json' || format === 'csv' || format === 'ics') return format;
+  
+  const accept = request.headers.accept;
+  if (!accept) return 'json';
+  
+  const json = acceptQuality(accept, 'application/json');
+  const csv = acceptQuality(accept, 'text/csv');
+  const ics = acceptQuality(accept, 'text/calendar');
+  
+  if (json >= csv && json >= ics) return 'json';
+  return csv >= ics ? 'csv' : 'ics';
+}
+
+function sendScheduleExport(
+  reply: FastifyReply,
+  format: Exclude<ScheduleFormat, 'json'>,
+  result: StrategySimulationResult | null,
+  debts: DebtAccount[]
+) {
+  const csv = format === 'csv';
+  const schedule = result?.schedule ?? [];
+  const startDate = result ? parse(result.startDate) : now();
+  
+  return reply
+    .status(200)
+    .header('Content-Type', csv ? 'text/csv; charset=utf-8' : 'text/calendar; charset=utf-8')
+    .header('Content-Disposition', `attachment; filename="payoff-schedule.${format}"`)
+    .send(csv ? scheduleToCsv(schedule, debts, startDate) : scheduleToICalendar(schedule, debts, startDate));
 }
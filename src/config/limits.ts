@@ -68,9 +68,12 @@ export const OUTPUT_LIMITS = {
   /** Default number of actions to return */
   DEFAULT_ACTIONS: 5,
   
-  /** Maximum number of months in debt simulation to return */
+  /** Maximum schedule entries (months, quarters or years) per page of a debt simulation */
   MAX_SIMULATION_MONTHS_RETURNED: 120,
   
+  /** Maximum number of months in a mortgage amortization schedule to return */
+  MAX_AMORTIZATION_MONTHS_RETURNED: 480,
+  
   /** Maximum explanation length (characters) */
   MAX_EXPLANATION_LENGTH: 2000,
   
@@ -94,6 +97,16 @@ export const COMPUTATION_LIMITS = {
   
   /** Timeout for external LLM calls (ms) */
   LLM_TIMEOUT_MS: 30_000,
+  
+  /** Maximum extra payment amounts on a sensitivity curve grid */
+  MAX_SENSITIVITY_GRID_POINTS: 101,
+  
+  /**
+   * Maximum Monte Carlo work: trials x debts x max_months. Every trial
+   * month costs about the same, so this bounds the run time of a request
+   * (the default 500 trials for two debts over 30 years).
+   */
+  MAX_MONTE_CARLO_DEBT_MONTHS: 360_000,
 } as const;
 
 // =============================================================================
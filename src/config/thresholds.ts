@@ -220,4 +220,325 @@ export const DEBT_PAYOFF = {
   
   /** Fixed minimum payment floor */
   MIN_PAYMENT_FLOOR: 25,
+  
+  /** Months before a promotional APR ends that strategies rank by the post-promo APR */
+  PROMO_LOOKAHEAD_MONTHS: 3,
+  
+  /** Late fee assumed for credit cards that don't specify one */
+  DEFAULT_CREDIT_CARD_LATE_FEE: 30,
+  
+  /** Consecutive on-time payments before a penalty APR is lifted */
+  PENALTY_APR_CURE_MONTHS: 6,
+} as const;
+
+// =============================================================================
+// HYBRID STRATEGY WEIGHTS
+// =============================================================================
+
+/**
+ * Default scoring weights for the hybrid payoff strategy.
+ * Requests may override these; weights are normalized to sum to 1.
+ */
+export const HYBRID_WEIGHTS = {
+  /** Weight for APR (higher APR paid first) */
+  APR: 0.6,
+  
+  /** Weight for balance (smaller balance paid first) */
+  BALANCE: 0.4,
+  
+  /** Weight for credit utilization (more utilized cards paid first) */
+  UTILIZATION: 0,
+  
+  /** Weight for debts in collections (paid first) */
+  COLLECTIONS: 0,
+  
+  /** Weight for recurring fees (costlier accounts paid first) */
+  FEES: 0,
+} as const;
+
+// =============================================================================
+// STUDENT LOAN REPAYMENT
+// =============================================================================
+
+/**
+ * Federal student loan repayment assumptions. Poverty guidelines are the
+ * HHS figures for the 48 contiguous states; plan terms follow the
+ * Department of Education's income-driven repayment rules.
+ */
+export const STUDENT_LOAN_REPAYMENT = {
+  /** Term of the standard repayment plan */
+  STANDARD_TERM_MONTHS: 120,
+  
+  /** Poverty guideline for a household of one (annual) */
+  POVERTY_GUIDELINE_BASE: 15060,
+  
+  /** Poverty guideline increase for each additional household member */
+  POVERTY_GUIDELINE_PER_PERSON: 5380,
+  
+  /** Assumed yearly growth in income between recertifications */
+  INCOME_GROWTH_RATE: parseFloat(process.env.IDR_INCOME_GROWTH_RATE ?? '0.03'),
+  
+  /** Assumed yearly growth in the poverty guideline */
+  POVERTY_GUIDELINE_GROWTH_RATE: 0.02,
+  
+  /** Income is recertified (and the payment recalculated) this often */
+  RECERTIFICATION_MONTHS: 12,
+} as const;
+
+/**
+ * Income-driven repayment plans: share of discretionary income paid,
+ * the poverty-guideline multiple shielded from it, and the forgiveness horizon.
+ */
+export const INCOME_DRIVEN_PLANS = {
+  PAYE: {
+    LABEL: 'Pay As You Earn (10%)',
+    INCOME_SHARE: 0.10,
+    POVERTY_MULTIPLE: 1.5,
+    FORGIVENESS_MONTHS: 240,
+    CAPPED_AT_STANDARD: true,
+  },
+  IBR: {
+    LABEL: 'Income-Based Repayment (15%)',
+    INCOME_SHARE: 0.15,
+    POVERTY_MULTIPLE: 1.5,
+    FORGIVENESS_MONTHS: 300,
+    CAPPED_AT_STANDARD: true,
+  },
+  ICR: {
+    LABEL: 'Income-Contingent Repayment (20%)',
+    INCOME_SHARE: 0.20,
+    POVERTY_MULTIPLE: 1.0,
+    FORGIVENESS_MONTHS: 300,
+    CAPPED_AT_STANDARD: false,
+  },
+} as const;
+
+// =============================================================================
+// MORTGAGE
+// =============================================================================
+
+/**
+ * Mortgage insurance rules. PMI follows the Homeowners Protection Act:
+ * it terminates automatically once the balance is scheduled to reach 78%
+ * of the home's original value.
+ */
+export const MORTGAGE = {
+  /** Loan-to-value at which PMI terminates automatically */
+  PMI_TERMINATION_LTV: 0.78,
+  
+  /** Loan-to-value above which a new loan requires PMI */
+  PMI_REQUIRED_LTV: 0.80,
+  
+  /** Longest mortgage term modeled */
+  MAX_TERM_MONTHS: 480,
+} as const;
+
+// =============================================================================
+// PAY DOWN VS INVEST
+// =============================================================================
+
+/**
+ * Assumptions for comparing extra debt payments with investing.
+ */
+export const PAY_DOWN_VS_INVEST = {
+  /** Annual standard deviation of returns when none is given (broad stock index) */
+  DEFAULT_RETURN_STD_DEV: 15,
+  
+  /** z-score of the 10th/90th percentile outcomes */
+  PERCENTILE_Z: 1.2816,
+  
+  /** Highest APR searched for the break-even rate */
+  BREAK_EVEN_APR_MAX: 100,
+  
+  /** Precision of the break-even APR search (percentage points) */
+  BREAK_EVEN_APR_PRECISION: 0.01,
+} as const;
+
+// =============================================================================
+// MONTE CARLO
+// =============================================================================
+
+/**
+ * Defaults for stochastic payoff simulation. Shock probabilities are
+ * annual and spread evenly over the months of the year.
+ */
+export const MONTE_CARLO = {
+  DEFAULT_TRIALS: 500,
+  MAX_TRIALS: 2000,
+  
+  /** Chance of losing a job in a year */
+  JOB_LOSS_PROBABILITY: 0.04,
+  
+  /** Average months out of work after a job loss */
+  JOB_LOSS_DURATION_MONTHS: 4,
+  
+  /** Share of income kept while out of work (unemployment benefits) */
+  INCOME_REPLACEMENT: 0.4,
+  
+  /** Chance of a large unplanned expense in a year */
+  EXPENSE_SPIKE_PROBABILITY: 0.25,
+  
+  /** Average size of an unplanned expense */
+  EXPENSE_SPIKE_MEAN: 2000,
+  
+  /** Annual standard deviation of the variable-rate index (percentage points) */
+  RATE_VOLATILITY: 1,
+} as const;
+
+// =============================================================================
+// RATE INDEXES
+// =============================================================================
+
+/**
+ * Current levels of the benchmark indexes variable-rate debts float over
+ * (percentages). Override through the environment as the market moves.
+ */
+export const RATE_INDEXES = {
+  prime: parseFloat(process.env.PRIME_RATE ?? '7.50'),
+  sofr: parseFloat(process.env.SOFR_RATE ?? '4.30'),
+  treasury_1y: parseFloat(process.env.TREASURY_1Y_RATE ?? '4.00'),
+} as const;
+
+/**
+ * Parallel index moves (percentage points) reported as payoff sensitivity.
+ */
+export const RATE_SHOCKS = [-2, -1, 1, 2] as const;
+
+// =============================================================================
+// TAX
+// =============================================================================
+
+/**
+ * Federal rules for deducting debt interest. Student loan interest is
+ * deducted above the line (no itemizing needed) up to a yearly cap that
+ * phases out with income; mortgage interest needs itemized deductions and
+ * is limited to interest on the first $750,000 of the loan.
+ */
+export const TAX = {
+  /** Yearly cap on deductible student loan interest */
+  STUDENT_LOAN_INTEREST_DEDUCTION_CAP: 2500,
+  
+  /** Income range over which the student loan deduction phases out, by filing status */
+  STUDENT_LOAN_PHASEOUT: {
+    single: { START: 80000, END: 95000 },
+    head_of_household: { START: 80000, END: 95000 },
+    married_joint: { START: 165000, END: 195000 },
+    /** Married filing separately can't take the deduction */
+    married_separate: { START: 0, END: 0 },
+  },
+  
+  /** Mortgage balance whose interest is deductible */
+  MORTGAGE_INTEREST_DEBT_LIMIT: 750000,
+} as const;
+
+// =============================================================================
+// SENSITIVITY CURVE
+// =============================================================================
+
+/**
+ * Marking diminishing returns on the extra payment curve.
+ */
+export const SENSITIVITY_CURVE = {
+  /** A step saving less than this share of the first step's interest savings per dollar has diminishing returns */
+  DIMINISHING_RETURNS_RATIO: 0.5,
+} as const;
+
+// =============================================================================
+// ROLLOVER LOANS
+// =============================================================================
+
+/**
+ * Payday and title loans charge a flat fee per short term and roll over
+ * when the balance isn't repaid in full.
+ */
+export const ROLLOVER_LOANS = {
+  /** Term length by loan type when term_days isn't given */
+  DEFAULT_TERM_DAYS: {
+    payday_loan: 14,
+    title_loan: 30,
+  },
+  
+  /** Installments in an extended payment plan */
+  EXIT_PLAN_INSTALLMENTS: 4,
+  
+  /** APR cap on credit union payday alternative loans */
+  PAL_MAX_APR: 28,
+  
+  /** Largest payday alternative loan */
+  PAL_MAX_AMOUNT: 2000,
+} as const;
+
+// =============================================================================
+// BUY NOW, PAY LATER
+// =============================================================================
+
+/**
+ * Buy now, pay later plans split a purchase into a few fixed installments,
+ * usually the first at checkout and the rest every two weeks.
+ */
+export const BNPL = {
+  /** Installments in a new plan when the terms aren't given (pay-in-4) */
+  DEFAULT_INSTALLMENTS: 4,
+  
+  /** Days between installments when the plan doesn't say */
+  DEFAULT_INTERVAL_DAYS: 14,
+  
+  /** Late fee per missed installment when the plan doesn't say */
+  DEFAULT_LATE_FEE: 8,
+  
+  /** Share of a week's free cashflow that installments due that week may take */
+  MAX_WEEKLY_CASHFLOW_SHARE: 0.5,
+  
+  /** Plans with installments due in the same week, counting the new one, that count as stacking */
+  STACKED_PLAN_COUNT: 3,
+} as const;
+
+// =============================================================================
+// HARDSHIP OPTIONS
+// =============================================================================
+
+/**
+ * Settlement, hardship plan and forbearance modeling.
+ */
+export const HARDSHIP = {
+  /** Forgiven debt at or above which the creditor reports it to the IRS (Form 1099-C) */
+  FORGIVEN_DEBT_REPORTING_THRESHOLD: 600,
+} as const;
+
+// =============================================================================
+// CREDIT SCORE ESTIMATE
+// =============================================================================
+
+/**
+ * Heuristic for how a score moves as revolving utilization changes.
+ * This is not a scoring model: it only prices the utilization factor,
+ * and the estimate is the change in points between two months of the
+ * same plan. Clients can replace the table per request.
+ */
+export const CREDIT_SCORE = {
+  /** Score bands (FICO ranges), highest first */
+  BANDS: [
+    { name: 'exceptional', min: 800 },
+    { name: 'very_good', min: 740 },
+    { name: 'good', min: 670 },
+    { name: 'fair', min: 580 },
+    { name: 'poor', min: 300 },
+  ],
+  
+  /** Lowest and highest possible score */
+  MIN_SCORE: 300,
+  MAX_SCORE: 850,
+  
+  /**
+   * Points for overall utilization at or below each level. Utilization
+   * above the last row scores as the last row.
+   */
+  UTILIZATION_POINTS: [
+    { max_utilization: CREDIT_UTILIZATION.EXCELLENT, points: 0 },
+    { max_utilization: CREDIT_UTILIZATION.GOOD, points: -10 },
+    { max_utilization: CREDIT_UTILIZATION.ELEVATED, points: -30 },
+    { max_utilization: CREDIT_UTILIZATION.HIGH, points: -50 },
+    { max_utilization: CREDIT_UTILIZATION.CRITICAL, points: -70 },
+    { max_utilization: 1, points: -85 },
+  ],
 } as const;
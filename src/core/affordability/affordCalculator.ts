@@ -17,6 +17,7 @@ import type { UserFinancialProfile, PurchaseRequest, DebtAccount } from '../../m
 import type { DecisionOutcome, RiskLevel, ReasonCode } from '../../models/DecisionResponse.js';
 import type {
   AffordabilityMetrics,
+  BnplStacking,
   PurchaseImpact,
   AffordabilityCalculation,
 } from './affordTypes.js';
@@ -36,6 +37,8 @@ import {
   format,
 } from '../../utils/money.js';
 import { DEBT_PAYOFF } from '../../config/thresholds.js';
+import { isInstallmentPlan, installmentPlanMinimumPayment } from '../debt/installmentPlans.js';
+import { analyzeBnplStacking } from './bnplStacking.js';
 
 // =============================================================================
 // METRICS CALCULATION
@@ -50,6 +53,11 @@ function calculateMinimumPayment(debt: DebtAccount): number {
     return debt.minimum_payment;
   }
   
+  // Buy now, pay later: spread over the months the installments fall in
+  if (isInstallmentPlan(debt)) {
+    return installmentPlanMinimumPayment(debt);
+  }
+  
   // Estimate minimum payment based on debt type
   switch (debt.type) {
     case 'credit_card':
@@ -182,6 +190,7 @@ export function calculatePurchaseImpact(
   let newMonthlyCashflow: number | null = null;
   let newDebtToIncomeRatio: number | null = null;
   let creditUtilizationChange: number | null = null;
+  let bnplStacking: BnplStacking | null = null;
   
   switch (purchase.payment_method) {
     case 'cash':
@@ -214,10 +223,13 @@ export function calculatePurchaseImpact(
       break;
       
     case 'buy_now_pay_later':
-      // Typically 4 payments over 6 weeks - estimate monthly impact
-      projectedCashBalance = toDisplayDollars(subtract(metrics.liquidAssets, divide(purchaseAmount, 4)));
-      const bnplMonthlyPayment = purchaseAmount / 2; // Roughly 2 payments per month initially
-      newMonthlyCashflow = metrics.monthlyCashflow - bnplMonthlyPayment;
+      // First installment is due at checkout; the rest stack on any
+      // installments already due from existing plans
+      bnplStacking = analyzeBnplStacking(profile, purchase, metrics.monthlyCashflow);
+      projectedCashBalance = toDisplayDollars(
+        subtract(metrics.liquidAssets, bnplStacking.newInstallments[0]?.amount ?? 0)
+      );
+      newMonthlyCashflow = metrics.monthlyCashflow - bnplStacking.newMonthlyPayment;
       break;
       
     case 'financing':
@@ -285,6 +297,7 @@ export function calculatePurchaseImpact(
     creditUtilizationChange,
     bufferConsumptionPercent,
     purchaseToIncomeRatio,
+    bnplStacking,
   };
 }
 
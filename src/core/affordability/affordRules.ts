@@ -21,6 +21,7 @@ import {
   DEBT_TO_INCOME,
   CREDIT_UTILIZATION,
   AFFORDABILITY,
+  BNPL,
 } from '../../config/thresholds.js';
 import type {
   AffordabilityMetrics,
@@ -275,6 +276,43 @@ const luxuryWhileInDebtRule: RuleFunction = (metrics) => {
   };
 };
 
+/**
+ * Rule: Buy Now, Pay Later Stacking
+ * A new installment plan shouldn't pile onto installments already due
+ * in the same weeks.
+ */
+const bnplStackingRule: RuleFunction = (metrics, impact) => {
+  const stacking = impact.bnplStacking;
+  if (stacking === null) {
+    return {
+      ruleId: 'BNPL_STACKING',
+      passed: true,
+      reasonCodes: [],
+      weight: 0,
+      explanation: 'Not a buy now, pay later purchase.',
+    };
+  }
+  
+  const passed = !stacking.stackingRisk;
+  
+  return {
+    ruleId: 'BNPL_STACKING',
+    passed,
+    reasonCodes: passed ? [] : ['BNPL_STACKING'],
+    weight: 0.10,
+    explanation: passed
+      ? `Your installments peak at ${format(stacking.peakWeekDue)} in a single week, within what your weekly cashflow covers.`
+      : `With ${stacking.activePlans} other plan${stacking.activePlans === 1 ? '' : 's'} already running, ${stacking.stackedWeeks} week${stacking.stackedWeeks === 1 ? '' : 's'} would stack up to ${format(stacking.peakWeekDue)} in installments against ${format(stacking.weeklyCapacity)} of weekly cashflow - missing them could cost ${format(stacking.lateFeesAtRisk)} in late fees.`,
+    data: {
+      activePlans: stacking.activePlans,
+      peakWeekDue: stacking.peakWeekDue,
+      weeklyCapacity: stacking.weeklyCapacity,
+      maxWeeklyShare: BNPL.MAX_WEEKLY_CASHFLOW_SHARE,
+      stackedWeeks: stacking.stackedWeeks,
+    },
+  };
+};
+
 // =============================================================================
 // RULE AGGREGATION
 // =============================================================================
@@ -291,6 +329,7 @@ const ALL_RULES: RuleFunction[] = [
   purchaseSizeRule,
   bufferConsumptionRule,
   luxuryWhileInDebtRule,
+  bnplStackingRule,
 ];
 
 /**
@@ -388,6 +427,8 @@ export function getFailedRuleRecommendations(results: RuleResult[]): string[] {
           return 'Consider saving up for this purchase over time';
         case 'BUFFER_CONSUMPTION':
           return 'This purchase consumes too much of your safety net';
+        case 'BNPL_STACKING':
+          return 'Let your existing buy now, pay later plans clear before starting another';
         default:
           return r.explanation;
       }
@@ -12,6 +12,7 @@ import {
   PurchaseRequestSchema,
 } from '../../models/types.js';
 import { ReasonCode, RiskLevel, DecisionOutcome } from '../../models/DecisionResponse.js';
+import type { InstallmentDue } from '../debt/debtTypes.js';
 
 // =============================================================================
 // REQUEST TYPES
@@ -78,6 +79,71 @@ export interface AffordabilityMetrics {
   savingsRate: number;
 }
 
+/**
+ * Buy now, pay later installments due in one week of a new plan.
+ */
+export interface BnplWeek {
+  /** 1 for the week starting at checkout */
+  week: number;
+  
+  /** First day of the week (YYYY-MM-DD) */
+  weekStart: string;
+  
+  /** Installments already owed on existing plans */
+  existingDue: number;
+  
+  /** Installments of the new plan */
+  newDue: number;
+  
+  /** Everything due this week */
+  totalDue: number;
+  
+  /** Plans with an installment due this week, counting the new one */
+  plansDue: number;
+  
+  /** Late fees if every installment due this week were missed */
+  lateFeesAtRisk: number;
+  
+  /** Whether installments take more of this week's free cashflow than allowed */
+  overCapacity: boolean;
+}
+
+/**
+ * A new buy now, pay later purchase stacked on the installments already
+ * due in the same weeks.
+ */
+export interface BnplStacking {
+  /** Existing plans with installments still owed */
+  activePlans: number;
+  
+  /** The new plan's installments */
+  newInstallments: InstallmentDue[];
+  
+  /** Monthly payment the new plan adds, spread over the months it runs */
+  newMonthlyPayment: number;
+  
+  /** Free cashflow per week before any installments */
+  weeklyCapacity: number;
+  
+  /** Week-by-week installments over the life of the new plan */
+  weeks: BnplWeek[];
+  
+  /** Week with the most due (1-based) */
+  peakWeek: number;
+  
+  /** Total due in the peak week */
+  peakWeekDue: number;
+  
+  /** Weeks over capacity or with too many plans due at once */
+  stackedWeeks: number;
+  
+  /** Late fees on the installments due in stacked weeks */
+  lateFeesAtRisk: number;
+  
+  /** Whether any week is stacked */
+  stackingRisk: boolean;
+}
+
 /**
  * Purchase impact analysis.
  */
@@ -102,6 +168,9 @@ export interface PurchaseImpact {
   
   /** Purchase as percentage of monthly income */
   purchaseToIncomeRatio: number;
+  
+  /** Installment stacking (buy now, pay later purchases only) */
+  bnplStacking: BnplStacking | null;
 }
 
 /**
@@ -0,0 +1,126 @@
+/**
+ * Obsidian Decision Engine - Buy Now, Pay Later Stacking
+ *
+ * A single pay-in-4 purchase is small; the risk is several of them at
+ * once. This module lays a new plan's installments over the installments
+ * already owed on existing plans, week by week, and flags weeks where
+ * the combined amount takes too much of that week's free cashflow or too
+ * many plans come due together.
+ *
+ * Weekly capacity is monthly cashflow before existing plans' payments,
+ * spread evenly over the weeks of the year.
+ *
+ * @module core/affordability/bnplStacking
+ */
+
+import type { DebtAccount, PurchaseRequest, UserFinancialProfile } from '../../models/types.js';
+import type { InstallmentDue } from '../debt/debtTypes.js';
+import type { BnplStacking, BnplWeek } from './affordTypes.js';
+import {
+  isInstallmentPlan,
+  installmentSchedule,
+  installmentPlanMinimumPayment,
+} from '../debt/installmentPlans.js';
+import { now, parse, addDays, daysBetween, startOfDay, toDateString, toISO } from '../../utils/dates.js';
+import { roundCents } from '../../utils/money.js';
+import { BNPL } from '../../config/thresholds.js';
+
+const NEW_PLAN_ID = 'new_purchase';
+
+/**
+ * The purchase as a buy now, pay later debt, with its first installment
+ * due at checkout.
+ */
+export function bnplPurchaseDebt(
+  purchase: PurchaseRequest,
+  startDate: ReturnType<typeof now> = now()
+): DebtAccount {
+  const installments = purchase.bnpl_terms?.installments ?? BNPL.DEFAULT_INSTALLMENTS;
+
+  return {
+    id: NEW_PLAN_ID,
+    name: purchase.description ?? 'New purchase',
+    type: 'buy_now_pay_later',
+    balance: purchase.amount,
+    apr: 0,
+    late_fee: purchase.bnpl_terms?.late_fee,
+    installment_plan: {
+      installment_amount: roundCents(purchase.amount / installments),
+      remaining_installments: installments,
+      next_due_date: toISO(startOfDay(startDate)),
+      interval_days: purchase.bnpl_terms?.interval_days,
+    },
+  };
+}
+
+/**
+ * Stack a new buy now, pay later purchase on the profile's existing
+ * plans over the weeks the new plan runs.
+ *
+ * @param monthlyCashflow Net monthly cashflow with existing minimums paid
+ */
+export function analyzeBnplStacking(
+  profile: UserFinancialProfile,
+  purchase: PurchaseRequest,
+  monthlyCashflow: number,
+  startDate: ReturnType<typeof now> = now()
+): BnplStacking {
+  const start = startOfDay(startDate);
+  const newPlan = bnplPurchaseDebt(purchase, start);
+  const newInstallments = installmentSchedule(newPlan);
+
+  const existingPlans = profile.debts.filter((d) => isInstallmentPlan(d) && d.balance > 0);
+  const existingInstallments = profile.debts.flatMap((debt, index) =>
+    isInstallmentPlan(debt) && debt.balance > 0 ? installmentSchedule(debt, index) : []
+  );
+
+  // Existing plans' payments are already out of monthly cashflow; add them back
+  const existingPayments = existingPlans.reduce(
+    (sum, d) => sum + (d.minimum_payment ?? installmentPlanMinimumPayment(d, start)),
+    0
+  );
+  const weeklyCapacity = Math.max(0, ((monthlyCashflow + existingPayments) * 12) / 52);
+
+  // Past-due installments land in the first week
+  const weekOf = (installment: InstallmentDue) =>
+    Math.max(0, Math.floor(daysBetween(start, parse(installment.dueDate)) / 7));
+
+  const lastNewDue = newInstallments[newInstallments.length - 1];
+  const weekCount = lastNewDue ? weekOf(lastNewDue) + 1 : 1;
+  const weeks: BnplWeek[] = [];
+
+  for (let w = 0; w < weekCount; w++) {
+    const existing = existingInstallments.filter((i) => weekOf(i) === w);
+    const added = newInstallments.filter((i) => weekOf(i) === w);
+    const existingDue = roundCents(existing.reduce((sum, i) => sum + i.amount, 0));
+    const newDue = roundCents(added.reduce((sum, i) => sum + i.amount, 0));
+    const totalDue = roundCents(existingDue + newDue);
+
+    weeks.push({
+      week: w + 1,
+      weekStart: toDateString(addDays(start, w * 7)),
+      existingDue,
+      newDue,
+      totalDue,
+      plansDue: new Set([...existing, ...added].map((i) => i.debtId)).size,
+      lateFeesAtRisk: roundCents([...existing, ...added].reduce((sum, i) => sum + i.lateFee, 0)),
+      overCapacity: totalDue > weeklyCapacity * BNPL.MAX_WEEKLY_CASHFLOW_SHARE,
+    });
+  }
+
+  const stacked = weeks.filter((w) => w.overCapacity || w.plansDue >= BNPL.STACKED_PLAN_COUNT);
+  const peak = weeks.reduce((max, w) => (w.totalDue > max.totalDue ? w : max), weeks[0]!);
+
+  return {
+    activePlans: existingPlans.length,
+    newInstallments,
+    newMonthlyPayment: installmentPlanMinimumPayment(newPlan, start),
+    weeklyCapacity: roundCents(weeklyCapacity),
+    weeks,
+    peakWeek: peak.week,
+    peakWeekDue: peak.totalDue,
+    stackedWeeks: stacked.length,
+    lateFeesAtRisk: roundCents(stacked.reduce((sum, w) => sum + w.lateFeesAtRisk, 0)),
+    stackingRisk: stacked.length > 0,
+  };
+}
@@ -0,0 +1,241 @@
+/**
+ * Obsidian Decision Engine - Balance Transfer Evaluator
+ * 
+ * Decides which balances to move onto balance transfer offers and
+ * measures the result against staying put. Both paths run through
+ * simulateStrategySummary with the same total monthly payment, so the only
+ * differences are the rates, the promo cliff and the transfer fees.
+ * 
+ * @module core/debt/balanceTransfer
+ */
+
+import type { DebtAccount, DebtType } from '../../models/types.js';
+import type {
+  BalanceTransferOffer,
+  BalanceTransferMove,
+  BalanceTransferOfferResult,
+  BalanceTransferEvaluation,
+  DebtStrategy,
+} from './debtTypes.js';
+import {
+  simulateStrategySummary,
+  normalizeDebtAccounts,
+  calculateAmortizedPayment,
+} from './debtSimulator.js';
+import { now, addMonths } from '../../utils/dates.js';
+import { DEBT_PAYOFF } from '../../config/thresholds.js';
+
+/**
+ * Debt types card issuers accept for balance transfers. Secured loans
+ * and student loans are left alone.
+ */
+const TRANSFERABLE_TYPES: DebtType[] = [
+  'credit_card',
+  'personal_loan',
+  'medical_debt',
+  'buy_now_pay_later',
+  'other',
+];
+
+// =============================================================================
+// ALLOCATION
+// =============================================================================
+
+/**
+ * Whether the interest avoided during the intro period outweighs the fee.
+ */
+function isWorthMoving(debt: DebtAccount, offer: BalanceTransferOffer): boolean {
+  const introSavingsRate = ((debt.apr - offer.intro_apr) / 100) * (offer.intro_months / 12);
+  return introSavingsRate > offer.transfer_fee_percent / 100;
+}
+
+/**
+ * Assign balances to offers: offers with the longest intro period fill
+ * first, each taking the highest-APR balances that fit under its limit
+ * (transferred amount plus fee).
+ */
+function allocateTransfers(
+  debts: DebtAccount[],
+  offers: Array<BalanceTransferOffer & { id: string }>
+): BalanceTransferMove[] {
+  const available = new Map(debts.map((d) => [d.id!, d.balance]));
+  const moves: BalanceTransferMove[] = [];
+  
+  const rankedOffers = [...offers].sort((a, b) =>
+    b.intro_months - a.intro_months || a.intro_apr - b.intro_apr
+  );
+  
+  for (const offer of rankedOffers) {
+    const feeRate = offer.transfer_fee_percent / 100;
+    let capacity = offer.credit_limit / (1 + feeRate);
+    
+    const candidates = debts
+      .filter((d) => TRANSFERABLE_TYPES.includes(d.type) && isWorthMoving(d, offer))
+      .sort((a, b) => b.apr - a.apr);
+    
+    for (const debt of candidates) {
+      const remaining = available.get(debt.id!) ?? 0;
+      const amount = Math.floor(Math.min(remaining, capacity) * 100) / 100;
+      if (amount <= 0) continue;
+      
+      moves.push({
+        offerId: offer.id,
+        debtId: debt.id!,
+        debtName: debt.name ?? debt.type,
+        amount,
+        fee: Math.round(amount * feeRate * 100) / 100,
+      });
+      available.set(debt.id!, remaining - amount);
+      capacity -= amount;
+    }
+  }
+  
+  return moves;
+}
+
+/**
+ * Debts after the moves: source balances shrink (their minimums shrink in
+ * proportion) and each used offer becomes a promotional card carrying the
+ * moved minimums, so the total monthly payment is unchanged.
+ */
+function applyTransfers(
+  debts: DebtAccount[],
+  offers: Array<BalanceTransferOffer & { id: string }>,
+  moves: BalanceTransferMove[]
+): DebtAccount[] {
+  const startDate = now();
+  const movedMinimums = new Map<string, number>();
+  
+  const sources = debts.flatMap((debt) => {
+    const moved = moves
+      .filter((m) => m.debtId === debt.id)
+      .reduce((sum, m) => sum + m.amount, 0);
+    if (moved === 0) return [debt];
+    
+    const share = moved / debt.balance;
+    const minimum = debt.minimum_payment!;
+    
+    for (const move of moves.filter((m) => m.debtId === debt.id)) {
+      const movedMinimum = minimum * (move.amount / debt.balance);
+      movedMinimums.set(move.offerId, (movedMinimums.get(move.offerId) ?? 0) + movedMinimum);
+    }
+    
+    const balance = Math.round((debt.balance - moved) * 100) / 100;
+    return balance > 0
+      ? [{ ...debt, balance, minimum_payment: Math.round(minimum * (1 - share) * 100) / 100 }]
+      : [];
+  });
+  
+  const transferCards = offers.flatMap((offer): DebtAccount[] => {
+    const offerMoves = moves.filter((m) => m.offerId === offer.id);
+    if (offerMoves.length === 0) return [];
+    
+    return [{
+      id: offer.id,
+      type: 'credit_card',
+      name: offer.name ?? `Balance transfer (${offer.id})`,
+      balance: Math.round(offerMoves.reduce((sum, m) => sum + m.amount, 0) * 100) / 100,
+      apr: offer.intro_apr,
+      minimum_payment: Math.round((movedMinimums.get(offer.id) ?? 0) * 100) / 100,
+      credit_limit: offer.credit_limit,
+      is_promotional_rate: true,
+      promotional_rate_expires: addMonths(startDate, offer.intro_months).toISOString(),
+      post_promotional_apr: offer.go_to_apr,
+      balance_transfer_fee: Math.round(offerMoves.reduce((sum, m) => sum + m.fee, 0) * 100) / 100,
+    }];
+  });
+  
+  return [...sources, ...transferCards];
+}
+
+/**
+ * Give every offer an id. The offer becomes a debt in the simulator, so an
+ * unnamed offer takes the first `transfer_<index>` id no debt or other
+ * offer already uses; otherwise the two would share state and payoff entries.
+ */
+function nameOffers(
+  offers: BalanceTransferOffer[],
+  debts: DebtAccount[]
+): Array<BalanceTransferOffer & { id: string }> {
+  const taken = new Set([
+    ...debts.map((d) => d.id!),
+    ...offers.flatMap((o) => (o.id !== undefined ? [o.id] : [])),
+  ]);
+  
+  return offers.map((offer, i) => {
+    if (offer.id !== undefined) return { ...offer, id: offer.id };
+    
+    let id = `transfer_${i}`;
+    for (let suffix = 2; taken.has(id); suffix++) {
+      id = `transfer_${i}_${suffix}`;
+    }
+    taken.add(id);
+    return { ...offer, id };
+  });
+}
+
+// =============================================================================
+// EVALUATION
+// =============================================================================
+
+/**
+ * Evaluate balance transfer offers against the current debts.
+ */
+export function evaluateBalanceTransfers(
+  debts: DebtAccount[],
+  offers: BalanceTransferOffer[],
+  extraMonthlyPayment: number = 0,
+  strategy: DebtStrategy = 'avalanche',
+  maxMonths: number = DEBT_PAYOFF.MAX_SIMULATION_MONTHS
+): BalanceTransferEvaluation {
+  // Stable ids and explicit minimums so both paths pay the same each month
+  const normalizedDebts = normalizeDebtAccounts(debts);
+  const namedOffers = nameOffers(offers, normalizedDebts);
+  
+  const moves = allocateTransfers(normalizedDebts, namedOffers);
+  const transferredDebts = applyTransfers(normalizedDebts, namedOffers, moves);
+  
+  const baseline = simulateStrategySummary(normalizedDebts, strategy, extraMonthlyPayment, maxMonths);
+  const withTransfer = moves.length > 0
+    ? simulateStrategySummary(transferredDebts, strategy, extraMonthlyPayment, maxMonths)
+    : baseline;
+  
+  const offerResults: BalanceTransferOfferResult[] = namedOffers.map((offer) => {
+    const offerMoves = moves.filter((m) => m.offerId === offer.id);
+    const amountTransferred = offerMoves.reduce((sum, m) => sum + m.amount, 0);
+    const transferFee = offerMoves.reduce((sum, m) => sum + m.fee, 0);
+    const payoff = withTransfer.payoffOrder.find((p) => p.debtId === offer.id);
+    const cliff = withTransfer.promoCliffs.find((c) => c.debtId === offer.id);
+    
+    return {
+      offerId: offer.id,
+      offerName: offer.name ?? offer.id,
+      amountTransferred: Math.round(amountTransferred * 100) / 100,
+      transferFee: Math.round(transferFee * 100) / 100,
+      introMonths: offer.intro_months,
+      requiredMonthlyPayment: amountTransferred > 0
+        ? calculateAmortizedPayment(amountTransferred + transferFee, offer.intro_apr, offer.intro_months)
+        : 0,
+      clearedBeforePromoEnds: amountTransferred > 0 &&
+        payoff !== undefined && payoff.monthsToPayoff <= offer.intro_months,
+      balanceAtPromoEnd: cliff?.balanceAtExpiry ?? 0,
+    };
+  });
+  
+  const transferFees = Math.round(moves.reduce((sum, m) => sum + m.fee, 0) * 100) / 100;
+  const baselineCost = baseline.totalInterestPaid + baseline.totalFeesCharged;
+  const transferCost = withTransfer.totalInterestPaid + withTransfer.totalFeesCharged;
+  const netSavings = Math.round((baselineCost - transferCost) * 100) / 100;
+  
+  return {
+    moves,
+    offers: offerResults,
+    baseline,
+    withTransfer,
+    interestSaved: Math.round((baseline.totalInterestPaid - withTransfer.totalInterestPaid) * 100) / 100,
+    transferFees,
+    netSavings,
+    monthsSaved: baseline.totalMonths - withTransfer.totalMonths,
+    recommended: moves.length > 0 && netSavings > 0,
+  };
+}
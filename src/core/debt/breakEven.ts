@@ -0,0 +1,36 @@
+/**
+ * Obsidian Decision Engine - Break-Even Helpers
+ *
+ * Shared by the analyses that weigh an upfront cost (an origination fee,
+ * closing costs) against lower costs every month after.
+ *
+ * @module core/debt/breakEven
+ */
+
+/**
+ * Cost paid by the end of each month (0-based index = month 1): the
+ * upfront cost plus the running total of monthly costs.
+ */
+export function cumulativeCost(monthlyCosts: number[], upfront: number): number[] {
+  let cost = upfront;
+  return monthlyCosts.map((monthly) => {
+    cost += monthly;
+    return cost;
+  });
+}
+
+/**
+ * First month the alternative has cost no more than the current plan.
+ * A plan that has ended keeps its final total.
+ */
+export function findBreakEvenMonth(current: number[], alternative: number[]): number | null {
+  const months = Math.max(current.length, alternative.length);
+
+  for (let i = 0; i < months; i++) {
+    const currentCost = current[Math.min(i, current.length - 1)] ?? 0;
+    const alternativeCost = alternative[Math.min(i, alternative.length - 1)] ?? 0;
+    if (alternativeCost <= currentCost) return i + 1;
+  }
+
+  return null;
+}
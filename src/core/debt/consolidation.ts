@@ -0,0 +1,157 @@
+/**
+ * Obsidian Decision Engine - Consolidation Loan Analysis
+ * 
+ * Compares paying off a set of debts with a single consolidation loan
+ * against keeping them. Both scenarios run through compareStrategies
+ * with the same extra payment, and are compared on their recommended
+ * strategies.
+ * 
+ * @module core/debt/consolidation
+ */
+
+import type { DebtAccount } from '../../models/types.js';
+import type { DecisionOutcome, ReasonCode } from '../../models/DecisionResponse.js';
+import type {
+  ConsolidationLoanOffer,
+  ConsolidationAnalysis,
+  StrategyComparison,
+  StrategySimulationResult,
+} from './debtTypes.js';
+import {
+  compareStrategies,
+  normalizeDebtAccounts,
+  calculateAmortizedPayment,
+} from './debtSimulator.js';
+import { cumulativeCost, findBreakEvenMonth } from './breakEven.js';
+import { format } from '../../utils/money.js';
+import { DEBT_PAYOFF } from '../../config/thresholds.js';
+
+/** Id given to the consolidation loan in the consolidated scenario */
+export const CONSOLIDATION_LOAN_ID = 'consolidation_loan';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function recommendedResult(comparison: StrategyComparison): StrategySimulationResult {
+  return comparison.strategies.find((s) => s.strategy === comparison.recommendedStrategy)!;
+}
+
+/**
+ * Interest and fees charged in each month of a plan.
+ */
+function monthlyCosts(result: StrategySimulationResult): number[] {
+  return result.schedule.map((m, i) =>
+    m.totalInterestPaid - (result.schedule[i - 1]?.totalInterestPaid ?? 0) + m.totalFeesCharged
+  );
+}
+
+// =============================================================================
+// ANALYSIS
+// =============================================================================
+
+/**
+ * Analyze a consolidation loan that pays off the given debts.
+ */
+export function analyzeConsolidation(
+  debts: DebtAccount[],
+  loan: ConsolidationLoanOffer,
+  debtIds: string[],
+  extraMonthlyPayment: number = 0,
+  maxMonths: number = DEBT_PAYOFF.MAX_SIMULATION_MONTHS
+): ConsolidationAnalysis {
+  const currentDebts = normalizeDebtAccounts(debts);
+  const toConsolidate = currentDebts.filter((d) => debtIds.includes(d.id!));
+  const remaining = currentDebts.filter((d) => !debtIds.includes(d.id!));
+  
+  // The fee comes out of the proceeds, so the loan is grossed up to cover the balances
+  const consolidatedBalance = toConsolidate.reduce((sum, d) => sum + d.balance, 0);
+  const loanPrincipal = Math.round(
+    (consolidatedBalance / (1 - loan.origination_fee_percent / 100)) * 100
+  ) / 100;
+  const originationFee = Math.round((loanPrincipal - consolidatedBalance) * 100) / 100;
+  const loanPayment = calculateAmortizedPayment(loanPrincipal, loan.apr, loan.term_months);
+  
+  const consolidatedDebts: DebtAccount[] = [
+    ...remaining,
+    {
+      id: CONSOLIDATION_LOAN_ID,
+      type: 'personal_loan',
+      name: 'Consolidation loan',
+      balance: loanPrincipal,
+      apr: loan.apr,
+      minimum_payment: loanPayment,
+    },
+  ];
+  
+  const current = compareStrategies(currentDebts, extraMonthlyPayment, maxMonths);
+  const consolidated = compareStrategies(consolidatedDebts, extraMonthlyPayment, maxMonths);
+  const currentResult = recommendedResult(current);
+  const consolidatedResult = recommendedResult(consolidated);
+  
+  const currentMonthlyPayment = currentDebts.reduce((sum, d) => sum + d.minimum_payment!, 0);
+  const consolidatedMonthlyPayment = consolidatedDebts.reduce((sum, d) => sum + d.minimum_payment!, 0);
+  const monthlyPaymentChange = Math.round((consolidatedMonthlyPayment - currentMonthlyPayment) * 100) / 100;
+  
+  // Origination fee is part of the loan principal, so it is paid through the payments
+  const currentCost = currentResult.totalInterestPaid + currentResult.totalFeesCharged;
+  const consolidatedCost =
+    consolidatedResult.totalInterestPaid + consolidatedResult.totalFeesCharged + originationFee;
+  const totalCostDifference = Math.round((consolidatedCost - currentCost) * 100) / 100;
+  const monthsDifference = consolidatedResult.totalMonths - currentResult.totalMonths;
+  
+  const breakEvenMonth = findBreakEvenMonth(
+    cumulativeCost(monthlyCosts(currentResult), 0),
+    cumulativeCost(monthlyCosts(consolidatedResult), originationFee)
+  );
+  
+  // Decision and reason codes
+  const reasonCodes: ReasonCode[] = [];
+  const savesMoney = totalCostDifference < 0;
+  const lowersPayment = monthlyPaymentChange < 0;
+  
+  reasonCodes.push(savesMoney ? 'CONSOLIDATION_SAVES_MONEY' : 'CONSOLIDATION_COSTS_MORE');
+  if (monthlyPaymentChange !== 0) {
+    reasonCodes.push(lowersPayment ? 'CONSOLIDATION_LOWERS_PAYMENT' : 'CONSOLIDATION_RAISES_PAYMENT');
+  }
+  if (monthsDifference > 0) {
+    reasonCodes.push('CONSOLIDATION_EXTENDS_PAYOFF');
+  }
+  
+  let decision: DecisionOutcome;
+  let reason: string;
+  
+  if (savesMoney) {
+    decision = 'YES';
+    reason = `The loan saves ${format(-totalCostDifference)} overall` +
+      (breakEvenMonth !== null ? ` and breaks even in month ${breakEvenMonth}` : '') + '.';
+  } else if (lowersPayment) {
+    decision = 'CONDITIONAL';
+    reason = `The loan lowers your monthly payment by ${format(-monthlyPaymentChange)} ` +
+      `but costs ${format(totalCostDifference)} more overall. Worth it only if you need the cashflow.`;
+  } else {
+    decision = 'NO';
+    reason = `The loan costs ${format(totalCostDifference)} more overall without lowering your monthly payment.`;
+  }
+  
+  return {
+    consolidatedBalance: Math.round(consolidatedBalance * 100) / 100,
+    loanPrincipal,
+    originationFee,
+    loanPayment,
+    current,
+    consolidated,
+    currentMonthlyPayment: Math.round(currentMonthlyPayment * 100) / 100,
+    consolidatedMonthlyPayment: Math.round(consolidatedMonthlyPayment * 100) / 100,
+    monthlyPaymentChange,
+    interestDifference: Math.round(
+      (consolidatedResult.totalInterestPaid - currentResult.totalInterestPaid) * 100
+    ) / 100,
+    totalCostDifference,
+    monthsDifference,
+    breakEvenMonth,
+    decision,
+    reasonCodes,
+    reason,
+  };
+}
@@ -0,0 +1,245 @@
+/**
+ * Obsidian Decision Engine - Credit Utilization Trajectory
+ *
+ * Follows credit card utilization (balance over credit_limit) month by
+ * month as a payoff schedule pays the cards down, overall and per card,
+ * and marks the months it crosses a CREDIT_UTILIZATION level.
+ *
+ * The optional score estimate prices only overall utilization, using a
+ * table of points per utilization level (CREDIT_SCORE.UTILIZATION_POINTS
+ * unless the request sends its own). The estimate is the change in
+ * points against today, added to the profile's credit score when given.
+ *
+ * @module core/debt/creditUtilization
+ */
+
+import type { DebtAccount } from '../../models/types.js';
+import type {
+  CardUtilization,
+  CreditScoreEstimate,
+  ScoreBandChange,
+  StrategySimulationResult,
+  UtilizationCrossing,
+  UtilizationMonth,
+  UtilizationScoreRow,
+  UtilizationThreshold,
+  UtilizationTrajectory,
+} from './debtTypes.js';
+import { parse, toMonthYear } from '../../utils/dates.js';
+import { roundCents } from '../../utils/money.js';
+import { CREDIT_SCORE, CREDIT_UTILIZATION } from '../../config/thresholds.js';
+
+/**
+ * Score estimate settings.
+ */
+export interface ScoreEstimateSettings {
+  /** The profile's current credit score */
+  creditScore?: number;
+  /** Points table to price utilization with */
+  table?: UtilizationScoreRow[];
+}
+
+interface Card {
+  id: string;
+  name: string;
+  creditLimit: number;
+}
+
+const THRESHOLDS = Object.entries(CREDIT_UTILIZATION).map(([name, value]) => ({
+  name: name.toLowerCase() as UtilizationThreshold,
+  value,
+}));
+
+function ratio(balance: number, limit: number): number {
+  return Math.round((balance / limit) * 10000) / 10000;
+}
+
+/**
+ * Points for a utilization level. Above the last row scores as the last row.
+ */
+export function utilizationPoints(utilization: number, table: readonly UtilizationScoreRow[]): number {
+  const row = table.find((r) => utilization <= r.max_utilization) ?? table[table.length - 1];
+  return row?.points ?? 0;
+}
+
+/**
+ * Band a score falls in.
+ */
+export function scoreBand(score: number): string {
+  const band = CREDIT_SCORE.BANDS.find((b) => score >= b.min) ??
+    CREDIT_SCORE.BANDS[CREDIT_SCORE.BANDS.length - 1]!;
+  return band.name;
+}
+
+/**
+ * Credit cards with a limit, keyed the way the simulator names debts.
+ */
+function creditCards(debts: DebtAccount[]): Card[] {
+  return debts.flatMap((debt, index) =>
+    debt.type === 'credit_card' && debt.credit_limit !== undefined && debt.credit_limit > 0
+      ? [{
+          id: debt.id ?? `debt_${index}`,
+          name: debt.name ?? `${debt.type}_${index}`,
+          creditLimit: debt.credit_limit,
+        }]
+      : []
+  );
+}
+
+/**
+ * Overall and per-card utilization for one month's balances.
+ */
+function utilizationMonth(
+  month: number,
+  date: string,
+  cards: Card[],
+  balances: Map<string, number>
+): UtilizationMonth {
+  const cardUtilization: CardUtilization[] = cards.map((card) => {
+    const balance = roundCents(Math.max(0, balances.get(card.id) ?? 0));
+    return {
+      debtId: card.id,
+      debtName: card.name,
+      balance,
+      creditLimit: card.creditLimit,
+      utilization: ratio(balance, card.creditLimit),
+    };
+  });
+  const totalBalance = roundCents(cardUtilization.reduce((sum, c) => sum + c.balance, 0));
+  const totalCreditLimit = roundCents(cards.reduce((sum, c) => sum + c.creditLimit, 0));
+
+  return {
+    month,
+    date,
+    totalBalance,
+    totalCreditLimit,
+    utilization: ratio(totalBalance, totalCreditLimit),
+    cards: cardUtilization,
+    scoreChange: null,
+    estimatedScore: null,
+    scoreBand: null,
+  };
+}
+
+/**
+ * Levels crossed between two utilization readings.
+ */
+function crossingsBetween(
+  previous: number,
+  current: number,
+  month: UtilizationMonth,
+  card: CardUtilization | null
+): UtilizationCrossing[] {
+  return THRESHOLDS.flatMap(({ name, value }): UtilizationCrossing[] => {
+    const direction = previous > value && current <= value
+      ? 'below'
+      : previous <= value && current > value
+        ? 'above'
+        : null;
+    if (!direction) return [];
+
+    return [{
+      month: month.month,
+      date: month.date,
+      debtId: card?.debtId ?? null,
+      debtName: card?.debtName ?? null,
+      threshold: name,
+      thresholdValue: value,
+      direction,
+      utilization: current,
+    }];
+  });
+}
+
+/**
+ * Price each month's utilization with the table and fill in the months'
+ * score fields.
+ */
+function estimateScore(
+  months: UtilizationMonth[],
+  settings: ScoreEstimateSettings
+): CreditScoreEstimate {
+  const table = settings.table ?? CREDIT_SCORE.UTILIZATION_POINTS.map((row) => ({ ...row }));
+  const startingScore = settings.creditScore ?? null;
+  const startingPoints = utilizationPoints(months[0]!.utilization, table);
+  const bandChanges: ScoreBandChange[] = [];
+
+  for (const month of months) {
+    month.scoreChange = utilizationPoints(month.utilization, table) - startingPoints;
+    if (startingScore === null) continue;
+
+    month.estimatedScore = Math.min(
+      CREDIT_SCORE.MAX_SCORE,
+      Math.max(CREDIT_SCORE.MIN_SCORE, startingScore + month.scoreChange)
+    );
+    month.scoreBand = scoreBand(month.estimatedScore);
+
+    const previous = months[month.month - 1];
+    if (month.month > 0 && previous?.scoreBand && previous.scoreBand !== month.scoreBand) {
+      bandChanges.push({
+        month: month.month,
+        date: month.date,
+        fromBand: previous.scoreBand,
+        toBand: month.scoreBand,
+        estimatedScore: month.estimatedScore,
+      });
+    }
+  }
+
+  const last = months[months.length - 1]!;
+
+  return {
+    startingScore,
+    startingBand: months[0]!.scoreBand,
+    finalScoreChange: last.scoreChange!,
+    finalScore: last.estimatedScore,
+    finalBand: last.scoreBand,
+    bandChanges,
+    table,
+  };
+}
+
+/**
+ * Credit card utilization along a simulated schedule. Returns null when
+ * no credit card has a credit_limit.
+ *
+ * @param debts The debts the schedule was simulated from, in the same order
+ * @param settings Score estimate settings (no estimate when omitted)
+ */
+export function buildUtilizationTrajectory(
+  debts: DebtAccount[],
+  result: StrategySimulationResult,
+  settings?: ScoreEstimateSettings
+): UtilizationTrajectory | null {
+  const cards = creditCards(debts);
+  if (cards.length === 0) return null;
+
+  const startingBalances = new Map(
+    debts.map((debt, index) => [debt.id ?? `debt_${index}`, debt.balance])
+  );
+  const months: UtilizationMonth[] = [
+    utilizationMonth(0, toMonthYear(parse(result.startDate)), cards, startingBalances),
+    ...result.schedule.map((state) =>
+      utilizationMonth(state.month, state.date, cards, new Map(state.debts.map((d) => [d.id, d.balance])))
+    ),
+  ];
+
+  const crossings: UtilizationCrossing[] = [];
+  for (let i = 1; i < months.length; i++) {
+    const previous = months[i - 1]!;
+    const month = months[i]!;
+    crossings.push(...crossingsBetween(previous.utilization, month.utilization, month, null));
+    month.cards.forEach((card, c) => {
+      crossings.push(...crossingsBetween(previous.cards[c]!.utilization, card.utilization, month, card));
+    });
+  }
+
+  return {
+    strategy: result.strategy,
+    startingUtilization: months[0]!.utilization,
+    finalUtilization: months[months.length - 1]!.utilization,
+    months,
+    crossings,
+    scoreEstimate: settings ? estimateScore(months, settings) : null,
+  };
+}
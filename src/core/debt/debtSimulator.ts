@@ -10,7 +10,7 @@
  * @module core/debt/debtSimulator
  */
 
-import type { DebtAccount, UserFinancialProfile } from '../../models/types.js';
+import type { DebtAccount, UserFinancialProfile, InterestConvention, RateIndex } from '../../models/types.js';
 import type {
   DebtState,
   DebtPayment,
@@ -19,11 +19,59 @@ import type {
   StrategyComparison,
   DebtInsights,
   DebtStrategy,
+  PromoRateExpiration,
+  SimulationOptions,
+  StrategyConfig,
+  OneTimePayment,
+  ExtraPaymentStep,
+  MissedPayment,
+  PaymentTermChange,
+  RatePath,
+  RatePathSpec,
+  RateSensitivity,
+  WindfallImpact,
+  NegativeAmortization,
 } from './debtTypes.js';
-import { getStrategySorter, allocateExtraPayments, getStrategyDescription } from './payoffStrategies.js';
-import { money, multiply, subtract, toDisplayDollars, add, divide } from '../../utils/money.js';
-import { now, addMonths, toMonthYear, toDateString } from '../../utils/dates.js';
-import { DEBT_PAYOFF } from '../../config/thresholds.js';
+import {
+  getStrategySorter,
+  allocateExtraPayments,
+  resolveHybridWeights,
+  formatHybridWeights,
+} from './payoffStrategies.js';
+import {
+  isRolloverLoan,
+  effectiveApr,
+  rolloverApr,
+  rolloverTermDays,
+  rolloverMinimumPayment,
+} from './rolloverLoans.js';
+import {
+  isInstallmentPlan,
+  installmentLateFee,
+  installmentPlanMinimumPayment,
+} from './installmentPlans.js';
+import {
+  money,
+  multiply,
+  subtract,
+  toDisplayDollars,
+  add,
+  divide,
+  aprToDailyRate,
+  aprToMonthlyRate,
+  roundCents,
+} from '../../utils/money.js';
+import {
+  now,
+  parse,
+  addMonths,
+  monthsBetween,
+  startOfDay,
+  toMonthYear,
+  toDateString,
+  daysInMonth,
+} from '../../utils/dates.js';
+import { DEBT_PAYOFF, RATE_INDEXES, RATE_SHOCKS } from '../../config/thresholds.js';
 
 // =============================================================================
 // INITIALIZATION
@@ -32,10 +80,14 @@ import { DEBT_PAYOFF } from '../../config/thresholds.js';
 /**
  * Initialize debt state from a debt account.
  */
-function initializeDebtState(debt: DebtAccount, index: number): DebtState {
+function initializeDebtState(
+  debt: DebtAccount,
+  index: number,
+  startDate: ReturnType<typeof now>
+): DebtState {
   const minimumPayment = debt.minimum_payment ?? calculateMinimumPayment(debt);
   
-  return {
+  const state: DebtState = {
     id: debt.id ?? `debt_${index}`,
     name: debt.name ?? `${debt.type}_${index}`,
     type: debt.type,
@@ -44,13 +96,79 @@ function initializeDebtState(debt: DebtAccount, index: number): DebtState {
     minimumPayment,
     creditLimit: debt.credit_limit,
     isPaidOff: debt.balance <= 0,
+    inCollections: debt.in_collections,
+    annualFee: debt.annual_fee,
+    monthlyFee: debt.monthly_fee,
+    annualFeeMonth: debt.annual_fee_month,
+    lateFee: isInstallmentPlan(debt)
+      ? installmentLateFee(debt)
+      : debt.late_fee ??
+        (debt.type === 'credit_card' ? DEBT_PAYOFF.DEFAULT_CREDIT_CARD_LATE_FEE : undefined),
+    penaltyApr: debt.penalty_apr,
+    interestConvention: debt.interest_convention ?? defaultInterestConvention(debt.type),
   };
+  
+  // Payday and title loans: the per-term fee accrues as simple daily
+  // interest, so each month carries its share of the terms in it
+  if (isRolloverLoan(debt)) {
+    state.apr = rolloverApr(debt.term_fee_per_100!, rolloverTermDays(debt));
+    state.interestConvention = 'actual_365';
+  }
+  
+  // Promotional rate: remember when it ends and what it becomes
+  if (
+    debt.is_promotional_rate !== false &&
+    debt.promotional_rate_expires !== undefined &&
+    debt.post_promotional_apr !== undefined
+  ) {
+    state.promoMonthsRemaining = Math.max(
+      0,
+      monthsBetween(startOfDay(startDate), startOfDay(parse(debt.promotional_rate_expires)))
+    );
+    state.postPromotionalApr = debt.post_promotional_apr;
+  }
+  
+  // Variable rate: the margin is measured against the rate the debt
+  // settles at once any promotion ends
+  if (debt.rate_index !== undefined) {
+    state.rateIndex = debt.rate_index;
+    state.rateMargin = debt.rate_margin ??
+      (state.postPromotionalApr ?? debt.apr) - RATE_INDEXES[debt.rate_index];
+  }
+  
+  if (debt.balance_transfer_fee !== undefined && debt.balance_transfer_fee > 0) {
+    state.balanceTransferFee = debt.balance_transfer_fee;
+    state.balanceTransferMonth = debt.balance_transfer_date !== undefined
+      ? dateToSimulationMonth(debt.balance_transfer_date, startDate)
+      : 1;
+  }
+  
+  return state;
+}
+
+/**
+ * Interest convention issuers typically use for a debt type.
+ * Revolving credit compounds daily, installment loans amortize monthly,
+ * and federal student loans accrue simple daily interest.
+ */
+function defaultInterestConvention(type: DebtAccount['type']): InterestConvention {
+  switch (type) {
+    case 'credit_card':
+      return 'daily_compound';
+    case 'student_loan':
+      return 'actual_365';
+    default:
+      return 'monthly_simple';
+  }
 }
 
 /**
  * Calculate minimum payment if not provided.
  */
 function calculateMinimumPayment(debt: DebtAccount): number {
+  if (isRolloverLoan(debt)) return rolloverMinimumPayment(debt);
+  if (isInstallmentPlan(debt)) return installmentPlanMinimumPayment(debt);
+  
   switch (debt.type) {
     case 'credit_card':
       return Math.max(
@@ -73,10 +191,25 @@ function calculateMinimumPayment(debt: DebtAccount): number {
   }
 }
 
+/**
+ * Give every debt a stable id and an explicit minimum payment, so
+ * scenarios built from the same debts line up debt for debt.
+ * Paid-off debts are dropped.
+ */
+export function normalizeDebtAccounts(debts: DebtAccount[]): DebtAccount[] {
+  return debts
+    .map((d, i) => ({
+      ...d,
+      id: d.id ?? `debt_${i}`,
+      minimum_payment: d.minimum_payment ?? calculateMinimumPayment(d),
+    }))
+    .filter((d) => d.balance > 0);
+}
+
 /**
  * Calculate amortized payment for a loan.
  */
-function calculateAmortizedPayment(
+export function calculateAmortizedPayment(
   principal: number,
   annualRate: number,
   termMonths: number
@@ -100,6 +233,210 @@ function calculateAmortizedPayment(
 // SINGLE MONTH SIMULATION
 // =============================================================================
 
+/**
+ * One month of the simulation calendar.
+ */
+interface BillingPeriod {
+  start: ReturnType<typeof now>;
+  date: string;
+  days: number;
+}
+
+/**
+ * Periods for the most recent start month. Periods depend only on the
+ * calendar month a simulation starts in, and Monte Carlo runs thousands
+ * of simulations from the same one, so each is worked out once.
+ */
+let calendar: { startMonth: string; start: ReturnType<typeof now>; periods: BillingPeriod[] } | undefined;
+
+/**
+ * Build the billing period lookup for simulations starting at startDate.
+ */
+function billingCalendar(startDate: ReturnType<typeof now>): (month: number) => BillingPeriod {
+  const startMonth = toMonthYear(startDate);
+  if (calendar?.startMonth !== startMonth) {
+    calendar = { startMonth, start: startDate, periods: [] };
+  }
+  const { start, periods } = calendar;
+  
+  return (month: number) => {
+    while (periods.length < month) {
+      const periodStart = addMonths(start, periods.length);
+      periods.push({ start: periodStart, date: toMonthYear(periodStart), days: daysInMonth(periodStart) });
+    }
+    return periods[month - 1]!;
+  };
+}
+
+/**
+ * Fees posting to a debt this month: recurring account fees, a scheduled
+ * balance transfer fee, and a late fee when the minimum is missed.
+ */
+function calculateFees(
+  debt: DebtState,
+  month: number,
+  periodStart: ReturnType<typeof now>,
+  missed: boolean
+): number {
+  let fees = debt.monthlyFee ?? 0;
+  
+  if (debt.annualFee) {
+    const annualFeeDue = debt.annualFeeMonth !== undefined
+      ? periodStart.month() + 1 === debt.annualFeeMonth
+      : month % 12 === 0;
+    if (annualFeeDue) fees += debt.annualFee;
+  }
+  
+  if (debt.balanceTransferFee && debt.balanceTransferMonth === month) {
+    fees += debt.balanceTransferFee;
+  }
+  
+  if (missed) {
+    fees += debt.lateFee ?? 0;
+  }
+  
+  return fees;
+}
+
+/**
+ * Move a debt onto or off its penalty APR after this month's payment.
+ * A missed minimum triggers the penalty APR (ending any promotional rate);
+ * enough consecutive on-time payments restore the previous APR.
+ */
+function applyPenaltyApr(debt: DebtState, missed: boolean): DebtState {
+  if (missed) {
+    if (debt.penaltyApr === undefined) return debt;
+    
+    const alreadyPenalized = debt.aprBeforePenalty !== undefined;
+    return {
+      ...debt,
+      apr: alreadyPenalized ? debt.apr : Math.max(debt.apr, debt.penaltyApr),
+      aprBeforePenalty: alreadyPenalized
+        ? debt.aprBeforePenalty
+        : debt.postPromotionalApr ?? debt.apr,
+      onTimeMonthsSincePenalty: 0,
+      promoMonthsRemaining: undefined,
+      postPromotionalApr: undefined,
+    };
+  }
+  
+  if (debt.aprBeforePenalty === undefined) return debt;
+  
+  const onTimeMonths = (debt.onTimeMonthsSincePenalty ?? 0) + 1;
+  if (onTimeMonths >= DEBT_PAYOFF.PENALTY_APR_CURE_MONTHS) {
+    return {
+      ...debt,
+      apr: debt.aprBeforePenalty,
+      aprBeforePenalty: undefined,
+      onTimeMonthsSincePenalty: undefined,
+    };
+  }
+  
+  return { ...debt, onTimeMonthsSincePenalty: onTimeMonths };
+}
+
+/**
+ * Amounts within this fraction of a cent of a half cent are rounded
+ * with decimal arithmetic; anywhere else, binary floating point rounds
+ * to the same cent.
+ */
+const HALF_CENT_TOLERANCE = 1e-4;
+
+/**
+ * Round a plain-number amount to the cent, falling back to the exact
+ * decimal result where floating point could round the other way.
+ */
+function toCents(amount: number, exact: () => number): number {
+  const cents = amount * 100;
+  const nearHalfCent = Math.abs(cents - Math.floor(cents) - 0.5) < HALF_CENT_TOLERANCE;
+  return nearHalfCent ? exact() : roundCents(amount);
+}
+
+/**
+ * Interest charged on a debt over one billing period.
+ * Payments post at the end of the period, so the average daily balance
+ * is the balance carried into the period.
+ */
+function calculateInterestCharge(debt: DebtState, daysInPeriod: number): number {
+  let rate: number;
+  switch (debt.interestConvention) {
+    case 'daily_compound':
+      rate = Math.pow(1 + aprToDailyRate(debt.apr), daysInPeriod) - 1;
+      break;
+    case 'actual_365':
+      rate = aprToDailyRate(debt.apr) * daysInPeriod;
+      break;
+    case 'monthly_simple':
+    default:
+      rate = aprToMonthlyRate(debt.apr);
+  }
+  
+  return toCents(debt.balance * rate, () => toDisplayDollars(multiply(debt.balance, rate)));
+}
+
+/**
+ * One debt's month once its fees and payment are known.
+ */
+interface DebtMonthStep {
+  interestCharge: number;
+  actualPayment: number;
+  interestPaid: number;
+  feesPaid: number;
+  principalPaid: number;
+  newBalance: number;
+  isPaidOff: boolean;
+}
+
+/**
+ * Charge a debt a month's interest and fees and apply its payment:
+ * interest first, then fees, then principal. The payment is capped at
+ * the balance with charges. Both the full and the summary simulation
+ * run each debt's month through here.
+ */
+function stepDebtMonth(
+  debt: DebtState,
+  daysInPeriod: number,
+  feesCharged: number,
+  desiredPayment: number
+): DebtMonthStep {
+  const interestCharge = calculateInterestCharge(debt, daysInPeriod);
+  
+  // Balance after interest and fees
+  const balanceWithCharges = toCents(
+    debt.balance + interestCharge + feesCharged,
+    () => toDisplayDollars(add(debt.balance, interestCharge, feesCharged))
+  );
+  
+  const actualPayment = Math.min(desiredPayment, balanceWithCharges);
+  const interestPaid = Math.min(interestCharge, actualPayment);
+  const feesPaid = Math.min(feesCharged, actualPayment - interestPaid);
+  const principalPaid = actualPayment - interestPaid - feesPaid;
+  
+  const newBalance = Math.max(0, toCents(
+    balanceWithCharges - actualPayment,
+    () => toDisplayDollars(subtract(balanceWithCharges, actualPayment))
+  ));
+  
+  return {
+    interestCharge,
+    actualPayment,
+    interestPaid,
+    feesPaid,
+    principalPaid,
+    newBalance,
+    isPaidOff: newBalance <= 0.01, // Allow for tiny rounding
+  };
+}
+
+/**
+ * A one-time payment resolved to the simulation month it lands in.
+ */
+interface ScheduledLumpSum {
+  month: number;
+  amount: number;
+  debtId?: string;
+}
+
 /**
  * Simulate one month of debt payments.
  */
@@ -108,22 +445,119 @@ function simulateMonth(
   extraPayment: number,
   strategy: DebtStrategy,
   month: number,
-  startDate: ReturnType<typeof now>,
+  period: BillingPeriod,
   totalInterestSoFar: number,
-  freedUpMinimums: number
+  freedUpMinimums: number,
+  lumpSums: ScheduledLumpSum[] = [],
+  strategyConfig: StrategyConfig = {},
+  isMissed: (debtId: string) => boolean = () => false,
+  rateShift: (debtId: string) => number = () => 0,
+  indexRate: (index: RateIndex) => number = (index) => RATE_INDEXES[index],
+  termChange: (debtId: string) => PaymentTermChange | undefined = () => undefined
 ): MonthlySimulationState {
+  const { start: periodStart, date, days: daysInPeriod } = period;
+  
+  // Switch to the post-promotional APR in the month the promo ends
+  const promotionalRateExpirations = applyPromoExpirations(debts, month, date);
+  
+  // Reprice index-linked debts to this month's index level
+  applyIndexRates(debts, indexRate);
+  
+  // This month's rate and minimum for a debt. Variable rates move with
+  // the rate path; promotional rates are fixed. A temporary change of
+  // terms overrides both.
+  const monthTerms = (debt: DebtState) => {
+    const terms = termChange(debt.id);
+    const shift = debt.promoMonthsRemaining === undefined ? rateShift(debt.id) : 0;
+    const apr = terms?.apr ?? (shift !== 0 ? Math.max(0, debt.apr + shift) : debt.apr);
+    return {
+      charged: apr !== debt.apr ? { ...debt, apr } : debt,
+      minimumPayment: terms?.minimumPayment ?? debt.minimumPayment,
+    };
+  };
+  
+  // Debts whose minimum is missed take no payment at all this month
+  const payableDebts = debts.map((d) =>
+    isMissed(d.id) && !d.isPaidOff ? { ...d, isPaidOff: true } : d
+  );
+  
+  // Directed lump sums go to their debt first; anything left over
+  // (or undirected) joins this month's extra payment pool
+  const directedAllocations = new Map<string, number>();
+  let pooledLumpSums = 0;
+  
+  for (const lump of lumpSums) {
+    const target = lump.debtId !== undefined
+      ? payableDebts.find((d) => d.id === lump.debtId && !d.isPaidOff && d.balance > 0)
+      : undefined;
+    
+    if (!target) {
+      pooledLumpSums += lump.amount;
+      continue;
+    }
+    
+    const alreadyDirected = directedAllocations.get(target.id) ?? 0;
+    const applied = Math.min(lump.amount, Math.max(0, target.balance - alreadyDirected));
+    directedAllocations.set(target.id, alreadyDirected + applied);
+    pooledLumpSums += lump.amount - applied;
+  }
+  
+  // Strategy allocation sees balances net of directed payments
+  const remainingDebts = directedAllocations.size === 0
+    ? payableDebts
+    : payableDebts.map((d) => {
+        const directed = directedAllocations.get(d.id) ?? 0;
+        const balance = Math.max(0, d.balance - directed);
+        return directed > 0 ? { ...d, balance, isPaidOff: d.isPaidOff || balance <= 0 } : d;
+      });
+  
+  // A debt a directed lump sum clears needs only this month's interest
+  // and fees from its minimum; the rest is freed like a paid-off minimum
+  let minimumsFreedByLumpSums = 0;
+  remainingDebts.forEach((d, i) => {
+    const before = payableDebts[i]!;
+    if (d === before || before.isPaidOff || !d.isPaidOff) return;
+    
+    const { charged, minimumPayment } = monthTerms(before);
+    const charges = calculateInterestCharge(charged, daysInPeriod) +
+      calculateFees(before, month, periodStart, false);
+    minimumsFreedByLumpSums += Math.max(0, minimumPayment - charges);
+  });
+  
+  // The strategy ranks debts by this month's rates. A debt whose
+  // payments are suspended takes no extra until its terms resume
+  const rankedDebts = remainingDebts.map((d) => {
+    if (d.isPaidOff) return d;
+    const { charged, minimumPayment } = monthTerms(d);
+    return minimumPayment === 0 && termChange(d.id) !== undefined
+      ? { ...charged, isPaidOff: true }
+      : charged;
+  });
+  
   // Get strategy sorter and sort active debts
-  const sorter = getStrategySorter(strategy);
-  const sortedDebts = sorter(debts);
+  const sorter = getStrategySorter(strategy, strategyConfig);
+  const sortedDebts = sorter(rankedDebts);
   
   // Allocate extra payments according to strategy
   const extraAllocations = allocateExtraPayments(
-    debts,
+    rankedDebts,
     sortedDebts,
-    extraPayment,
-    freedUpMinimums
+    extraPayment + pooledLumpSums,
+    freedUpMinimums + minimumsFreedByLumpSums
   );
   
+  // The regular extra payment goes out first; pooled lump sums cover
+  // what it can't, and any surplus is never paid
+  let allocated = 0;
+  extraAllocations.forEach((amount) => { allocated += amount; });
+  const regularExtra = extraPayment + freedUpMinimums + minimumsFreedByLumpSums;
+  let lumpSumsApplied = Math.min(pooledLumpSums, Math.max(0, allocated - regularExtra));
+  
+  directedAllocations.forEach((amount, debtId) => {
+    lumpSumsApplied += amount;
+    extraAllocations.set(debtId, (extraAllocations.get(debtId) ?? 0) + amount);
+  });
+  
   const payments: DebtPayment[] = [];
   const updatedDebts: DebtState[] = [];
   const debtsPaidOff: string[] = [];
@@ -131,6 +565,7 @@ function simulateMonth(
   let totalPaymentThisMonth = 0;
   let totalInterestThisMonth = 0;
   let totalPrincipalThisMonth = 0;
+  let totalFeesThisMonth = 0;
   let newFreedUpMinimums = 0;
   
   // Process each debt
@@ -140,31 +575,22 @@ function simulateMonth(
       continue;
     }
     
-    // Calculate monthly interest
-    const monthlyRate = debt.apr / 100 / 12;
-    const interestCharge = toDisplayDollars(multiply(debt.balance, monthlyRate));
+    const missed = isMissed(debt.id);
+    
+    // Interest is charged under the debt's convention at this month's rate
+    const { charged, minimumPayment } = monthTerms(debt);
+    const feesCharged = calculateFees(debt, month, periodStart, missed);
     
     // Calculate total payment (minimum + extra)
     const extraForThisDebt = extraAllocations.get(debt.id) ?? 0;
-    const desiredPayment = debt.minimumPayment + extraForThisDebt;
-    
-    // Balance after interest
-    const balanceWithInterest = toDisplayDollars(add(debt.balance, interestCharge));
-    
-    // Actual payment is capped at balance with interest
-    const actualPayment = Math.min(desiredPayment, balanceWithInterest);
-    
-    // Interest portion (pay interest first)
-    const interestPaid = Math.min(interestCharge, actualPayment);
-    
-    // Principal portion
-    const principalPaid = actualPayment - interestPaid;
+    const desiredPayment = missed ? 0 : minimumPayment + extraForThisDebt;
     
-    // New balance
-    const newBalance = Math.max(0, toDisplayDollars(subtract(balanceWithInterest, actualPayment)));
-    
-    // Check if paid off
-    const isPaidOff = newBalance <= 0.01; // Allow for tiny rounding
+    const { actualPayment, interestPaid, feesPaid, principalPaid, newBalance, isPaidOff } = stepDebtMonth(
+      charged,
+      daysInPeriod,
+      feesCharged,
+      desiredPayment
+    );
     
     if (isPaidOff) {
       debtsPaidOff.push(debt.id);
@@ -178,19 +604,26 @@ function simulateMonth(
       paymentAmount: actualPayment,
       principalPaid,
       interestPaid,
+      feesCharged,
+      feesPaid,
+      missedPayment: missed,
       remainingBalance: isPaidOff ? 0 : newBalance,
     });
     
     // Update debt state
-    updatedDebts.push({
+    updatedDebts.push(applyPenaltyApr({
       ...debt,
       balance: isPaidOff ? 0 : newBalance,
       isPaidOff,
-    });
+      promoMonthsRemaining: debt.promoMonthsRemaining === undefined
+        ? undefined
+        : debt.promoMonthsRemaining - 1,
+    }, missed));
     
     totalPaymentThisMonth += actualPayment;
     totalInterestThisMonth += interestPaid;
     totalPrincipalThisMonth += principalPaid;
+    totalFeesThisMonth += feesCharged;
   }
   
   // Calculate totals
@@ -202,22 +635,259 @@ function simulateMonth(
   
   return {
     month,
-    date: toMonthYear(addMonths(startDate, month - 1)),
+    date,
     debts: updatedDebts,
     payments,
     totalPayment: Math.round(totalPaymentThisMonth * 100) / 100,
     totalInterestPaid: Math.round((totalInterestSoFar + totalInterestThisMonth) * 100) / 100,
     totalPrincipalPaid: Math.round(totalPrincipalThisMonth * 100) / 100,
+    totalFeesCharged: Math.round(totalFeesThisMonth * 100) / 100,
     totalRemainingDebt: Math.round(totalRemainingDebt * 100) / 100,
     debtsPaidOffThisMonth: debtsPaidOff,
     extraPaymentApplied: extraPayment + freedUpMinimums,
+    oneTimePaymentsApplied: roundCents(lumpSumsApplied),
+    promotionalRateExpirations,
   };
 }
 
+/**
+ * Reprice debts whose promotional period has run out.
+ * Replaces the affected entries in the debts array (earlier schedule
+ * snapshots keep their old state) and returns the cliffs hit this month.
+ */
+function applyPromoExpirations(
+  debts: DebtState[],
+  month: number,
+  date: string
+): PromoRateExpiration[] {
+  const expirations: PromoRateExpiration[] = [];
+  
+  debts.forEach((debt, index) => {
+    if (debt.promoMonthsRemaining === undefined || debt.promoMonthsRemaining > 0) return;
+    
+    const newApr = debt.postPromotionalApr ?? debt.apr;
+    
+    if (!debt.isPaidOff && debt.balance > 0) {
+      expirations.push({
+        debtId: debt.id,
+        debtName: debt.name,
+        month,
+        date,
+        previousApr: debt.apr,
+        newApr,
+        balanceAtExpiry: debt.balance,
+      });
+    }
+    
+    debts[index] = {
+      ...debt,
+      apr: newApr,
+      promoMonthsRemaining: undefined,
+      postPromotionalApr: undefined,
+    };
+  });
+  
+  return expirations;
+}
+
+/**
+ * Reprice index-linked debts to the index level plus their margin.
+ * Promotional and penalty APRs don't float. Like applyPromoExpirations,
+ * replaces the affected entries rather than mutating them.
+ */
+function applyIndexRates(
+  debts: DebtState[],
+  indexRate: (index: RateIndex) => number
+): void {
+  debts.forEach((debt, i) => {
+    if (debt.rateIndex === undefined || debt.isPaidOff) return;
+    if (debt.promoMonthsRemaining !== undefined || debt.aprBeforePenalty !== undefined) return;
+    
+    const apr = Math.max(0, Math.round((indexRate(debt.rateIndex) + debt.rateMargin!) * 1000) / 1000);
+    if (apr !== debt.apr) {
+      debts[i] = { ...debt, apr };
+    }
+  });
+}
+
 // =============================================================================
 // FULL SIMULATION
 // =============================================================================
 
+/**
+ * Resolve one-time payments to the simulation month they land in.
+ * Payments dated in the past are applied in the first month.
+ */
+function scheduleLumpSums(
+  payments: OneTimePayment[],
+  startDate: ReturnType<typeof now>
+): Map<number, ScheduledLumpSum[]> {
+  const byMonth = new Map<number, ScheduledLumpSum[]>();
+  
+  for (const payment of payments) {
+    const month = dateToSimulationMonth(payment.date, startDate);
+    const scheduled: ScheduledLumpSum = {
+      month,
+      amount: payment.amount,
+      debtId: payment.debt_id,
+    };
+    byMonth.set(month, [...(byMonth.get(month) ?? []), scheduled]);
+  }
+  
+  return byMonth;
+}
+
+/**
+ * Build the missed-payment lookup for each month and debt, indexed by
+ * month so each lookup is constant time however many events there are.
+ * An event without a debt id misses every payment that month.
+ */
+function scheduleMissedPayments(
+  events: MissedPayment[],
+  startDate: ReturnType<typeof now>
+): (month: number, debtId: string) => boolean {
+  if (events.length === 0) return () => false;
+  
+  // null marks a month where every payment is missed
+  const byMonth = new Map<number, Set<string> | null>();
+  
+  for (const event of events) {
+    const month = event.month ?? dateToSimulationMonth(event.date!, startDate);
+    const missed = byMonth.get(month);
+    
+    if (event.debt_id === undefined) {
+      byMonth.set(month, null);
+    } else if (missed === undefined) {
+      byMonth.set(month, new Set([event.debt_id]));
+    } else {
+      missed?.add(event.debt_id);
+    }
+  }
+  
+  return (month: number, debtId: string) => {
+    const missed = byMonth.get(month);
+    return missed === null || (missed !== undefined && missed.has(debtId));
+  };
+}
+
+/**
+ * Build the change-of-terms lookup for each month and debt.
+ * Where changes overlap, the later one wins.
+ */
+function schedulePaymentTermChanges(
+  changes: PaymentTermChange[]
+): (month: number, debtId: string) => PaymentTermChange | undefined {
+  if (changes.length === 0) return () => undefined;
+  
+  return (month: number, debtId: string) => {
+    for (let i = changes.length - 1; i >= 0; i--) {
+      const change = changes[i]!;
+      if (change.debtId === debtId && month >= change.startMonth && month <= change.endMonth) {
+        return change;
+      }
+    }
+    return undefined;
+  };
+}
+
+/**
+ * Build the APR shift lookup for each month and debt.
+ * Months past the end of the path keep its last shift.
+ */
+function scheduleRatePath(
+  ratePath: RatePath | undefined
+): (month: number, debtId: string) => number {
+  if (!ratePath || ratePath.shifts.length === 0) return () => 0;
+  
+  const debtIds = new Set(ratePath.debtIds);
+  const lastIndex = ratePath.shifts.length - 1;
+  
+  return (month: number, debtId: string) =>
+    debtIds.has(debtId) ? ratePath.shifts[Math.min(month - 1, lastIndex)]! : 0;
+}
+
+/**
+ * Level of one index in a month along its projected path.
+ * Indexes without a path hold at their current level.
+ */
+function indexLevel(path: RatePathSpec | undefined, month: number, current: number): number {
+  if (!path) return current;
+  
+  switch (path.type) {
+    case 'flat':
+      return path.rate ?? current;
+    case 'step': {
+      // The latest step that has taken effect wins
+      let level = current;
+      let from = 0;
+      for (const step of path.steps) {
+        if (step.month <= month && step.month >= from) {
+          level = step.rate;
+          from = step.month;
+        }
+      }
+      return level;
+    }
+    case 'custom':
+      return path.monthly_rates[Math.min(month - 1, path.monthly_rates.length - 1)]!;
+  }
+}
+
+/**
+ * Build the index level lookup for each month and index, with an
+ * optional parallel shock applied to every path.
+ */
+function scheduleIndexRates(
+  paths: RatePathSpec[],
+  shock: number = 0
+): (month: number, index: RateIndex) => number {
+  const byIndex = new Map(paths.map((p) => [p.index, p]));
+  
+  return (month: number, index: RateIndex) =>
+    Math.max(0, indexLevel(byIndex.get(index), month, RATE_INDEXES[index]) + shock);
+}
+
+/**
+ * Simulation month (1-based) that a date falls in.
+ * Dates in the past map to the first month.
+ */
+function dateToSimulationMonth(date: string, startDate: ReturnType<typeof now>): number {
+  return Math.max(
+    0,
+    monthsBetween(startOfDay(startDate), startOfDay(parse(date)))
+  ) + 1;
+}
+
+/**
+ * Build the extra payment lookup for each month, resolved once into a
+ * per-month table so each lookup is constant time.
+ * Months outside every step fall back to the flat extra payment;
+ * where steps overlap, the later step wins.
+ */
+function resolveExtraPaymentSchedule(
+  steps: ExtraPaymentStep[],
+  flatExtraPayment: number,
+  startDate: ReturnType<typeof now>,
+  maxMonths: number
+): (month: number) => number {
+  if (steps.length === 0) return () => flatExtraPayment;
+  
+  const byMonth = new Array<number>(Math.max(1, maxMonths) + 1).fill(flatExtraPayment);
+  
+  for (const step of steps) {
+    const start = step.start_month ??
+      (step.start_date !== undefined ? dateToSimulationMonth(step.start_date, startDate) : 1);
+    const end = step.end_month ??
+      (step.end_date !== undefined ? dateToSimulationMonth(step.end_date, startDate) : Infinity);
+    
+    for (let month = Math.max(1, start); month <= Math.min(end, byMonth.length - 1); month++) {
+      byMonth[month] = step.amount;
+    }
+  }
+  
+  return (month: number) => byMonth[month] ?? flatExtraPayment;
+}
+
 /**
  * Run complete debt payoff simulation for a strategy.
  */
@@ -225,10 +895,39 @@ export function simulateStrategy(
   debts: DebtAccount[],
   strategy: DebtStrategy,
   extraMonthlyPayment: number,
-  maxMonths: number = DEBT_PAYOFF.MAX_SIMULATION_MONTHS
+  maxMonths: number = DEBT_PAYOFF.MAX_SIMULATION_MONTHS,
+  options: SimulationOptions = {}
+): StrategySimulationResult {
+  return runSimulation(debts, strategy, extraMonthlyPayment, maxMonths, options, true);
+}
+
+/**
+ * Month-by-month simulation behind simulateStrategy. Without
+ * keepSchedule, each month is dropped once its totals are counted.
+ */
+function runSimulation(
+  debts: DebtAccount[],
+  strategy: DebtStrategy,
+  extraMonthlyPayment: number,
+  maxMonths: number,
+  options: SimulationOptions,
+  keepSchedule: boolean
 ): StrategySimulationResult {
   // Initialize debt states
-  const debtStates = debts.map((d, i) => initializeDebtState(d, i));
+  const startDate = now();
+  const debtStates = debts.map((d, i) => initializeDebtState(d, i, startDate));
+  const lumpSumsByMonth = scheduleLumpSums(options.oneTimePayments ?? [], startDate);
+  const extraPaymentForMonth = resolveExtraPaymentSchedule(
+    options.extraPaymentSchedule ?? [],
+    extraMonthlyPayment,
+    startDate,
+    maxMonths
+  );
+  const isMissed = scheduleMissedPayments(options.missedPayments ?? [], startDate);
+  const rateShift = scheduleRatePath(options.ratePath);
+  const indexRate = scheduleIndexRates(options.indexRatePaths ?? [], options.indexRateShock);
+  const termChange = schedulePaymentTermChanges(options.paymentTermChanges ?? []);
+  const periodFor = billingCalendar(startDate);
   
   // Track original balances for payoff order
   const originalBalances = new Map(
@@ -237,13 +936,14 @@ export function simulateStrategy(
   
   const schedule: MonthlySimulationState[] = [];
   const payoffOrder: StrategySimulationResult['payoffOrder'] = [];
+  const promoCliffs: PromoRateExpiration[] = [];
   const debtInterestPaid = new Map<string, number>();
   
   // Initialize interest tracking
   debtStates.forEach((d) => debtInterestPaid.set(d.id, 0));
   
-  const startDate = now();
   let totalInterestPaid = 0;
+  let totalFeesCharged = 0;
   let totalAmountPaid = 0;
   let freedUpMinimums = 0;
   let month = 0;
@@ -262,17 +962,25 @@ export function simulateStrategy(
     // Simulate one month
     const monthState = simulateMonth(
       debtStates,
-      extraMonthlyPayment,
+      extraPaymentForMonth(month),
       strategy,
       month,
-      startDate,
+      periodFor(month),
       totalInterestPaid,
-      freedUpMinimums
+      freedUpMinimums,
+      lumpSumsByMonth.get(month),
+      options,
+      (debtId) => isMissed(month, debtId),
+      (debtId) => rateShift(month, debtId),
+      (index) => indexRate(month, index),
+      (debtId) => termChange(month, debtId)
     );
     
     // Update totals
     totalInterestPaid = monthState.totalInterestPaid;
     totalAmountPaid += monthState.totalPayment;
+    totalFeesCharged += monthState.totalFeesCharged;
+    promoCliffs.push(...monthState.promotionalRateExpirations);
     
     // Track interest per debt
     monthState.payments.forEach((p) => {
@@ -298,7 +1006,7 @@ export function simulateStrategy(
       }
     });
     
-    schedule.push(monthState);
+    if (keepSchedule) schedule.push(monthState);
   }
   
   // Add any remaining debts to payoff order (not paid off in time)
@@ -317,12 +1025,166 @@ export function simulateStrategy(
   
   return {
     strategy,
+    startDate: toDateString(startOfDay(startDate)),
     totalMonths: month,
     totalInterestPaid: Math.round(totalInterestPaid * 100) / 100,
+    totalFeesCharged: Math.round(totalFeesCharged * 100) / 100,
     totalAmountPaid: Math.round(totalAmountPaid * 100) / 100,
-    monthlyPaymentRequired: totalMinimumPayment + extraMonthlyPayment,
+    monthlyPaymentRequired: totalMinimumPayment + extraPaymentForMonth(1),
     schedule,
     payoffOrder,
+    promoCliffs,
+  };
+}
+
+// =============================================================================
+// SUMMARY SIMULATION
+// =============================================================================
+
+/**
+ * Options the summary path can run without building each month.
+ */
+function supportsSummary(options: SimulationOptions): boolean {
+  return (options.oneTimePayments?.length ?? 0) === 0 &&
+    (options.extraPaymentSchedule?.length ?? 0) === 0 &&
+    (options.missedPayments?.length ?? 0) === 0 &&
+    (options.ratePath?.shifts.length ?? 0) === 0 &&
+    (options.paymentTermChanges?.length ?? 0) === 0;
+}
+
+/**
+ * Run a payoff simulation for its totals only.
+ * 
+ * Returns what simulateStrategy returns, minus the schedule. This is not
+ * a closed form: it still steps month by month, because interest and
+ * balances are rounded to the cent every month and amortizing across
+ * several months at once would drift from simulateStrategy. Each debt's
+ * month goes through the same stepDebtMonth as simulateStrategy; the
+ * saving is that debt states are updated in place and no month objects
+ * are built.
+ * Options that reshape individual months (one-time payments, extra
+ * payment steps, missed payments, Monte Carlo rate paths and changes of
+ * terms) fall back to simulateStrategy's month-by-month run, still
+ * without keeping the schedule.
+ */
+export function simulateStrategySummary(
+  debts: DebtAccount[],
+  strategy: DebtStrategy,
+  extraMonthlyPayment: number,
+  maxMonths: number = DEBT_PAYOFF.MAX_SIMULATION_MONTHS,
+  options: SimulationOptions = {}
+): StrategySimulationResult {
+  if (!supportsSummary(options)) {
+    return runSimulation(debts, strategy, extraMonthlyPayment, maxMonths, options, false);
+  }
+  
+  const startDate = now();
+  const states = debts.map((d, i) => initializeDebtState(d, i, startDate));
+  const sorter = getStrategySorter(strategy, options);
+  const indexRate = scheduleIndexRates(options.indexRatePaths ?? [], options.indexRateShock);
+  const periodFor = billingCalendar(startDate);
+  
+  const originalBalances = states.map((d) => d.balance);
+  const interestByDebt = new Float64Array(states.length);
+  
+  const payoffOrder: StrategySimulationResult['payoffOrder'] = [];
+  const promoCliffs: PromoRateExpiration[] = [];
+  const totalMinimumPayment = states.reduce((sum, d) => sum + d.minimumPayment, 0);
+  
+  let totalInterestPaid = 0;
+  let totalFeesCharged = 0;
+  let totalAmountPaid = 0;
+  let freedUpMinimums = 0;
+  let month = 0;
+  
+  while (month < maxMonths) {
+    if (!states.some((d) => !d.isPaidOff && d.balance > 0)) break;
+    
+    month++;
+    const { start: periodStart, date, days: daysInPeriod } = periodFor(month);
+    
+    promoCliffs.push(...applyPromoExpirations(states, month, date));
+    applyIndexRates(states, (index) => indexRate(month, index));
+    
+    const extraAllocations = allocateExtraPayments(
+      states,
+      sorter(states),
+      extraMonthlyPayment,
+      freedUpMinimums
+    );
+    
+    let totalPaymentThisMonth = 0;
+    let totalInterestThisMonth = 0;
+    let totalFeesThisMonth = 0;
+    
+    for (let i = 0; i < states.length; i++) {
+      const debt = states[i]!;
+      
+      if (debt.isPaidOff || debt.balance <= 0) {
+        debt.isPaidOff = true;
+        debt.balance = 0;
+        continue;
+      }
+      
+      const feesCharged = calculateFees(debt, month, periodStart, false);
+      const { actualPayment, interestPaid, newBalance, isPaidOff } = stepDebtMonth(
+        debt,
+        daysInPeriod,
+        feesCharged,
+        debt.minimumPayment + (extraAllocations.get(debt.id) ?? 0)
+      );
+      
+      debt.balance = isPaidOff ? 0 : newBalance;
+      debt.isPaidOff = isPaidOff;
+      if (debt.promoMonthsRemaining !== undefined) debt.promoMonthsRemaining--;
+      
+      interestByDebt[i] += interestPaid;
+      totalPaymentThisMonth += actualPayment;
+      totalInterestThisMonth += interestPaid;
+      totalFeesThisMonth += feesCharged;
+      
+      if (isPaidOff) {
+        // Allocation for this month is already done, so the freed
+        // minimum first counts next month
+        freedUpMinimums += debt.minimumPayment;
+        payoffOrder.push({
+          debtId: debt.id,
+          debtName: debt.name,
+          monthsToPayoff: month,
+          interestPaid: interestByDebt[i]!,
+          originalBalance: originalBalances[i]!,
+        });
+      }
+    }
+    
+    totalInterestPaid = Math.round((totalInterestPaid + totalInterestThisMonth) * 100) / 100;
+    totalAmountPaid += Math.round(totalPaymentThisMonth * 100) / 100;
+    totalFeesCharged += Math.round(totalFeesThisMonth * 100) / 100;
+  }
+  
+  states.forEach((d, i) => {
+    if (!d.isPaidOff && d.balance > 0) {
+      payoffOrder.push({
+        debtId: d.id,
+        debtName: d.name,
+        monthsToPayoff: maxMonths + 999, // Indicate not paid off
+        interestPaid: interestByDebt[i]!,
+        originalBalance: originalBalances[i]!,
+      });
+    }
+  });
+  
+  return {
+    strategy,
+    startDate: toDateString(startOfDay(startDate)),
+    totalMonths: month,
+    totalInterestPaid: Math.round(totalInterestPaid * 100) / 100,
+    totalFeesCharged: Math.round(totalFeesCharged * 100) / 100,
+    totalAmountPaid: Math.round(totalAmountPaid * 100) / 100,
+    monthlyPaymentRequired: totalMinimumPayment + extraMonthlyPayment,
+    schedule: [],
+    payoffOrder,
+    promoCliffs,
   };
 }
 
@@ -332,17 +1194,27 @@ export function simulateStrategy(
 
 /**
  * Compare all strategies and recommend the best one.
+ * With includeSchedules off, results carry no monthly schedule.
  */
 export function compareStrategies(
   debts: DebtAccount[],
   extraMonthlyPayment: number,
-  maxMonths: number = DEBT_PAYOFF.MAX_SIMULATION_MONTHS
+  maxMonths: number = DEBT_PAYOFF.MAX_SIMULATION_MONTHS,
+  options: SimulationOptions = {},
+  includeSchedules: boolean = true
 ): StrategyComparison {
+  const simulate = includeSchedules ? simulateStrategy : simulateStrategySummary;
+  
   const strategies: DebtStrategy[] = ['avalanche', 'snowball', 'hybrid', 'minimum_only'];
+  if (options.customOrder && options.customOrder.length > 0) {
+    strategies.push('custom');
+  }
   
-  // Run all simulations
+  // Run all simulations (the minimum-only baseline gets no extra money)
   const results = strategies.map((strategy) =>
-    simulateStrategy(debts, strategy, strategy === 'minimum_only' ? 0 : extraMonthlyPayment, maxMonths)
+    strategy === 'minimum_only'
+      ? simulate(debts, strategy, 0, maxMonths, baselineOptions(options))
+      : simulate(debts, strategy, extraMonthlyPayment, maxMonths, options)
   );
   
   // Find minimum interest (avalanche should win this)
@@ -358,13 +1230,15 @@ export function compareStrategies(
     ? minimumOnlyResult.totalInterestPaid - minInterest
     : 0;
   
+  const hybridWeights = resolveHybridWeights(options.hybridWeights);
+  
   // Determine recommendation
   let recommendedStrategy: DebtStrategy = 'avalanche';
   let recommendationReason: string;
   
   const avalancheResult = results.find((r) => r.strategy === 'avalanche');
   const snowballResult = results.find((r) => r.strategy === 'snowball');
-  const hybridResult = results.find((r) => r.strategy === 'hybrid');
+  const customResult = results.find((r) => r.strategy === 'custom');
   
   // Check if snowball has quick wins that might be worth the extra interest
   const hasQuickSnowballWins = snowballResult && avalancheResult &&
@@ -384,7 +1258,7 @@ export function compareStrategies(
     recommendationReason = `The snowball method gives you quick wins while only costing ${formatMoney(interestDifferential)} more in interest. The psychological momentum may help you stay motivated.`;
   } else {
     recommendedStrategy = 'hybrid';
-    recommendationReason = `The hybrid approach balances interest savings with quick wins, making it a good middle-ground strategy for your situation.`;
+    recommendationReason = `The hybrid approach balances interest savings with quick wins (weighted ${formatHybridWeights(hybridWeights)}), making it a good middle-ground strategy for your situation.`;
   }
   
   // Calculate time saved
@@ -399,9 +1273,101 @@ export function compareStrategies(
     savingsVsMinimum: Math.round(savingsVsMinimum * 100) / 100,
     savingsVsWorst: Math.round((maxInterest - minInterest) * 100) / 100,
     timeSavedMonths,
+    hybridWeights,
+    customOrderCost: customResult && avalancheResult
+      ? {
+          extraInterest: Math.round(
+            (customResult.totalInterestPaid - avalancheResult.totalInterestPaid) * 100
+          ) / 100,
+          extraMonths: customResult.totalMonths - avalancheResult.totalMonths,
+        }
+      : null,
   };
 }
 
+/**
+ * Options for the minimum-only baseline: same debts and rates,
+ * but none of the user's additional payments.
+ */
+function baselineOptions(options: SimulationOptions): SimulationOptions {
+  return { ...options, oneTimePayments: undefined, extraPaymentSchedule: undefined };
+}
+
+// =============================================================================
+// WINDFALL ANALYSIS
+// =============================================================================
+
+/**
+ * Measure what each one-time payment saves compared with the same plan
+ * without it (all other payments unchanged).
+ */
+export function analyzeWindfalls(
+  debts: DebtAccount[],
+  strategy: DebtStrategy,
+  extraMonthlyPayment: number,
+  maxMonths: number = DEBT_PAYOFF.MAX_SIMULATION_MONTHS,
+  options: SimulationOptions = {}
+): WindfallImpact[] {
+  const payments = options.oneTimePayments ?? [];
+  if (payments.length === 0) return [];
+  
+  const startDate = now();
+  const withAll = simulateStrategy(debts, strategy, extraMonthlyPayment, maxMonths, options);
+  
+  return payments.map((payment, index) => {
+    const without = simulateStrategy(debts, strategy, extraMonthlyPayment, maxMonths, {
+      ...options,
+      oneTimePayments: payments.filter((_, i) => i !== index),
+    });
+    
+    return {
+      label: payment.label ?? `One-time payment ${index + 1}`,
+      amount: payment.amount,
+      date: payment.date,
+      month: dateToSimulationMonth(payment.date, startDate),
+      debtId: payment.debt_id ?? null,
+      interestSaved: Math.round((without.totalInterestPaid - withAll.totalInterestPaid) * 100) / 100,
+      monthsSaved: without.totalMonths - withAll.totalMonths,
+    };
+  });
+}
+
+// =============================================================================
+// RATE SENSITIVITY
+// =============================================================================
+
+/**
+ * Measure how payoff moves if every benchmark index runs above or below
+ * its projected path. Returns nothing when no debt floats.
+ */
+export function analyzeRateSensitivity(
+  debts: DebtAccount[],
+  strategy: DebtStrategy,
+  extraMonthlyPayment: number,
+  maxMonths: number = DEBT_PAYOFF.MAX_SIMULATION_MONTHS,
+  options: SimulationOptions = {}
+): RateSensitivity[] {
+  if (!debts.some((d) => d.rate_index !== undefined && d.balance > 0)) return [];
+  
+  const base = simulateStrategySummary(debts, strategy, extraMonthlyPayment, maxMonths, options);
+  
+  return RATE_SHOCKS.map((shock) => {
+    const shocked = simulateStrategySummary(debts, strategy, extraMonthlyPayment, maxMonths, {
+      ...options,
+      indexRateShock: (options.indexRateShock ?? 0) + shock,
+    });
+    
+    return {
+      shock,
+      totalMonths: shocked.totalMonths,
+      paidOff: shocked.payoffOrder.every((p) => p.monthsToPayoff <= maxMonths),
+      totalInterestPaid: shocked.totalInterestPaid,
+      monthsChange: shocked.totalMonths - base.totalMonths,
+      interestChange: Math.round((shocked.totalInterestPaid - base.totalInterestPaid) * 100) / 100,
+    };
+  });
+}
+
 // =============================================================================
 // INSIGHTS GENERATION
 // =============================================================================
@@ -419,12 +1385,12 @@ export function generateDebtInsights(
   const totalDebt = activeDebts.reduce((sum, d) => sum + d.balance, 0);
   
   // Average APR (weighted by balance)
-  const weightedAPRSum = activeDebts.reduce((sum, d) => sum + d.apr * d.balance, 0);
+  const weightedAPRSum = activeDebts.reduce((sum, d) => sum + effectiveApr(d) * d.balance, 0);
   const averageAPR = totalDebt > 0 ? weightedAPRSum / totalDebt : 0;
   
   // Highest APR debt
   const highestAPRDebt = activeDebts.length > 0
-    ? activeDebts.reduce((max, d) => (d.apr > max.apr ? d : max))
+    ? activeDebts.reduce((max, d) => (effectiveApr(d) > effectiveApr(max) ? d : max))
     : null;
   
   // Lowest balance debt
@@ -459,7 +1425,7 @@ export function generateDebtInsights(
       ? {
           id: highestAPRDebt.id ?? 'unknown',
           name: highestAPRDebt.name ?? highestAPRDebt.type,
-          apr: highestAPRDebt.apr,
+          apr: Math.round(effectiveApr(highestAPRDebt) * 100) / 100,
           balance: highestAPRDebt.balance,
         }
       : null,
@@ -474,9 +1440,56 @@ export function generateDebtInsights(
     potentialInterestSavings: comparison.savingsVsMinimum,
     debtFreeDate,
     monthlyMinimumRequired: Math.round(monthlyMinimumRequired * 100) / 100,
+    promoCliffs: recommendedResult?.promoCliffs ?? [],
+    negativeAmortization: detectNegativeAmortization(debts),
   };
 }
 
+// =============================================================================
+// NEGATIVE AMORTIZATION
+// =============================================================================
+
+/**
+ * Find debts whose minimum payment does not cover monthly interest and
+ * recurring fees, so the balance grows on minimum payments alone.
+ * Promotional debts are checked at their post-promotional APR, and
+ * daily-accruing debts over the longest (31-day) month.
+ */
+export function detectNegativeAmortization(debts: DebtAccount[]): NegativeAmortization[] {
+  const startDate = now();
+  const growing: NegativeAmortization[] = [];
+  
+  debts.forEach((debt, index) => {
+    if (debt.balance <= 0) return;
+    
+    const state = initializeDebtState(debt, index, startDate);
+    const apr = state.postPromotionalApr ?? state.apr;
+    const monthlyInterest = calculateInterestCharge({ ...state, apr }, 31);
+    const monthlyFees = Math.round(
+      ((state.monthlyFee ?? 0) + (state.annualFee ?? 0) / 12) * 100
+    ) / 100;
+    const breakEvenPayment = Math.ceil((monthlyInterest + monthlyFees) * 100) / 100;
+    
+    if (state.minimumPayment >= breakEvenPayment) return;
+    
+    growing.push({
+      debtId: state.id,
+      debtName: state.name,
+      balance: state.balance,
+      minimumPayment: state.minimumPayment,
+      apr,
+      monthlyInterest,
+      monthlyFees,
+      monthlyGrowth: Math.round((breakEvenPayment - state.minimumPayment) * 100) / 100,
+      breakEvenPayment,
+      afterPromotionalRate: state.postPromotionalApr !== undefined &&
+        state.minimumPayment >= calculateInterestCharge(state, 31) + monthlyFees,
+    });
+  });
+  
+  return growing;
+}
+
 // =============================================================================
 // HELPER FUNCTIONS
 // =============================================================================
@@ -7,7 +7,11 @@
  */
 
 import { z } from 'zod';
-import { UserFinancialProfileSchema, DebtAccountSchema } from '../../models/types.js';
+import { UserFinancialProfileSchema, DebtAccountSchema, RateIndexSchema } from '../../models/types.js';
+import type { InterestConvention, RateIndex } from '../../models/types.js';
+import type { DecisionOutcome, ReasonCode } from '../../models/DecisionResponse.js';
+import { OUTPUT_LIMITS } from '../../config/limits.js';
+import { MONTE_CARLO } from '../../config/thresholds.js';
 
 // =============================================================================
 // REQUEST TYPES
@@ -21,10 +25,153 @@ export const DebtStrategySchema = z.enum([
   'snowball',     // Pay smallest balance first (psychological wins)
   'hybrid',       // Balance between avalanche and snowball
   'minimum_only', // Just pay minimums (baseline comparison)
+  'custom',       // User-defined order (e.g., family loan first)
 ]);
 
 export type DebtStrategy = z.infer<typeof DebtStrategySchema>;
 
+/**
+ * A one-time payment toward debt (tax refund, bonus, inheritance).
+ */
+export const OneTimePaymentSchema = z.object({
+  /** Amount in dollars */
+  amount: z.number().positive(),
+  
+  /** Date the money is available (ISO 8601) */
+  date: z.string().datetime(),
+  
+  /** Debt to direct the payment at (if omitted, spread by the strategy) */
+  debt_id: z.string().optional(),
+  
+  /** Label for display (e.g., "Tax refund") */
+  label: z.string().max(100).optional(),
+});
+
+export type OneTimePayment = z.infer<typeof OneTimePaymentSchema>;
+
+/**
+ * One step of a time-varying extra payment schedule.
+ * The range is given in simulation months (1 = first month) or dates;
+ * an open end runs to the end of the simulation.
+ */
+export const ExtraPaymentStepSchema = z.object({
+  /** Extra monthly payment during this step */
+  amount: z.number().nonnegative(),
+  
+  /** First month of the step (1-based) */
+  start_month: z.number().int().positive().optional(),
+  
+  /** Last month of the step (inclusive) */
+  end_month: z.number().int().positive().optional(),
+  
+  /** Date the step starts (ISO 8601), alternative to start_month */
+  start_date: z.string().datetime().optional(),
+  
+  /** Date the step ends (ISO 8601), alternative to end_month */
+  end_date: z.string().datetime().optional(),
+}).refine(
+  (step) => !(step.start_month !== undefined && step.start_date !== undefined) &&
+    !(step.end_month !== undefined && step.end_date !== undefined),
+  { message: 'Use either months or dates for each end of a step, not both' }
+).refine(
+  (step) => step.start_month === undefined || step.end_month === undefined ||
+    step.start_month <= step.end_month,
+  { message: 'start_month must not be after end_month' }
+);
+
+export type ExtraPaymentStep = z.infer<typeof ExtraPaymentStepSchema>;
+
+/**
+ * A minimum payment missed in a stress scenario. The month is given in
+ * simulation months (1 = first month) or as a date.
+ */
+export const MissedPaymentSchema = z.object({
+  /** Simulation month the payment is missed (1-based) */
+  month: z.number().int().positive().optional(),
+  
+  /** Date the payment is missed (ISO 8601), alternative to month */
+  date: z.string().datetime().optional(),
+  
+  /** Debt whose payment is missed (if omitted, every payment that month is missed) */
+  debt_id: z.string().optional(),
+}).refine(
+  (missed) => (missed.month === undefined) !== (missed.date === undefined),
+  { message: 'Provide exactly one of month or date' }
+);
+
+export type MissedPayment = z.infer<typeof MissedPaymentSchema>;
+
+/**
+ * Projected path of a benchmark index, in percent. Debts linked to the
+ * index reprice to its level plus their margin every month.
+ * - flat: the index holds at one level (the current level if omitted)
+ * - step: the index moves to each rate in the month given and holds there
+ * - custom: one rate per month; the last rate holds after the series ends
+ */
+export const RatePathSpecSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('flat'),
+    index: RateIndexSchema,
+    rate: z.number().min(0).max(50).optional(),
+  }),
+  z.object({
+    type: z.literal('step'),
+    index: RateIndexSchema,
+    steps: z.array(z.object({
+      /** Simulation month the rate takes effect (1-based) */
+      month: z.number().int().positive(),
+      rate: z.number().min(0).max(50),
+    })).min(1).max(120),
+  }),
+  z.object({
+    type: z.literal('custom'),
+    index: RateIndexSchema,
+    /** Index level for each month (first entry = month 1) */
+    monthly_rates: z.array(z.number().min(0).max(50)).min(1).max(480),
+  }),
+]);
+
+export type RatePathSpec = z.infer<typeof RatePathSpecSchema>;
+
+/**
+ * Scoring weights for the hybrid strategy. Omitted weights use the
+ * engine defaults; all weights are normalized to sum to 1.
+ */
+export const HybridWeightsSchema = z.object({
+  apr: z.number().nonnegative().optional(),
+  balance: z.number().nonnegative().optional(),
+  utilization: z.number().nonnegative().optional(),
+  collections: z.number().nonnegative().optional(),
+  fees: z.number().nonnegative().optional(),
+});
+
+/**
+ * Schedule rollup: one entry per month, or per quarter or year of the
+ * simulation (counted from its first month, not the calendar).
+ */
+export const ScheduleGranularitySchema = z.enum(['monthly', 'quarterly', 'yearly']);
+
+export type ScheduleGranularity = z.infer<typeof ScheduleGranularitySchema>;
+
+/**
+ * Response format for endpoints that return a schedule: JSON, or the
+ * whole schedule as CSV or an iCalendar file.
+ */
+export const ScheduleFormatSchema = z.enum(['json', 'csv', 'ics']);
+
+export type ScheduleFormat = z.infer<typeof ScheduleFormatSchema>;
+
+/**
+ * One row of the utilization score heuristic: points for overall
+ * utilization at or below max_utilization (1 = 100%).
+ */
+export const UtilizationScoreRowSchema = z.object({
+  max_utilization: z.number().nonnegative().max(10),
+  points: z.number().min(-550).max(550),
+});
+
+export type UtilizationScoreRow = z.infer<typeof UtilizationScoreRowSchema>;
+
 /**
  * Request for debt payoff simulation.
  */
@@ -38,114 +185,1503 @@ export const DebtPayoffRequestSchema = z.object({
   /** Specific strategy to simulate (if not provided, all are compared) */
   strategy: DebtStrategySchema.optional(),
   
+  /** Debt ids in the order to pay them off (enables the custom strategy) */
+  custom_order: z.array(z.string()).min(1).max(50).optional(),
+  
+  /** Scoring weights for the hybrid strategy */
+  hybrid_weights: HybridWeightsSchema.optional(),
+  
+  /** One-time lump sums applied in the month they land */
+  one_time_payments: z.array(OneTimePaymentSchema).max(50).optional(),
+  
+  /**
+   * Extra payment steps over time. Months not covered by a step use
+   * extra_monthly_payment; where steps overlap, the later one wins.
+   */
+  extra_payment_schedule: z.array(ExtraPaymentStepSchema).max(50).optional(),
+  
+  /** Missed minimum payments to stress-test (late fees and penalty APR apply) */
+  missed_payments: z.array(MissedPaymentSchema).max(50).optional(),
+  
+  /** Projected index paths for variable-rate debts (indexes not given stay flat) */
+  rate_paths: z.array(RatePathSpecSchema).max(3).optional(),
+  
+  /** Rank avalanche and hybrid by after-tax APR (default: when user.tax is given) */
+  rank_by_after_tax_apr: z.boolean().optional(),
+  
   /** Include full month-by-month schedule */
   include_schedule: z.boolean().default(true),
   
+  /** Roll the schedule up by month, quarter or year */
+  schedule_granularity: ScheduleGranularitySchema.default('monthly'),
+  
+  /** Continue the schedule from a previous response's next_cursor */
+  schedule_cursor: z.string().max(100).optional(),
+  
+  /** Schedule entries (months, quarters or years) per page */
+  schedule_page_size: z.number().int().positive()
+    .max(OUTPUT_LIMITS.MAX_SIMULATION_MONTHS_RETURNED)
+    .default(OUTPUT_LIMITS.MAX_SIMULATION_MONTHS_RETURNED),
+  
+  /** Return the recommended schedule as CSV or iCalendar (overrides the Accept header) */
+  format: ScheduleFormatSchema.optional(),
+  
   /** Maximum months to simulate */
   max_months: z.number().int().positive().default(360),
   
+  /** Include credit card utilization month by month (needs credit_limit) */
+  include_utilization: z.boolean().default(true),
+  
+  /** Estimate score points and band from utilization */
+  include_score_estimate: z.boolean().default(false),
+  
+  /** Replace the default utilization score table (rows in ascending max_utilization) */
+  utilization_score_table: z.array(UtilizationScoreRowSchema).min(1).max(20)
+    .refine(
+      (rows) => rows.every((row, i) => i === 0 || row.max_utilization > rows[i - 1]!.max_utilization),
+      { message: 'Rows must be in ascending max_utilization' }
+    )
+    .optional(),
+  
   /** Include AI explanation */
   include_ai_explanation: z.boolean().default(true),
-});
+}).refine(
+  (data) => data.strategy !== 'custom' || data.custom_order !== undefined,
+  { message: 'custom_order is required for the custom strategy', path: ['custom_order'] }
+);
 
 export type DebtPayoffRequest = z.infer<typeof DebtPayoffRequestSchema>;
 
-// =============================================================================
-// SIMULATION TYPES
-// =============================================================================
+/**
+ * Request for the inverse solver: the smallest extra payment that
+ * reaches a debt-free date and/or keeps total interest under a cap.
+ */
+export const PayoffTargetRequestSchema = z.object({
+  /** User's financial profile */
+  user: UserFinancialProfileSchema,
+  
+  /** Date by which all debts should be paid off (ISO 8601) */
+  target_date: z.string().datetime().optional(),
+  
+  /** Maximum total interest the user is willing to pay */
+  max_total_interest: z.number().nonnegative().optional(),
+  
+  /** Maximum months to simulate */
+  max_months: z.number().int().positive().max(480).default(360),
+}).refine(
+  (data) => data.target_date !== undefined || data.max_total_interest !== undefined,
+  { message: 'Provide target_date, max_total_interest, or both' }
+);
+
+export type PayoffTargetRequest = z.infer<typeof PayoffTargetRequestSchema>;
 
 /**
- * State of a single debt at a point in time.
+ * A balance transfer card offer.
  */
-export interface DebtState {
-  id: string;
-  name: string;
-  type: string;
-  balance: number;
-  apr: number;
-  minimumPayment: number;
-  creditLimit?: number;
-  isPaidOff: boolean;
-}
+export const BalanceTransferOfferSchema = z.object({
+  /** Identifier for the offer (defaults to transfer_<index>) */
+  id: z.string().optional(),
+  
+  /** Display name (e.g., "Citi Diamond Preferred") */
+  name: z.string().optional(),
+  
+  /** APR during the introductory period */
+  intro_apr: z.number().min(0).max(100).default(0),
+  
+  /** Length of the introductory period */
+  intro_months: z.number().int().positive().max(60),
+  
+  /** Fee charged on each transferred amount, as a percentage (e.g., 3 for 3%) */
+  transfer_fee_percent: z.number().min(0).max(100),
+  
+  /** APR once the introductory period ends */
+  go_to_apr: z.number().min(0).max(100),
+  
+  /** Credit limit; transferred balances plus fees must fit under it */
+  credit_limit: z.number().positive(),
+});
+
+export type BalanceTransferOffer = z.infer<typeof BalanceTransferOfferSchema>;
 
 /**
- * A single payment made to a debt in a month.
+ * Request to evaluate balance transfer offers against the current debts.
  */
-export interface DebtPayment {
-  debtId: string;
-  debtName: string;
-  paymentAmount: number;
-  principalPaid: number;
-  interestPaid: number;
-  remainingBalance: number;
-}
+export const BalanceTransferRequestSchema = z.object({
+  /** Current debts */
+  debts: z.array(DebtAccountSchema).min(1).max(50),
+  
+  /** Offers to evaluate */
+  offers: z.array(BalanceTransferOfferSchema).min(1).max(10),
+  
+  /** Additional monthly amount available for debt payoff */
+  extra_monthly_payment: z.number().nonnegative().default(0),
+  
+  /** Strategy used to simulate both paths */
+  strategy: DebtStrategySchema.exclude(['custom']).default('avalanche'),
+  
+  /** Maximum months to simulate */
+  max_months: z.number().int().positive().max(480).default(360),
+});
+
+export type BalanceTransferRequest = z.infer<typeof BalanceTransferRequestSchema>;
 
 /**
- * State after simulating one month.
+ * A debt consolidation loan offer.
  */
-export interface MonthlySimulationState {
-  month: number;
-  date: string;
-  debts: DebtState[];
-  payments: DebtPayment[];
-  totalPayment: number;
-  totalInterestPaid: number;
-  totalPrincipalPaid: number;
-  totalRemainingDebt: number;
-  debtsPaidOffThisMonth: string[];
-  extraPaymentApplied: number;
-}
+export const ConsolidationLoanOfferSchema = z.object({
+  /** Loan APR */
+  apr: z.number().min(0).max(100),
+  
+  /** Loan term */
+  term_months: z.number().int().positive().max(360),
+  
+  /** Origination fee as a percentage, deducted from the loan proceeds */
+  origination_fee_percent: z.number().min(0).max(50).default(0),
+});
+
+export type ConsolidationLoanOffer = z.infer<typeof ConsolidationLoanOfferSchema>;
 
 /**
- * Complete result of a strategy simulation.
+ * Request to compare a consolidation loan with the current debts.
  */
-export interface StrategySimulationResult {
-  strategy: DebtStrategy;
-  totalMonths: number;
-  totalInterestPaid: number;
-  totalAmountPaid: number;
-  monthlyPaymentRequired: number;
-  schedule: MonthlySimulationState[];
-  payoffOrder: Array<{
-    debtId: string;
-    debtName: string;
-    monthsToPayoff: number;
-    interestPaid: number;
-    originalBalance: number;
-  }>;
-}
+export const ConsolidationRequestSchema = z.object({
+  /** Current debts */
+  debts: z.array(DebtAccountSchema).min(1).max(50),
+  
+  /** Loan offer */
+  loan: ConsolidationLoanOfferSchema,
+  
+  /** Debts the loan would pay off */
+  debt_ids: z.array(z.string()).min(1).max(50),
+  
+  /** Additional monthly amount available for debt payoff */
+  extra_monthly_payment: z.number().nonnegative().default(0),
+  
+  /** Maximum months to simulate */
+  max_months: z.number().int().positive().max(480).default(360),
+});
+
+export type ConsolidationRequest = z.infer<typeof ConsolidationRequestSchema>;
 
 /**
- * Comparison of multiple strategies.
+ * A settlement offer: the balance is closed for a lump sum of part of it.
  */
-export interface StrategyComparison {
-  strategies: StrategySimulationResult[];
-  recommendedStrategy: DebtStrategy;
-  recommendationReason: string;
-  savingsVsMinimum: number;
-  savingsVsWorst: number;
-  timeSavedMonths: number;
-}
+export const SettlementOfferSchema = z.object({
+  type: z.literal('settlement'),
+  
+  /** Debt the offer is for */
+  debt_id: z.string(),
+  
+  /** Lump sum as a percentage of the current balance */
+  settlement_percent: z.number().min(1).max(100),
+});
 
 /**
- * Insights derived from debt analysis.
+ * A hardship plan: a reduced APR and payment for a number of months,
+ * after which the debt's own terms resume.
  */
-export interface DebtInsights {
-  totalDebt: number;
-  averageAPR: number;
-  highestAPRDebt: {
-    id: string;
-    name: string;
-    apr: number;
-    balance: number;
-  } | null;
-  lowestBalanceDebt: {
-    id: string;
-    name: string;
-    balance: number;
-  } | null;
-  quickWins: string[];
-  potentialInterestSavings: number;
-  debtFreeDate: string;
-  monthlyMinimumRequired: number;
+export const HardshipPlanSchema = z.object({
+  type: z.literal('hardship_plan'),
+  
+  /** Debt the plan is for */
+  debt_id: z.string(),
+  
+  /** APR while on the plan */
+  reduced_apr: z.number().min(0).max(100),
+  
+  /** Monthly payment while on the plan */
+  reduced_payment: z.number().nonnegative(),
+  
+  /** Months on the plan */
+  duration_months: z.number().int().min(1).max(60),
+});
+
+/**
+ * Forbearance: payments are paused for a number of months.
+ */
+export const ForbearanceSchema = z.object({
+  type: z.literal('forbearance'),
+  
+  /** Debt the forbearance is for */
+  debt_id: z.string(),
+  
+  /** Months with no payment due */
+  duration_months: z.number().int().min(1).max(24),
+  
+  /** Whether interest keeps accruing (and is added to the balance) while paused */
+  interest_accrues: z.boolean().default(true),
+});
+
+export const HardshipOptionSchema = z.discriminatedUnion('type', [
+  SettlementOfferSchema,
+  HardshipPlanSchema,
+  ForbearanceSchema,
+]);
+
+export type HardshipOption = z.infer<typeof HardshipOptionSchema>;
+
+/**
+ * Request to compare settlement, hardship and forbearance options with
+ * the current plan.
+ */
+export const HardshipOptionsRequestSchema = z.object({
+  /** Current debts */
+  debts: z.array(DebtAccountSchema).min(1).max(50),
+  
+  /** Options to compare */
+  options: z.array(HardshipOptionSchema).min(1).max(10),
+  
+  /** Strategy for the current plan and every option */
+  strategy: DebtStrategySchema.exclude(['custom']).default('avalanche'),
+  
+  /** Additional monthly amount available for debt payoff */
+  extra_monthly_payment: z.number().nonnegative().default(0),
+  
+  /** Cash on hand for lump sums */
+  available_cash: z.number().nonnegative().optional(),
+  
+  /** Marginal income tax rate as a percentage, for tax on forgiven debt */
+  marginal_tax_rate: z.number().min(0).max(60).optional(),
+  
+  /** Maximum months to simulate */
+  max_months: z.number().int().positive().max(480).default(360),
+});
+
+export type HardshipOptionsRequest = z.infer<typeof HardshipOptionsRequestSchema>;
+
+/**
+ * An existing mortgage with its escrow and mortgage insurance.
+ */
+export const MortgageSchema = z.object({
+  /** Remaining principal */
+  balance: z.number().positive(),
+  
+  /** Note rate */
+  apr: z.number().min(0).max(30),
+  
+  /** Months left on the loan */
+  remaining_term_months: z.number().int().positive().max(480),
+  
+  /** Current home value (used to size PMI on a refinance) */
+  home_value: z.number().positive(),
+  
+  /** Value at origination, which PMI termination is measured against (defaults to home_value) */
+  original_home_value: z.number().positive().optional(),
+  
+  /** Original loan amount, which the PMI premium is charged on (defaults to balance) */
+  original_loan_amount: z.number().positive().optional(),
+  
+  /** Annual PMI premium as a percentage of the original loan amount */
+  pmi_rate: z.number().min(0).max(5).default(0),
+  
+  /** Annual property tax paid through escrow */
+  property_tax_annual: z.number().nonnegative().default(0),
+  
+  /** Annual homeowners insurance paid through escrow */
+  insurance_annual: z.number().nonnegative().default(0),
+});
+
+export type Mortgage = z.infer<typeof MortgageSchema>;
+
+/**
+ * A refinance offer for a mortgage.
+ */
+export const RefinanceOfferSchema = z.object({
+  /** New note rate */
+  apr: z.number().min(0).max(30),
+  
+  /** New loan term */
+  term_months: z.number().int().positive().max(480),
+  
+  /** Closing costs (lender fees, appraisal, title, points) */
+  closing_costs: z.number().nonnegative(),
+  
+  /** Roll closing costs into the new loan instead of paying them in cash */
+  finance_closing_costs: z.boolean().default(false),
+  
+  /** Annual PMI premium on the new loan if it needs PMI (defaults to the current rate) */
+  pmi_rate: z.number().min(0).max(5).optional(),
+});
+
+export type RefinanceOffer = z.infer<typeof RefinanceOfferSchema>;
+
+/**
+ * Request to amortize a mortgage, with optional prepayment and refinance.
+ */
+export const MortgageAnalysisRequestSchema = z.object({
+  /** The current mortgage */
+  mortgage: MortgageSchema,
+  
+  /** Extra principal paid every month */
+  extra_principal: z.number().nonnegative().default(0),
+  
+  /** Refinance offer to compare against keeping the loan */
+  refinance: RefinanceOfferSchema.optional(),
+  
+  /** Include the full month-by-month amortization schedule */
+  include_schedule: z.boolean().default(false),
+});
+
+export type MortgageAnalysisRequest = z.infer<typeof MortgageAnalysisRequestSchema>;
+
+/**
+ * An employer retirement match on contributions.
+ */
+export const EmployerMatchSchema = z.object({
+  /** Share of each contributed dollar the employer adds, as a percentage (e.g., 50) */
+  match_percent: z.number().min(0).max(200),
+  
+  /** Monthly contribution eligible for the match */
+  max_matched_contribution: z.number().nonnegative(),
+});
+
+/**
+ * Request to compare putting a monthly surplus toward debt with investing it.
+ */
+export const PayDownVsInvestRequestSchema = z.object({
+  /** User's financial profile (investment_balance is the starting portfolio, tax the deduction rules) */
+  user: UserFinancialProfileSchema,
+  
+  /** Monthly amount on top of the minimums to put toward debt or invest */
+  monthly_surplus: z.number().positive(),
+  
+  /** Expected annual investment return as a percentage */
+  expected_return: z.number().min(-50).max(50),
+  
+  /** Annual standard deviation of investment returns as a percentage */
+  return_std_dev: z.number().min(0).max(100).optional(),
+  
+  /** Employer match on investment contributions */
+  employer_match: EmployerMatchSchema.optional(),
+  
+  /** Strategy used for the pay-down path */
+  strategy: DebtStrategySchema.exclude(['custom', 'minimum_only']).default('avalanche'),
+  
+  /** Months to project */
+  horizon_months: z.number().int().positive().max(480).default(120),
+});
+
+export type PayDownVsInvestRequest = z.infer<typeof PayDownVsInvestRequestSchema>;
+
+/**
+ * Random shocks applied in each Monte Carlo trial. Omitted values use
+ * the engine defaults.
+ */
+export const MonteCarloShocksSchema = z.object({
+  /** Chance of losing a job in a year (0-1) */
+  job_loss_probability: z.number().min(0).max(1).optional(),
+  
+  /** Average months out of work after a job loss */
+  job_loss_duration_months: z.number().positive().max(60).optional(),
+  
+  /** Share of income kept while out of work (0-1) */
+  income_replacement: z.number().min(0).max(1).optional(),
+  
+  /** Chance of a large unplanned expense in a year (0-1) */
+  expense_spike_probability: z.number().min(0).max(1).optional(),
+  
+  /** Average size of an unplanned expense */
+  expense_spike_mean: z.number().nonnegative().optional(),
+  
+  /** Annual standard deviation of the variable-rate index (percentage points) */
+  rate_volatility: z.number().min(0).max(10).optional(),
+});
+
+export type MonteCarloShocks = z.infer<typeof MonteCarloShocksSchema>;
+
+/**
+ * Request for a stochastic (Monte Carlo) payoff simulation.
+ */
+export const MonteCarloRequestSchema = z.object({
+  /** User's financial profile */
+  user: UserFinancialProfileSchema,
+  
+  /** Strategy to simulate */
+  strategy: DebtStrategySchema.exclude(['custom']).default('avalanche'),
+  
+  /** Additional monthly amount planned for debt payoff */
+  extra_monthly_payment: z.number().nonnegative().default(0),
+  
+  /** Number of trials */
+  trials: z.number().int().positive().max(MONTE_CARLO.MAX_TRIALS).optional(),
+  
+  /** Seed for reproducible runs (a random one is chosen and returned if omitted) */
+  seed: z.number().int().nonnegative().max(0xffffffff).optional(),
+  
+  /** Random shocks */
+  shocks: MonteCarloShocksSchema.default({}),
+  
+  /** Debts with variable APRs (defaults to credit cards and index-linked debts) */
+  variable_rate_debt_ids: z.array(z.string()).max(50).optional(),
+  
+  /** Include each trial's outcome and seed */
+  include_trials: z.boolean().default(false),
+  
+  /** Maximum months to simulate */
+  max_months: z.number().int().positive().max(480).default(360),
+});
+
+export type MonteCarloRequest = z.infer<typeof MonteCarloRequestSchema>;
+
+/**
+ * Request for payoff outcomes across a grid of extra payment amounts.
+ */
+export const SensitivityCurveRequestSchema = z.object({
+  /** User's financial profile */
+  user: UserFinancialProfileSchema,
+  
+  /** Strategies to trace */
+  strategies: z.array(DebtStrategySchema.exclude(['custom', 'minimum_only']))
+    .min(1)
+    .max(3)
+    .default(['avalanche', 'snowball', 'hybrid']),
+  
+  /** Scoring weights for the hybrid strategy */
+  hybrid_weights: HybridWeightsSchema.optional(),
+  
+  /** Smallest extra monthly payment on the grid */
+  min_extra: z.number().nonnegative().default(0),
+  
+  /** Largest extra monthly payment on the grid */
+  max_extra: z.number().positive().default(2000),
+  
+  /** Spacing of the grid */
+  step: z.number().positive().default(50),
+  
+  /** Maximum months to simulate */
+  max_months: z.number().int().positive().max(480).default(360),
+}).refine(
+  (data) => data.max_extra >= data.min_extra,
+  { message: 'max_extra must be at least min_extra', path: ['max_extra'] }
+);
+
+export type SensitivityCurveRequest = z.infer<typeof SensitivityCurveRequestSchema>;
+
+// =============================================================================
+// SIMULATION TYPES
+// =============================================================================
+
+/**
+ * Strategy-specific settings used when ranking debts.
+ */
+export interface StrategyConfig {
+  /** Debt ids in payoff order for the custom strategy */
+  customOrder?: string[];
+  
+  /** Hybrid scoring weights (defaults from HYBRID_WEIGHTS) */
+  hybridWeights?: Partial<HybridWeights>;
+  
+  /** Rank avalanche and hybrid by after-tax APR under this tax situation */
+  taxProfile?: TaxProfile;
+}
+
+/**
+ * Resolved hybrid scoring weights (normalized to sum to 1).
+ */
+export interface HybridWeights {
+  apr: number;
+  balance: number;
+  utilization: number;
+  collections: number;
+  fees: number;
+}
+
+/**
+ * Optional inputs that shape a simulation beyond the flat extra payment.
+ */
+export interface SimulationOptions extends StrategyConfig {
+  /** One-time lump sums applied in the month they land */
+  oneTimePayments?: OneTimePayment[];
+  
+  /** Extra payment steps that override the flat extra payment */
+  extraPaymentSchedule?: ExtraPaymentStep[];
+  
+  /** Minimum payments missed in a stress scenario */
+  missedPayments?: MissedPayment[];
+  
+  /** Month-by-month movement of variable APRs */
+  ratePath?: RatePath;
+  
+  /** Projected benchmark index paths for index-linked debts */
+  indexRatePaths?: RatePathSpec[];
+  
+  /** Parallel move applied to every index path (percentage points) */
+  indexRateShock?: number;
+  
+  /** Temporary APR and minimum payment changes (hardship plans, forbearance) */
+  paymentTermChanges?: PaymentTermChange[];
+}
+
+/**
+ * A temporary change to one debt's terms, such as a hardship plan or
+ * forbearance. The debt's own terms resume after endMonth.
+ */
+export interface PaymentTermChange {
+  debtId: string;
+  /** First and last simulation month the change applies (1-based, inclusive) */
+  startMonth: number;
+  endMonth: number;
+  /** APR while the change applies (the debt's own if absent) */
+  apr?: number;
+  /**
+   * Minimum payment while the change applies (the debt's own if absent).
+   * A minimum of 0 suspends payments: the debt takes no extra either.
+   */
+  minimumPayment?: number;
+}
+
+/**
+ * Path of a rate index that variable-rate debts follow.
+ */
+export interface RatePath {
+  /** Debts whose APR moves with the index */
+  debtIds: string[];
+  /** APR shift in percentage points for each month (index 0 = month 1) */
+  shifts: number[];
+}
+
+/**
+ * State of a single debt at a point in time.
+ */
+export interface DebtState {
+  id: string;
+  name: string;
+  type: string;
+  balance: number;
+  apr: number;
+  minimumPayment: number;
+  creditLimit?: number;
+  isPaidOff: boolean;
+  inCollections?: boolean;
+  annualFee?: number;
+  monthlyFee?: number;
+  /** Calendar month (1-12) the annual fee posts */
+  annualFeeMonth?: number;
+  /** One-time balance transfer fee and the simulation month it posts */
+  balanceTransferFee?: number;
+  balanceTransferMonth?: number;
+  lateFee?: number;
+  penaltyApr?: number;
+  /** APR to restore once the penalty APR is cured */
+  aprBeforePenalty?: number;
+  /** Consecutive on-time payments while the penalty APR applies */
+  onTimeMonthsSincePenalty?: number;
+  /** How interest accrues (defaults to monthly_simple when absent) */
+  interestConvention?: InterestConvention;
+  /** Months left at the promotional APR (switch happens when this reaches 0) */
+  promoMonthsRemaining?: number;
+  /** APR that applies once the promotional period ends */
+  postPromotionalApr?: number;
+  /** Benchmark index the APR floats over (fixed-rate if absent) */
+  rateIndex?: RateIndex;
+  /** Percentage points over the index */
+  rateMargin?: number;
+}
+
+/**
+ * A promotional APR ending during the simulation (the "promo cliff").
+ */
+export interface PromoRateExpiration {
+  debtId: string;
+  debtName: string;
+  month: number;
+  date: string;
+  previousApr: number;
+  newApr: number;
+  /** Balance still outstanding when the new APR takes effect */
+  balanceAtExpiry: number;
+}
+
+/**
+ * A single payment made to a debt in a month.
+ */
+export interface DebtPayment {
+  debtId: string;
+  debtName: string;
+  paymentAmount: number;
+  principalPaid: number;
+  interestPaid: number;
+  /** Fees charged this month (annual, monthly, balance transfer, late) */
+  feesCharged: number;
+  /** Portion of the payment that covered fees */
+  feesPaid: number;
+  /** Whether the minimum payment was missed this month */
+  missedPayment: boolean;
+  remainingBalance: number;
+}
+
+/**
+ * State after simulating one month.
+ */
+export interface MonthlySimulationState {
+  month: number;
+  date: string;
+  debts: DebtState[];
+  payments: DebtPayment[];
+  totalPayment: number;
+  totalInterestPaid: number;
+  totalPrincipalPaid: number;
+  totalFeesCharged: number;
+  totalRemainingDebt: number;
+  debtsPaidOffThisMonth: string[];
+  extraPaymentApplied: number;
+  oneTimePaymentsApplied: number;
+  promotionalRateExpirations: PromoRateExpiration[];
+}
+
+/**
+ * Complete result of a strategy simulation.
+ */
+export interface StrategySimulationResult {
+  strategy: DebtStrategy;
+  /** Day the simulation starts (YYYY-MM-DD); month 1 begins here */
+  startDate: string;
+  totalMonths: number;
+  totalInterestPaid: number;
+  totalFeesCharged: number;
+  /** Every payment made, including the portions covering interest and fees */
+  totalAmountPaid: number;
+  monthlyPaymentRequired: number;
+  schedule: MonthlySimulationState[];
+  payoffOrder: Array<{
+    debtId: string;
+    debtName: string;
+    monthsToPayoff: number;
+    interestPaid: number;
+    originalBalance: number;
+  }>;
+  promoCliffs: PromoRateExpiration[];
+}
+
+/**
+ * Savings attributable to a single one-time payment, measured against
+ * the same plan without it.
+ */
+export interface WindfallImpact {
+  label: string;
+  amount: number;
+  date: string;
+  month: number;
+  debtId: string | null;
+  interestSaved: number;
+  monthsSaved: number;
+}
+
+/**
+ * Payoff under a parallel move in every benchmark index, measured
+ * against the plan at the projected index paths.
+ */
+export interface RateSensitivity {
+  /** Index move in percentage points */
+  shock: number;
+  totalMonths: number;
+  paidOff: boolean;
+  totalInterestPaid: number;
+  monthsChange: number;
+  interestChange: number;
+}
+
+/**
+ * Comparison of multiple strategies.
+ */
+export interface StrategyComparison {
+  strategies: StrategySimulationResult[];
+  recommendedStrategy: DebtStrategy;
+  recommendationReason: string;
+  savingsVsMinimum: number;
+  savingsVsWorst: number;
+  timeSavedMonths: number;
+  /** Weights the hybrid strategy was scored with */
+  hybridWeights: HybridWeights;
+  /** Cost of following the custom order instead of avalanche (when a custom order is given) */
+  customOrderCost: {
+    extraInterest: number;
+    extraMonths: number;
+  } | null;
+}
+
+/**
+ * A debt whose balance grows when only the minimum is paid.
+ */
+export interface NegativeAmortization {
+  debtId: string;
+  debtName: string;
+  balance: number;
+  minimumPayment: number;
+  /** APR the check used (the post-promotional APR when one is set) */
+  apr: number;
+  /** Interest charged in a full (31-day) month at the current balance */
+  monthlyInterest: number;
+  /** Recurring fees averaged per month */
+  monthlyFees: number;
+  /** How much the balance grows each month on minimum payments */
+  monthlyGrowth: number;
+  /** Smallest monthly payment that stops the balance growing */
+  breakEvenPayment: number;
+  /** Whether the growth only starts once a promotional rate ends */
+  afterPromotionalRate: boolean;
+}
+
+/**
+ * Insights derived from debt analysis.
+ */
+export interface DebtInsights {
+  totalDebt: number;
+  averageAPR: number;
+  highestAPRDebt: {
+    id: string;
+    name: string;
+    apr: number;
+    balance: number;
+  } | null;
+  lowestBalanceDebt: {
+    id: string;
+    name: string;
+    balance: number;
+  } | null;
+  quickWins: string[];
+  potentialInterestSavings: number;
+  debtFreeDate: string;
+  monthlyMinimumRequired: number;
+  promoCliffs: PromoRateExpiration[];
+  negativeAmortization: NegativeAmortization[];
+}
+
+// =============================================================================
+// SOLVER TYPES
+// =============================================================================
+
+/**
+ * Goal for the inverse payoff solver.
+ */
+export interface PayoffTarget {
+  /** Months within which every debt must be paid off */
+  targetMonths?: number;
+  /** Cap on total interest paid */
+  maxTotalInterest?: number;
+}
+
+/**
+ * Smallest extra payment that meets a payoff target under one strategy.
+ */
+export interface RequiredPaymentResult {
+  strategy: DebtStrategy;
+  achievable: boolean;
+  /** Smallest extra monthly payment meeting the target (null if unreachable) */
+  requiredExtraPayment: number | null;
+  /** Minimums plus the required extra payment */
+  monthlyPaymentRequired: number | null;
+  totalMonths: number | null;
+  totalInterestPaid: number | null;
+  /** Why the target cannot be reached (only when not achievable) */
+  reason?: string;
+}
+
+// =============================================================================
+// STUDENT LOAN REPAYMENT TYPES
+// =============================================================================
+
+/**
+ * Student loan repayment plans that can be compared.
+ */
+export type StudentLoanPlan = 'standard' | 'paye' | 'ibr' | 'icr';
+
+/**
+ * Projected outcome of repaying the student loan portfolio under one plan.
+ */
+export interface StudentLoanPlanResult {
+  plan: StudentLoanPlan;
+  label: string;
+  /** Payment in the first year */
+  initialMonthlyPayment: number;
+  /** Highest payment after recertifications */
+  maxMonthlyPayment: number;
+  /** Months of payments until payoff or forgiveness */
+  totalMonths: number;
+  totalPaid: number;
+  totalInterestPaid: number;
+  /** Balance forgiven at the end of the plan (0 if paid off first) */
+  forgivenBalance: number;
+  /** Month-year of forgiveness (null if the loans are paid off first) */
+  forgivenessDate: string | null;
+}
+
+/**
+ * Standard repayment compared with the income-driven plans.
+ */
+export interface StudentLoanRepaymentComparison {
+  totalBalance: number;
+  /** Balance-weighted APR across the student loans */
+  weightedApr: number;
+  householdSize: number;
+  annualIncome: number;
+  /** Annual poverty guideline for the household */
+  povertyGuideline: number;
+  standard: StudentLoanPlanResult;
+  incomeDriven: StudentLoanPlanResult[];
+  /** Plan with the lowest total paid */
+  lowestTotalCost: StudentLoanPlan;
+  /** Plan with the lowest initial payment */
+  lowestMonthlyPayment: StudentLoanPlan;
+}
+
+// =============================================================================
+// BALANCE TRANSFER TYPES
+// =============================================================================
+
+/**
+ * A balance (or part of one) moved onto a transfer offer.
+ */
+export interface BalanceTransferMove {
+  offerId: string;
+  debtId: string;
+  debtName: string;
+  amount: number;
+  fee: number;
+}
+
+/**
+ * What an offer ends up holding and how fast it must be paid.
+ */
+export interface BalanceTransferOfferResult {
+  offerId: string;
+  offerName: string;
+  amountTransferred: number;
+  transferFee: number;
+  introMonths: number;
+  /** Monthly payment that clears the transferred balance and fee before the promo ends */
+  requiredMonthlyPayment: number;
+  /** Whether the simulated plan clears the balance before the promo ends */
+  clearedBeforePromoEnds: boolean;
+  /** Balance that rolls over to the go-to APR (0 if cleared) */
+  balanceAtPromoEnd: number;
+}
+
+/**
+ * Outcome of moving balances onto transfer offers versus staying put.
+ */
+export interface BalanceTransferEvaluation {
+  moves: BalanceTransferMove[];
+  offers: BalanceTransferOfferResult[];
+  /** Plan without any transfer */
+  baseline: StrategySimulationResult;
+  /** Plan with the recommended transfers */
+  withTransfer: StrategySimulationResult;
+  interestSaved: number;
+  transferFees: number;
+  /** Total paid without transfers minus total paid with them (fees included) */
+  netSavings: number;
+  monthsSaved: number;
+  /** Whether transferring is worth it (positive net savings) */
+  recommended: boolean;
+}
+
+// =============================================================================
+// CONSOLIDATION TYPES
+// =============================================================================
+
+/**
+ * A consolidation loan compared with keeping the current debts.
+ */
+export interface ConsolidationAnalysis {
+  /** Balances paid off by the loan */
+  consolidatedBalance: number;
+  /** Loan principal (consolidated balance grossed up for the origination fee) */
+  loanPrincipal: number;
+  originationFee: number;
+  loanPayment: number;
+  /** Strategy comparison with the current debts */
+  current: StrategyComparison;
+  /** Strategy comparison after consolidating */
+  consolidated: StrategyComparison;
+  /** Minimum monthly payment before and after, and the change */
+  currentMonthlyPayment: number;
+  consolidatedMonthlyPayment: number;
+  monthlyPaymentChange: number;
+  /** Consolidated interest minus current interest (recommended strategies) */
+  interestDifference: number;
+  /** Consolidated cost (interest, fees, origination) minus current cost */
+  totalCostDifference: number;
+  monthsDifference: number;
+  /** First month the consolidated plan has cost less in total (null if never) */
+  breakEvenMonth: number | null;
+  decision: DecisionOutcome;
+  reasonCodes: ReasonCode[];
+  reason: string;
+}
+
+// =============================================================================
+// MORTGAGE TYPES
+// =============================================================================
+
+/**
+ * One month of a mortgage amortization schedule.
+ */
+export interface MortgageMonth {
+  month: number;
+  date: string;
+  /** Principal and interest installment (plus any extra principal) */
+  payment: number;
+  principal: number;
+  interest: number;
+  extraPrincipal: number;
+  escrow: number;
+  pmi: number;
+  /** Everything paid this month: principal, interest, escrow and PMI */
+  totalPayment: number;
+  endingBalance: number;
+  /** Ending balance over the value PMI termination is measured against */
+  loanToValue: number;
+}
+
+/**
+ * A full amortization of a mortgage.
+ */
+export interface MortgageAmortization {
+  /** Scheduled principal and interest installment */
+  principalAndInterest: number;
+  monthlyEscrow: number;
+  /** PMI charged in the first month (0 if none) */
+  initialMonthlyPmi: number;
+  /** First month's total housing payment */
+  initialTotalPayment: number;
+  totalMonths: number;
+  payoffDate: string;
+  totalInterestPaid: number;
+  totalPmiPaid: number;
+  totalEscrowPaid: number;
+  /** Last month PMI is charged (null if the loan never carries PMI) */
+  pmiLastMonth: number | null;
+  /** First month without PMI after it drops off (null if never charged) */
+  pmiDropOffMonth: number | null;
+  pmiDropOffDate: string | null;
+  schedule: MortgageMonth[];
+}
+
+/**
+ * Effect of paying extra principal every month.
+ */
+export interface MortgagePrepaymentResult {
+  extraPrincipal: number;
+  amortization: MortgageAmortization;
+  interestSaved: number;
+  pmiSaved: number;
+  monthsSaved: number;
+  /** Months sooner PMI drops off (0 if it was never charged) */
+  pmiMonthsSooner: number;
+}
+
+/**
+ * A refinance compared with keeping the current mortgage.
+ */
+export interface RefinanceAnalysis {
+  /** New loan principal (closing costs included when financed) */
+  newPrincipal: number;
+  closingCosts: number;
+  /** Closing costs paid in cash at closing */
+  cashToClose: number;
+  amortization: MortgageAmortization;
+  /** New principal and interest minus current */
+  monthlyPaymentChange: number;
+  /** New total housing payment minus current, month one */
+  totalMonthlyPaymentChange: number;
+  /** Refinanced interest minus current interest over each loan's life */
+  interestDifference: number;
+  /** Refinanced cost (interest, PMI, closing costs) minus current cost */
+  totalCostDifference: number;
+  /** Refinanced loan length minus remaining months on the current loan */
+  monthsDifference: number;
+  /** First month the refinance has cost less in total (null if never) */
+  breakEvenMonth: number | null;
+  breakEvenDate: string | null;
+  /** Whether the refinance lowers lifetime cost and breaks even */
+  recommended: boolean;
+  reason: string;
+}
+
+/**
+ * Amortization of a mortgage with optional prepayment and refinance.
+ */
+export interface MortgageAnalysis {
+  current: MortgageAmortization;
+  prepayment: MortgagePrepaymentResult | null;
+  refinance: RefinanceAnalysis | null;
+}
+
+// =============================================================================
+// PAY DOWN VS INVEST TYPES
+// =============================================================================
+
+/**
+ * Where the monthly surplus goes.
+ */
+export type SurplusPath = 'pay_down' | 'invest';
+
+/**
+ * Net worth at the end of a projected month.
+ */
+export interface NetWorthPoint {
+  month: number;
+  date: string;
+  investments: number;
+  debt: number;
+  netWorth: number;
+}
+
+/**
+ * Projection of one way of using the surplus.
+ */
+export interface SurplusPathProjection {
+  path: SurplusPath;
+  trajectory: NetWorthPoint[];
+  /** Net worth at the horizon at the expected return */
+  finalNetWorth: number;
+  /** Net worth at the horizon at the 10th and 90th percentile returns */
+  finalNetWorthLow: number;
+  finalNetWorthHigh: number;
+  /** Own contributions to investments */
+  totalContributions: number;
+  totalEmployerMatch: number;
+  /** Tax saved on deductible interest (invested as it is saved) */
+  totalTaxSavings: number;
+  totalInterestPaid: number;
+  /** Month the last debt is paid off (null if not within the horizon) */
+  debtFreeMonth: number | null;
+}
+
+/**
+ * Paying down debt compared with investing the same surplus.
+ */
+export interface PayDownVsInvestComparison {
+  /** Minimums plus surplus, spent the same way every month on both paths */
+  monthlyBudget: number;
+  horizonMonths: number;
+  payDown: SurplusPathProjection;
+  invest: SurplusPathProjection;
+  /** Pay-down net worth minus invest net worth at the horizon */
+  netWorthDifference: number;
+  recommendation: SurplusPath;
+  /** APR above which paying down wins (null if investing wins at any APR) */
+  breakEvenApr: number | null;
+  reasonCodes: ReasonCode[];
+  reason: string;
+}
+
+// =============================================================================
+// MONTE CARLO TYPES
+// =============================================================================
+
+/**
+ * Outcome of one Monte Carlo trial.
+ */
+export interface MonteCarloTrial {
+  trial: number;
+  /** Seed that replays this trial on its own */
+  seed: number;
+  totalMonths: number;
+  /** Whether every debt was paid off within the simulated months */
+  paidOff: boolean;
+  totalInterestPaid: number;
+  totalFeesCharged: number;
+  /** Months in which a minimum payment was missed */
+  missedPaymentMonths: number;
+  monthsOutOfWork: number;
+  expenseSpikes: number;
+}
+
+/**
+ * Percentiles of a distribution across trials.
+ */
+export interface PercentileSummary {
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+/**
+ * Distribution of outcomes across Monte Carlo trials.
+ */
+export interface MonteCarloResult {
+  seed: number;
+  trials: number;
+  strategy: DebtStrategy;
+  /** The same plan with no shocks */
+  deterministic: StrategySimulationResult;
+  /** Share of trials that pay off every debt within the simulated months */
+  probabilityDebtFree: number;
+  /** Share of trials with at least one missed minimum payment */
+  probabilityMissedPayment: number;
+  /** Months to debt-free by percentile (null where that trial never pays off) */
+  payoffMonths: Record<keyof PercentileSummary, number | null>;
+  payoffDates: Record<keyof PercentileSummary, string | null>;
+  totalInterest: PercentileSummary & {
+    mean: number;
+    min: number;
+    max: number;
+  };
+  averageMissedPaymentMonths: number;
+  trialResults: MonteCarloTrial[];
+}
+
+// =============================================================================
+// TAX TYPES
+// =============================================================================
+
+/**
+ * A user's tax situation as it bears on deductible interest.
+ */
+export interface TaxProfile {
+  /** Marginal income tax rate as a percentage */
+  marginalRate: number;
+  itemizes: boolean;
+  /** Yearly student loan interest deduction left after the income phase-out */
+  studentLoanDeductionCap: number;
+}
+
+/**
+ * Interest paid over a plan before and after the tax it saves.
+ */
+export interface AfterTaxInterest {
+  nominalInterest: number;
+  taxSavings: number;
+  afterTaxInterest: number;
+}
+
+// =============================================================================
+// SENSITIVITY CURVE TYPES
+// =============================================================================
+
+/**
+ * Payoff outcome at one extra payment amount.
+ */
+export interface SensitivityPoint {
+  extraPayment: number;
+  totalMonths: number;
+  paidOff: boolean;
+  totalInterestPaid: number;
+  /** Interest saved compared with the previous grid point (null at the first point) */
+  marginalInterestSaved: number | null;
+  /** Months saved compared with the previous grid point (null at the first point) */
+  marginalMonthsSaved: number | null;
+  /** This step saves noticeably less than the first step did */
+  diminishingReturns: boolean;
+}
+
+/**
+ * Payoff outcomes of one strategy across the grid.
+ */
+export interface StrategySensitivityCurve {
+  strategy: DebtStrategy;
+  points: SensitivityPoint[];
+  /** First extra payment at which returns diminish (null if they never do) */
+  diminishingReturnsFrom: number | null;
+}
+
+/**
+ * Payoff outcomes across a grid of extra payment amounts.
+ */
+export interface SensitivityCurve {
+  grid: number[];
+  /** Minimum payments only, for reference */
+  minimumOnly: {
+    totalMonths: number;
+    paidOff: boolean;
+    totalInterestPaid: number;
+  };
+  curves: StrategySensitivityCurve[];
+}
+
+// =============================================================================
+// SCHEDULE PAGING TYPES
+// =============================================================================
+
+/**
+ * What one debt paid over a schedule period.
+ */
+export interface DebtPeriodPayment {
+  debtId: string;
+  debtName: string;
+  paymentAmount: number;
+  principalPaid: number;
+  interestPaid: number;
+  feesCharged: number;
+  missedPayments: number;
+  /** Balance at the end of the period */
+  remainingBalance: number;
+}
+
+/**
+ * Schedule months rolled up into one quarter or year.
+ */
+export interface SchedulePeriod {
+  /** 1-based period number */
+  period: number;
+  startMonth: number;
+  endMonth: number;
+  startDate: string;
+  endDate: string;
+  payments: DebtPeriodPayment[];
+  totalPayment: number;
+  totalPrincipalPaid: number;
+  totalInterestPaid: number;
+  totalFeesCharged: number;
+  oneTimePaymentsApplied: number;
+  /** Debt outstanding at the end of the period */
+  totalRemainingDebt: number;
+  debtsPaidOff: string[];
+}
+
+/**
+ * Totals of the payment columns over a whole schedule. Period totals
+ * add up to these.
+ */
+export interface ScheduleTotals {
+  totalPayment: number;
+  totalPrincipalPaid: number;
+  totalInterestPaid: number;
+  totalFeesCharged: number;
+  oneTimePaymentsApplied: number;
+}
+
+/**
+ * One page of a schedule. Monthly pages carry months; quarterly and
+ * yearly pages carry rolled-up periods.
+ */
+export interface SchedulePage {
+  granularity: ScheduleGranularity;
+  months: MonthlySimulationState[];
+  periods: SchedulePeriod[];
+  /** Periods in the whole schedule */
+  totalPeriods: number;
+  /** Period number of the first entry on the page */
+  firstPeriod: number;
+  /** Cursor for the next page (null on the last page) */
+  nextCursor: string | null;
+  totals: ScheduleTotals;
+}
+
+// =============================================================================
+// ROLLOVER LOAN TYPES
+// =============================================================================
+
+/**
+ * What a payday or title loan cost under a simulated plan.
+ */
+export interface RolloverLoanCost {
+  debtId: string;
+  debtName: string;
+  termDays: number;
+  /** Fee for one term at the starting balance */
+  feePerTerm: number;
+  /** The per-term fee as a simple annual rate */
+  trueApr: number;
+  /** The per-term fee compounded over a year of rollovers */
+  effectiveAnnualRate: number;
+  /** Terms renewed after the first before the loan was cleared */
+  rollovers: number;
+  /** Finance charges paid over the plan */
+  feesPaid: number;
+  paidOff: boolean;
+}
+
+/**
+ * A way off the rollover cycle: pay the principal down in installments,
+ * one per term, instead of renewing the whole balance.
+ */
+export interface RolloverExitPlan {
+  debtId: string;
+  debtName: string;
+  principal: number;
+  termDays: number;
+  feePerTerm: number;
+  trueApr: number;
+  effectiveAnnualRate: number;
+  /** Fees for a year of renewing the full balance */
+  annualRolloverCost: number;
+  installments: number;
+  /** Principal paid each term */
+  installmentPrincipal: number;
+  /** First term's payment: an installment plus the fee on the full balance */
+  firstPayment: number;
+  /** Fees paid while paying the principal down (none on an extended payment plan) */
+  exitFees: number;
+  /** Fees saved against a year of rollovers */
+  feesSaved: number;
+  /** Small enough to refinance with a credit union payday alternative loan */
+  palEligible: boolean;
+}
+
+// =============================================================================
+// INSTALLMENT PLAN TYPES
+// =============================================================================
+
+/**
+ * One installment still owed on a buy now, pay later plan.
+ */
+export interface InstallmentDue {
+  debtId: string;
+  debtName: string;
+  /** 1 for the next installment due, 2 for the one after, and so on */
+  installment: number;
+  /** Due date (YYYY-MM-DD) */
+  dueDate: string;
+  amount: number;
+  /** Fee charged if this installment is missed */
+  lateFee: number;
+}
+
+// =============================================================================
+// HARDSHIP OPTION TYPES
+// =============================================================================
+
+/**
+ * How an option is likely to show on a credit report.
+ * - none: reported as agreed and current
+ * - minor: noted on the account, or the card may be closed
+ * - moderate: late payments or a closed account with a balance
+ * - severe: settled for less than owed (stays on the report for seven years)
+ */
+export type CreditImpact = 'none' | 'minor' | 'moderate' | 'severe';
+
+/**
+ * One settlement, hardship or forbearance option simulated against the
+ * current plan.
+ */
+export interface HardshipOptionResult {
+  option: HardshipOption;
+  debtId: string;
+  debtName: string;
+  /** Everything paid on all debts, plus any tax on forgiven debt */
+  totalCost: number;
+  /** Option's total cost minus the current plan's (negative saves money) */
+  costDifference: number;
+  totalInterestPaid: number;
+  totalFeesCharged: number;
+  totalMonths: number;
+  /** Option's months to debt-free minus the current plan's */
+  monthsDifference: number;
+  /** Required monthly payment across all debts while the option applies */
+  monthlyPayment: number;
+  /** Change in required monthly payment against the current plan */
+  monthlyPaymentChange: number;
+  /** Lump sum due up front */
+  cashNeeded: number;
+  /** Balance written off by a settlement */
+  forgivenAmount: number;
+  /** Estimated income tax on the forgiven balance */
+  taxOnForgiven: number;
+  creditImpact: CreditImpact;
+  reasonCodes: ReasonCode[];
+  reason: string;
+}
+
+/**
+ * Settlement, hardship and forbearance options compared with the current plan.
+ */
+export interface HardshipOptionsAnalysis {
+  strategy: DebtStrategy;
+  currentPlan: {
+    totalCost: number;
+    totalInterestPaid: number;
+    totalFeesCharged: number;
+    totalMonths: number;
+    monthlyPayment: number;
+  };
+  options: HardshipOptionResult[];
+  /** Index of the cheapest option the borrower has the cash for (null if none beats the current plan) */
+  lowestCostOption: number | null;
+}
+
+// =============================================================================
+// CREDIT UTILIZATION TYPES
+// =============================================================================
+
+/**
+ * CREDIT_UTILIZATION level, by its lowercased name.
+ */
+export type UtilizationThreshold = 'excellent' | 'good' | 'elevated' | 'high' | 'critical';
+
+/**
+ * One credit card's utilization at the end of a month.
+ */
+export interface CardUtilization {
+  debtId: string;
+  debtName: string;
+  balance: number;
+  creditLimit: number;
+  utilization: number;
+}
+
+/**
+ * Utilization across all cards at the end of a month (month 0 is today).
+ */
+export interface UtilizationMonth {
+  month: number;
+  date: string;
+  totalBalance: number;
+  totalCreditLimit: number;
+  utilization: number;
+  cards: CardUtilization[];
+  /** Estimated points against month 0 (null without a score estimate) */
+  scoreChange: number | null;
+  /** Estimated score (null without a score estimate or a starting score) */
+  estimatedScore: number | null;
+  scoreBand: string | null;
+}
+
+/**
+ * A month in which utilization moved across a CREDIT_UTILIZATION level.
+ * Utilization at the level counts as below it.
+ */
+export interface UtilizationCrossing {
+  month: number;
+  date: string;
+  /** Card that crossed, or null for overall utilization */
+  debtId: string | null;
+  debtName: string | null;
+  threshold: UtilizationThreshold;
+  thresholdValue: number;
+  direction: 'below' | 'above';
+  utilization: number;
+}
+
+/**
+ * A month in which the estimated score moved to another band.
+ */
+export interface ScoreBandChange {
+  month: number;
+  date: string;
+  fromBand: string;
+  toBand: string;
+  estimatedScore: number;
+}
+
+/**
+ * Score movement priced by the utilization table.
+ */
+export interface CreditScoreEstimate {
+  /** The profile's credit score (null if not given) */
+  startingScore: number | null;
+  startingBand: string | null;
+  /** Estimated points gained (or lost) by the last month */
+  finalScoreChange: number;
+  finalScore: number | null;
+  finalBand: string | null;
+  bandChanges: ScoreBandChange[];
+  /** Table the estimate was priced with */
+  table: UtilizationScoreRow[];
+}
+
+/**
+ * Credit card utilization along a payoff schedule.
+ */
+export interface UtilizationTrajectory {
+  strategy: DebtStrategy;
+  startingUtilization: number;
+  finalUtilization: number;
+  months: UtilizationMonth[];
+  crossings: UtilizationCrossing[];
+  scoreEstimate: CreditScoreEstimate | null;
 }
@@ -0,0 +1,238 @@
+/**
+ * Obsidian Decision Engine - Settlement, Hardship and Forbearance Options
+ *
+ * Compares the relief a servicer can offer on one debt with the current
+ * plan. Every option runs through the simulator with the same strategy
+ * and extra payment as the current plan:
+ * - settlement: a lump sum of part of the balance closes the debt at
+ *   once; the rest is written off (and taxed as income)
+ * - hardship plan: a reduced APR and payment for some months, after
+ *   which the debt's own terms resume
+ * - forbearance: no payment due for some months, with interest either
+ *   accruing onto the balance or waived
+ *
+ * Total cost is everything paid on all debts, plus the lump sum and any
+ * tax on the forgiven balance.
+ *
+ * @module core/debt/hardshipOptions
+ */
+
+import type { DebtAccount } from '../../models/types.js';
+import type { ReasonCode } from '../../models/DecisionResponse.js';
+import type {
+  CreditImpact,
+  DebtStrategy,
+  HardshipOption,
+  HardshipOptionResult,
+  HardshipOptionsAnalysis,
+  StrategySimulationResult,
+} from './debtTypes.js';
+import { simulateStrategySummary, normalizeDebtAccounts } from './debtSimulator.js';
+import { format, roundCents } from '../../utils/money.js';
+import { DEBT_PAYOFF, HARDSHIP } from '../../config/thresholds.js';
+
+/**
+ * Borrower details that shape how an option is judged.
+ */
+export interface HardshipSettings {
+  /** Cash on hand for lump sums */
+  availableCash?: number;
+  /** Marginal income tax rate as a percentage */
+  marginalTaxRate?: number;
+}
+
+/**
+ * How an option usually shows on a credit report when its terms are kept.
+ * Card issuers tend to close an account that enters a hardship program,
+ * which costs the borrower that card's credit limit.
+ */
+function creditImpact(option: HardshipOption, debt: DebtAccount): CreditImpact {
+  switch (option.type) {
+    case 'settlement':
+      return 'severe';
+    case 'hardship_plan':
+      return debt.type === 'credit_card' ? 'moderate' : 'minor';
+    case 'forbearance':
+      return 'none';
+  }
+}
+
+// =============================================================================
+// SIMULATION
+// =============================================================================
+
+/**
+ * Simulate every debt under one option.
+ */
+function simulateOption(
+  debts: DebtAccount[],
+  target: DebtAccount,
+  option: HardshipOption,
+  strategy: DebtStrategy,
+  extraMonthlyPayment: number,
+  maxMonths: number
+): { result: StrategySimulationResult; minimumPayment: number; cashNeeded: number } {
+  switch (option.type) {
+    case 'settlement':
+      return {
+        result: simulateStrategySummary(
+          debts.filter((d) => d.id !== target.id), strategy, extraMonthlyPayment, maxMonths
+        ),
+        minimumPayment: 0,
+        cashNeeded: roundCents((target.balance * option.settlement_percent) / 100),
+      };
+    case 'hardship_plan':
+      return {
+        result: simulateStrategySummary(debts, strategy, extraMonthlyPayment, maxMonths, {
+          paymentTermChanges: [{
+            debtId: target.id!,
+            startMonth: 1,
+            endMonth: option.duration_months,
+            apr: option.reduced_apr,
+            minimumPayment: option.reduced_payment,
+          }],
+        }),
+        minimumPayment: option.reduced_payment,
+        cashNeeded: 0,
+      };
+    case 'forbearance':
+      return {
+        result: simulateStrategySummary(debts, strategy, extraMonthlyPayment, maxMonths, {
+          paymentTermChanges: [{
+            debtId: target.id!,
+            startMonth: 1,
+            endMonth: option.duration_months,
+            apr: option.interest_accrues ? undefined : 0,
+            minimumPayment: 0,
+          }],
+        }),
+        minimumPayment: 0,
+        cashNeeded: 0,
+      };
+  }
+}
+
+/**
+ * What the option is, in a sentence fragment.
+ */
+function describeOption(option: HardshipOption, name: string, cashNeeded: number): string {
+  switch (option.type) {
+    case 'settlement':
+      return `Settling ${name} for ${format(cashNeeded)} (${option.settlement_percent}% of the balance)`;
+    case 'hardship_plan':
+      return `A ${option.duration_months}-month hardship plan on ${name} at ${option.reduced_apr}% APR ` +
+        `and ${format(option.reduced_payment)} a month`;
+    case 'forbearance':
+      return `Pausing payments on ${name} for ${option.duration_months} months` +
+        (option.interest_accrues ? ' while interest accrues' : ' with interest waived');
+  }
+}
+
+// =============================================================================
+// ANALYSIS
+// =============================================================================
+
+/**
+ * Compare settlement, hardship and forbearance options with the current
+ * plan. Debts are matched to options by id (`debt_<index>` if unset).
+ */
+export function analyzeHardshipOptions(
+  debts: DebtAccount[],
+  options: HardshipOption[],
+  strategy: DebtStrategy = 'avalanche',
+  extraMonthlyPayment: number = 0,
+  settings: HardshipSettings = {},
+  maxMonths: number = DEBT_PAYOFF.MAX_SIMULATION_MONTHS
+): HardshipOptionsAnalysis {
+  const normalized = normalizeDebtAccounts(debts);
+  const current = simulateStrategySummary(normalized, strategy, extraMonthlyPayment, maxMonths);
+  const currentPayment = normalized.reduce((sum, d) => sum + d.minimum_payment!, 0);
+  const currentCost = current.totalAmountPaid;
+
+  const results = options.map((option): HardshipOptionResult => {
+    const target = normalized.find((d) => d.id === option.debt_id)!;
+    const name = target.name ?? target.id!;
+    const { result, minimumPayment, cashNeeded } = simulateOption(
+      normalized, target, option, strategy, extraMonthlyPayment, maxMonths
+    );
+
+    const forgivenAmount = option.type === 'settlement' ? roundCents(target.balance - cashNeeded) : 0;
+    const taxOnForgiven = roundCents((forgivenAmount * (settings.marginalTaxRate ?? 0)) / 100);
+    const totalCost = roundCents(result.totalAmountPaid + cashNeeded + taxOnForgiven);
+    const costDifference = roundCents(totalCost - currentCost);
+    const monthsDifference = result.totalMonths - current.totalMonths;
+    const monthlyPayment = roundCents(currentPayment - target.minimum_payment! + minimumPayment);
+    const monthlyPaymentChange = roundCents(monthlyPayment - currentPayment);
+    const impact = creditImpact(option, target);
+    const cashShortfall = settings.availableCash !== undefined && cashNeeded > settings.availableCash;
+
+    const reasonCodes: ReasonCode[] = [];
+    if (costDifference < 0) reasonCodes.push('RELIEF_SAVES_MONEY');
+    if (costDifference > 0) reasonCodes.push('RELIEF_COSTS_MORE');
+    if (monthlyPaymentChange < 0) reasonCodes.push('RELIEF_LOWERS_PAYMENT');
+    if (monthsDifference > 0) reasonCodes.push('RELIEF_EXTENDS_PAYOFF');
+    if (cashShortfall) reasonCodes.push('RELIEF_CASH_SHORTFALL');
+    if (forgivenAmount >= HARDSHIP.FORGIVEN_DEBT_REPORTING_THRESHOLD) reasonCodes.push('FORGIVEN_DEBT_TAXABLE');
+    if (impact === 'moderate' || impact === 'severe') reasonCodes.push('CREDIT_SCORE_DAMAGE');
+
+    let reason = describeOption(option, name, cashNeeded);
+    reason += costDifference < 0
+      ? ` saves ${format(-costDifference)} against the current plan`
+      : costDifference > 0
+        ? ` costs ${format(costDifference)} more than the current plan`
+        : ' costs the same as the current plan';
+    if (monthlyPaymentChange < 0) {
+      reason += ` and lowers the monthly payment by ${format(-monthlyPaymentChange)}`;
+    }
+    reason += '.';
+    if (forgivenAmount > 0) {
+      reason += ` The ${format(forgivenAmount)} written off counts as taxable income` +
+        (taxOnForgiven > 0 ? ` (about ${format(taxOnForgiven)} in tax).` : '.');
+    }
+    if (cashShortfall) {
+      reason += ` It needs ${format(cashNeeded)} up front, more than the ${format(settings.availableCash!)} on hand.`;
+    }
+
+    return {
+      option,
+      debtId: target.id!,
+      debtName: name,
+      totalCost,
+      costDifference,
+      totalInterestPaid: result.totalInterestPaid,
+      totalFeesCharged: result.totalFeesCharged,
+      totalMonths: result.totalMonths,
+      monthsDifference,
+      monthlyPayment,
+      monthlyPaymentChange,
+      cashNeeded,
+      forgivenAmount,
+      taxOnForgiven,
+      creditImpact: impact,
+      reasonCodes,
+      reason,
+    };
+  });
+
+  // Cheapest option that beats the current plan and can be paid for
+  let lowestCostOption: number | null = null;
+  results.forEach((r, i) => {
+    if (r.costDifference >= 0 || r.reasonCodes.includes('RELIEF_CASH_SHORTFALL')) return;
+    if (lowestCostOption === null || r.totalCost < results[lowestCostOption]!.totalCost) {
+      lowestCostOption = i;
+    }
+  });
+
+  return {
+    strategy,
+    currentPlan: {
+      totalCost: currentCost,
+      totalInterestPaid: current.totalInterestPaid,
+      totalFeesCharged: current.totalFeesCharged,
+      totalMonths: current.totalMonths,
+      monthlyPayment: roundCents(currentPayment),
+    },
+    options: results,
+    lowestCostOption,
+  };
+}
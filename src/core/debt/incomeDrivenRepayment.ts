@@ -0,0 +1,195 @@
+/**
+ * Obsidian Decision Engine - Income-Driven Repayment
+ * 
+ * Projects federal student loan repayment under the standard 10-year plan
+ * and the income-driven plans, where the payment is a share of
+ * discretionary income (income above a multiple of the poverty guideline).
+ * 
+ * Income is recertified yearly, so payments follow projected income growth.
+ * Whatever remains at the end of the forgiveness horizon is forgiven.
+ * 
+ * @module core/debt/incomeDrivenRepayment
+ */
+
+import type { DebtAccount } from '../../models/types.js';
+import type {
+  StudentLoanPlan,
+  StudentLoanPlanResult,
+  StudentLoanRepaymentComparison,
+} from './debtTypes.js';
+import { calculateAmortizedPayment } from './debtSimulator.js';
+import { aprToDailyRate } from '../../utils/money.js';
+import { now, addMonths, daysInMonth, toMonthYear } from '../../utils/dates.js';
+import { STUDENT_LOAN_REPAYMENT, INCOME_DRIVEN_PLANS } from '../../config/thresholds.js';
+
+type IncomeDrivenPlanTerms = typeof INCOME_DRIVEN_PLANS[keyof typeof INCOME_DRIVEN_PLANS];
+
+/**
+ * Income and household inputs for income-driven payments.
+ */
+export interface RepaymentHousehold {
+  monthlyIncome: number;
+  dependents?: number;
+}
+
+// =============================================================================
+// PAYMENT RULES
+// =============================================================================
+
+/**
+ * Annual poverty guideline for a household size.
+ */
+export function povertyGuideline(householdSize: number): number {
+  return STUDENT_LOAN_REPAYMENT.POVERTY_GUIDELINE_BASE +
+    STUDENT_LOAN_REPAYMENT.POVERTY_GUIDELINE_PER_PERSON * Math.max(0, householdSize - 1);
+}
+
+/**
+ * Monthly income-driven payment for a year's income and guideline.
+ */
+function incomeDrivenPayment(
+  terms: IncomeDrivenPlanTerms,
+  annualIncome: number,
+  guideline: number,
+  standardPayment: number
+): number {
+  const discretionaryIncome = Math.max(0, annualIncome - terms.POVERTY_MULTIPLE * guideline);
+  const payment = Math.round((terms.INCOME_SHARE * discretionaryIncome / 12) * 100) / 100;
+  
+  return terms.CAPPED_AT_STANDARD ? Math.min(payment, standardPayment) : payment;
+}
+
+// =============================================================================
+// PROJECTION
+// =============================================================================
+
+/**
+ * Run a repayment plan month by month.
+ * Interest accrues daily on principal; unpaid interest is tracked
+ * separately (not capitalized) and is paid before principal.
+ */
+function projectPlan(
+  plan: StudentLoanPlan,
+  label: string,
+  balance: number,
+  apr: number,
+  horizonMonths: number,
+  forgiveAtHorizon: boolean,
+  paymentForYear: (year: number) => number
+): StudentLoanPlanResult {
+  const startDate = now();
+  let principal = balance;
+  let accruedInterest = 0;
+  let totalPaid = 0;
+  let totalInterestPaid = 0;
+  let maxMonthlyPayment = 0;
+  let month = 0;
+  let payment = 0;
+  
+  while (month < horizonMonths && principal + accruedInterest > 0.01) {
+    // Recertify at the start of each plan year
+    if (month % STUDENT_LOAN_REPAYMENT.RECERTIFICATION_MONTHS === 0) {
+      payment = paymentForYear(month / STUDENT_LOAN_REPAYMENT.RECERTIFICATION_MONTHS);
+      maxMonthlyPayment = Math.max(maxMonthlyPayment, payment);
+    }
+    
+    month++;
+    
+    const days = daysInMonth(addMonths(startDate, month - 1));
+    accruedInterest += principal * aprToDailyRate(apr) * days;
+    
+    const paid = Math.min(payment, principal + accruedInterest);
+    const interestPaid = Math.min(accruedInterest, paid);
+    accruedInterest -= interestPaid;
+    principal -= paid - interestPaid;
+    
+    totalPaid += paid;
+    totalInterestPaid += interestPaid;
+  }
+  
+  const remaining = Math.max(0, principal + accruedInterest);
+  const forgiven = forgiveAtHorizon && remaining > 0.01;
+  
+  return {
+    plan,
+    label,
+    initialMonthlyPayment: paymentForYear(0),
+    maxMonthlyPayment,
+    totalMonths: month,
+    totalPaid: Math.round(totalPaid * 100) / 100,
+    totalInterestPaid: Math.round(totalInterestPaid * 100) / 100,
+    forgivenBalance: forgiven ? Math.round(remaining * 100) / 100 : 0,
+    forgivenessDate: forgiven ? toMonthYear(addMonths(startDate, month)) : null,
+  };
+}
+
+/**
+ * Compare the standard plan with each income-driven plan for the
+ * user's student loans. Returns null when there are no student loans.
+ */
+export function compareStudentLoanPlans(
+  debts: DebtAccount[],
+  household: RepaymentHousehold
+): StudentLoanRepaymentComparison | null {
+  const studentLoans = debts.filter((d) => d.type === 'student_loan' && d.balance > 0);
+  if (studentLoans.length === 0) return null;
+  
+  const totalBalance = studentLoans.reduce((sum, d) => sum + d.balance, 0);
+  const weightedApr = studentLoans.reduce((sum, d) => sum + d.apr * d.balance, 0) / totalBalance;
+  const householdSize = 1 + (household.dependents ?? 0);
+  const annualIncome = household.monthlyIncome * 12;
+  const guideline = povertyGuideline(householdSize);
+  
+  const standardPayment = calculateAmortizedPayment(
+    totalBalance,
+    weightedApr,
+    STUDENT_LOAN_REPAYMENT.STANDARD_TERM_MONTHS
+  );
+  
+  const standard = projectPlan(
+    'standard',
+    'Standard (10-year)',
+    totalBalance,
+    weightedApr,
+    // Room for rounding in the final month
+    STUDENT_LOAN_REPAYMENT.STANDARD_TERM_MONTHS + 1,
+    false,
+    () => standardPayment
+  );
+  
+  const incomeDriven = (Object.entries(INCOME_DRIVEN_PLANS) as Array<[string, IncomeDrivenPlanTerms]>)
+    .map(([key, terms]) =>
+      projectPlan(
+        key.toLowerCase() as StudentLoanPlan,
+        terms.LABEL,
+        totalBalance,
+        weightedApr,
+        terms.FORGIVENESS_MONTHS,
+        true,
+        (year) => incomeDrivenPayment(
+          terms,
+          annualIncome * Math.pow(1 + STUDENT_LOAN_REPAYMENT.INCOME_GROWTH_RATE, year),
+          guideline * Math.pow(1 + STUDENT_LOAN_REPAYMENT.POVERTY_GUIDELINE_GROWTH_RATE, year),
+          standardPayment
+        )
+      )
+    );
+  
+  const allPlans = [standard, ...incomeDriven];
+  const lowestTotalCost = allPlans.reduce((best, p) => (p.totalPaid < best.totalPaid ? p : best));
+  const lowestMonthlyPayment = allPlans.reduce((best, p) =>
+    p.initialMonthlyPayment < best.initialMonthlyPayment ? p : best
+  );
+  
+  return {
+    totalBalance: Math.round(totalBalance * 100) / 100,
+    weightedApr: Math.round(weightedApr * 100) / 100,
+    householdSize,
+    annualIncome,
+    povertyGuideline: guideline,
+    standard,
+    incomeDriven,
+    lowestTotalCost: lowestTotalCost.plan,
+    lowestMonthlyPayment: lowestMonthlyPayment.plan,
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Obsidian Decision Engine - Buy Now, Pay Later Installment Plans
+ *
+ * A buy now, pay later plan splits a purchase into a fixed number of
+ * equal installments on set dates (pay-in-4 is a quarter at checkout and
+ * a quarter every two weeks), usually interest-free, with a late fee for
+ * each installment missed.
+ *
+ * The simulator works in months, so a plan's minimum payment spreads the
+ * balance evenly over the months its remaining installments fall in: the
+ * plan clears in the month its last installment is due.
+ *
+ * @module core/debt/installmentPlans
+ */
+
+import type { DebtAccount, InstallmentPlan } from '../../models/types.js';
+import type { InstallmentDue } from './debtTypes.js';
+import {
+  now,
+  parse,
+  addDays,
+  monthsBetween,
+  startOfDay,
+  toDateString,
+} from '../../utils/dates.js';
+import { roundCents } from '../../utils/money.js';
+import { BNPL } from '../../config/thresholds.js';
+
+/**
+ * Whether a debt is paid on a fixed installment schedule.
+ */
+export function isInstallmentPlan(debt: DebtAccount): boolean {
+  return debt.installment_plan !== undefined;
+}
+
+/**
+ * Days between a plan's installments.
+ */
+export function installmentIntervalDays(plan: InstallmentPlan): number {
+  return plan.interval_days ?? BNPL.DEFAULT_INTERVAL_DAYS;
+}
+
+/**
+ * Fee charged for each missed installment.
+ */
+export function installmentLateFee(debt: DebtAccount): number {
+  return debt.late_fee ?? BNPL.DEFAULT_LATE_FEE;
+}
+
+/**
+ * Every installment still owed, in due-date order. The balance is what's
+ * owed, so the last installment takes whatever the others leave (and the
+ * schedule ends early if the balance runs out first).
+ */
+export function installmentSchedule(debt: DebtAccount, index: number = 0): InstallmentDue[] {
+  const plan = debt.installment_plan;
+  if (!plan) return [];
+
+  const debtId = debt.id ?? `debt_${index}`;
+  const firstDue = startOfDay(parse(plan.next_due_date));
+  const interval = installmentIntervalDays(plan);
+  const lateFee = installmentLateFee(debt);
+  const installments: InstallmentDue[] = [];
+  let owed = debt.balance;
+
+  for (let i = 0; i < plan.remaining_installments && owed > 0.005; i++) {
+    const last = i === plan.remaining_installments - 1;
+    const amount = roundCents(last ? owed : Math.min(plan.installment_amount, owed));
+    owed = roundCents(owed - amount);
+
+    installments.push({
+      debtId,
+      debtName: debt.name ?? debtId,
+      installment: i + 1,
+      dueDate: toDateString(addDays(firstDue, i * interval)),
+      amount,
+      lateFee,
+    });
+  }
+
+  return installments;
+}
+
+/**
+ * Monthly payment that clears a plan in the month its last installment
+ * is due (installments already past due count in the first month).
+ */
+export function installmentPlanMinimumPayment(
+  debt: DebtAccount,
+  startDate: ReturnType<typeof now> = now()
+): number {
+  const installments = installmentSchedule(debt);
+  const lastDue = installments[installments.length - 1];
+  if (!lastDue) return 0;
+
+  const months = Math.max(1, monthsBetween(startOfDay(startDate), parse(lastDue.dueDate)) + 1);
+  return Math.ceil((debt.balance / months) * 100) / 100;
+}
@@ -0,0 +1,255 @@
+/**
+ * Obsidian Decision Engine - Monte Carlo Payoff Simulation
+ *
+ * Runs the payoff plan many times under random shocks: job loss (income
+ * drops to a replacement share for a random spell), unplanned expense
+ * spikes, and a random walk in the index variable-rate debts follow.
+ *
+ * Each month of a trial, income minus fixed expenses and any spike pays
+ * the planned minimums plus extra. A shortfall cuts the extra payment
+ * first, then draws on cash and savings; once those are gone the month's
+ * minimums are missed (late fees and penalty APRs apply). The resulting
+ * plan runs through simulateStrategySummary, so every trial follows the
+ * same rules as the deterministic plan without keeping its schedule.
+ *
+ * Every trial has its own seed derived from the run seed, so a run (or a
+ * single trial) can be replayed exactly.
+ *
+ * @module core/debt/monteCarlo
+ */
+
+import type { UserFinancialProfile } from '../../models/types.js';
+import type {
+  DebtStrategy,
+  ExtraPaymentStep,
+  MissedPayment,
+  MonteCarloResult,
+  MonteCarloShocks,
+  MonteCarloTrial,
+  PercentileSummary,
+  StrategySimulationResult,
+} from './debtTypes.js';
+import { simulateStrategySummary, normalizeDebtAccounts } from './debtSimulator.js';
+import { createRandom, deriveSeed, randomSeed } from '../../utils/random.js';
+import { now, addMonths, toDateString } from '../../utils/dates.js';
+import { roundCents } from '../../utils/money.js';
+import { DEBT_PAYOFF, MONTE_CARLO } from '../../config/thresholds.js';
+
+/**
+ * Run settings for a Monte Carlo simulation.
+ */
+export interface MonteCarloOptions {
+  trials?: number;
+  /** Run seed (a random one is chosen if omitted) */
+  seed?: number;
+  shocks?: MonteCarloShocks;
+  /** Debts with variable APRs (defaults to credit cards and index-linked debts) */
+  variableRateDebtIds?: string[];
+  maxMonths?: number;
+}
+
+const PERCENTILES: Array<[keyof PercentileSummary, number]> = [
+  ['p10', 0.10],
+  ['p25', 0.25],
+  ['p50', 0.50],
+  ['p75', 0.75],
+  ['p90', 0.90],
+];
+
+/**
+ * Monthly chance of an event with the given yearly chance.
+ */
+function monthlyProbability(annualProbability: number): number {
+  return 1 - Math.pow(1 - annualProbability, 1 / 12);
+}
+
+/**
+ * Nearest-rank percentile of sorted values.
+ */
+function percentile<T>(sorted: T[], fraction: number): T {
+  return sorted[Math.max(0, Math.ceil(fraction * sorted.length) - 1)]!;
+}
+
+// =============================================================================
+// TRIALS
+// =============================================================================
+
+/**
+ * Run one trial from its own seed.
+ */
+export function runMonteCarloTrial(
+  profile: UserFinancialProfile,
+  strategy: DebtStrategy,
+  extraMonthlyPayment: number,
+  seed: number,
+  options: Omit<MonteCarloOptions, 'trials' | 'seed'> = {},
+  trial: number = 0
+): MonteCarloTrial {
+  const debts = normalizeDebtAccounts(profile.debts);
+  const maxMonths = options.maxMonths ?? DEBT_PAYOFF.MAX_SIMULATION_MONTHS;
+  const shocks = options.shocks ?? {};
+  const rng = createRandom(seed);
+
+  const jobLossChance = monthlyProbability(shocks.job_loss_probability ?? MONTE_CARLO.JOB_LOSS_PROBABILITY);
+  const jobLossDuration = shocks.job_loss_duration_months ?? MONTE_CARLO.JOB_LOSS_DURATION_MONTHS;
+  const incomeReplacement = shocks.income_replacement ?? MONTE_CARLO.INCOME_REPLACEMENT;
+  const spikeChance = monthlyProbability(shocks.expense_spike_probability ?? MONTE_CARLO.EXPENSE_SPIKE_PROBABILITY);
+  const spikeMean = shocks.expense_spike_mean ?? MONTE_CARLO.EXPENSE_SPIKE_MEAN;
+  const rateStep = (shocks.rate_volatility ?? MONTE_CARLO.RATE_VOLATILITY) / Math.sqrt(12);
+
+  const totalMinimums = debts.reduce((sum, d) => sum + d.minimum_payment!, 0);
+  const plannedPayment = totalMinimums + extraMonthlyPayment;
+  let buffer = profile.cash_balance + (profile.savings_balance ?? 0) + (profile.emergency_fund ?? 0);
+
+  const extraPaymentSchedule: ExtraPaymentStep[] = [];
+  const missedPayments: MissedPayment[] = [];
+  const shifts: number[] = [];
+  let rateShift = 0;
+  let monthsLeftOutOfWork = 0;
+  let monthsOutOfWork = 0;
+  let expenseSpikes = 0;
+
+  for (let month = 1; month <= maxMonths; month++) {
+    if (monthsLeftOutOfWork === 0 && rng.chance(jobLossChance)) {
+      monthsLeftOutOfWork = Math.max(1, Math.round(rng.exponential(jobLossDuration)));
+    }
+    const outOfWork = monthsLeftOutOfWork > 0;
+    if (outOfWork) {
+      monthsLeftOutOfWork--;
+      monthsOutOfWork++;
+    }
+
+    const spike = rng.chance(spikeChance) ? rng.exponential(spikeMean) : 0;
+    if (spike > 0) expenseSpikes++;
+
+    rateShift += rng.normal() * rateStep;
+    shifts.push(roundCents(rateShift));
+
+    const income = profile.monthly_income * (outOfWork ? incomeReplacement : 1);
+    const leftover = income - profile.monthly_fixed_expenses - spike - plannedPayment;
+
+    if (leftover >= 0) {
+      buffer += leftover;
+      continue;
+    }
+
+    // Cut the extra payment first, then draw on savings for the minimums
+    let shortfall = -leftover;
+    const cut = Math.min(extraMonthlyPayment, shortfall);
+    shortfall -= cut;
+    let extraThisMonth = extraMonthlyPayment - cut;
+
+    if (shortfall <= buffer) {
+      buffer -= shortfall;
+    } else {
+      missedPayments.push({ month });
+      extraThisMonth = 0;
+      buffer = Math.max(0, buffer - shortfall + totalMinimums);
+    }
+
+    if (extraThisMonth !== extraMonthlyPayment) {
+      extraPaymentSchedule.push({ amount: roundCents(extraThisMonth), start_month: month, end_month: month });
+    }
+  }
+
+  const variableRateDebtIds = options.variableRateDebtIds ??
+    debts.filter((d) => d.type === 'credit_card' || d.rate_index !== undefined).map((d) => d.id!);
+
+  const result = simulateStrategySummary(debts, strategy, extraMonthlyPayment, maxMonths, {
+    extraPaymentSchedule,
+    missedPayments,
+    ratePath: { debtIds: variableRateDebtIds, shifts },
+  });
+
+  return {
+    trial,
+    seed,
+    totalMonths: result.totalMonths,
+    paidOff: result.payoffOrder.every((p) => p.monthsToPayoff <= maxMonths),
+    totalInterestPaid: result.totalInterestPaid,
+    totalFeesCharged: roundCents(result.totalFeesCharged),
+    // Every month the plan runs has a debt left to miss
+    missedPaymentMonths: missedPayments.filter((m) => m.month! <= result.totalMonths).length,
+    monthsOutOfWork,
+    expenseSpikes,
+  };
+}
+
+// =============================================================================
+// SIMULATION
+// =============================================================================
+
+/**
+ * Run the payoff plan over many seeded trials and summarize the spread
+ * of outcomes.
+ */
+export function runMonteCarlo(
+  profile: UserFinancialProfile,
+  strategy: DebtStrategy,
+  extraMonthlyPayment: number = 0,
+  options: MonteCarloOptions = {}
+): MonteCarloResult {
+  const seed = options.seed ?? randomSeed();
+  const trials = options.trials ?? MONTE_CARLO.DEFAULT_TRIALS;
+  const maxMonths = options.maxMonths ?? DEBT_PAYOFF.MAX_SIMULATION_MONTHS;
+
+  const trialResults: MonteCarloTrial[] = [];
+  for (let trial = 0; trial < trials; trial++) {
+    trialResults.push(runMonteCarloTrial(
+      profile,
+      strategy,
+      extraMonthlyPayment,
+      deriveSeed(seed, trial),
+      options,
+      trial
+    ));
+  }
+
+  const deterministic: StrategySimulationResult = simulateStrategySummary(
+    normalizeDebtAccounts(profile.debts),
+    strategy,
+    extraMonthlyPayment,
+    maxMonths
+  );
+
+  // Trials that never pay off sort last
+  const payoffMonthsSorted = trialResults
+    .map((t) => (t.paidOff ? t.totalMonths : Infinity))
+    .sort((a, b) => a - b);
+  const interestSorted = trialResults.map((t) => t.totalInterestPaid).sort((a, b) => a - b);
+
+  const startDate = now();
+  const payoffMonths = {} as MonteCarloResult['payoffMonths'];
+  const payoffDates = {} as MonteCarloResult['payoffDates'];
+  const interestPercentiles = {} as PercentileSummary;
+
+  for (const [key, fraction] of PERCENTILES) {
+    const months = percentile(payoffMonthsSorted, fraction);
+    payoffMonths[key] = Number.isFinite(months) ? months : null;
+    payoffDates[key] = Number.isFinite(months) ? toDateString(addMonths(startDate, months)) : null;
+    interestPercentiles[key] = percentile(interestSorted, fraction);
+  }
+
+  const count = (predicate: (t: MonteCarloTrial) => boolean) =>
+    trialResults.filter(predicate).length;
+  const totalMissedMonths = trialResults.reduce((sum, t) => sum + t.missedPaymentMonths, 0);
+
+  return {
+    seed,
+    trials,
+    strategy,
+    deterministic,
+    probabilityDebtFree: count((t) => t.paidOff) / trials,
+    probabilityMissedPayment: count((t) => t.missedPaymentMonths > 0) / trials,
+    payoffMonths,
+    payoffDates,
+    totalInterest: {
+      ...interestPercentiles,
+      mean: roundCents(interestSorted.reduce((sum, i) => sum + i, 0) / trials),
+      min: interestSorted[0]!,
+      max: interestSorted[interestSorted.length - 1]!,
+    },
+    averageMissedPaymentMonths: Math.round((totalMissedMonths / trials) * 100) / 100,
+    trialResults,
+  };
+}
@@ -0,0 +1,270 @@
+/**
+ * Obsidian Decision Engine - Mortgage Analysis
+ *
+ * Full amortization of a mortgage with escrow and PMI, the effect of
+ * extra principal prepayment, and refinance break-even.
+ *
+ * PMI is charged on the original loan amount until the balance reaches
+ * 78% of the home's original value. Escrow (property tax and insurance)
+ * is the same with or without a refinance, so it is reported but never
+ * counted as a cost difference.
+ *
+ * @module core/debt/mortgage
+ */
+
+import type {
+  Mortgage,
+  RefinanceOffer,
+  MortgageMonth,
+  MortgageAmortization,
+  MortgagePrepaymentResult,
+  RefinanceAnalysis,
+  MortgageAnalysis,
+} from './debtTypes.js';
+import { calculateAmortizedPayment } from './debtSimulator.js';
+import { cumulativeCost, findBreakEvenMonth } from './breakEven.js';
+import { format, roundCents } from '../../utils/money.js';
+import { now, addMonths, toMonthYear, toDateString } from '../../utils/dates.js';
+import { MORTGAGE } from '../../config/thresholds.js';
+
+/**
+ * Inputs for a single amortization run.
+ */
+interface AmortizationTerms {
+  principal: number;
+  apr: number;
+  termMonths: number;
+  extraPrincipal: number;
+  monthlyEscrow: number;
+  /** Monthly PMI premium (0 if the loan carries none) */
+  monthlyPmi: number;
+  /** Value PMI termination is measured against */
+  pmiValue: number;
+}
+
+// =============================================================================
+// AMORTIZATION
+// =============================================================================
+
+/**
+ * Amortize a loan month by month. The final scheduled month clears
+ * whatever rounding leaves behind.
+ */
+function amortize(terms: AmortizationTerms): MortgageAmortization {
+  const startDate = now();
+  const monthlyRate = terms.apr / 100 / 12;
+  const principalAndInterest = calculateAmortizedPayment(terms.principal, terms.apr, terms.termMonths);
+  const pmiBalanceLimit = terms.pmiValue * MORTGAGE.PMI_TERMINATION_LTV;
+
+  const schedule: MortgageMonth[] = [];
+  let balance = terms.principal;
+  let totalInterestPaid = 0;
+  let totalPmiPaid = 0;
+  let totalEscrowPaid = 0;
+  let pmiLastMonth: number | null = null;
+  let month = 0;
+
+  while (balance > 0.005 && month < terms.termMonths) {
+    month++;
+
+    const pmi = terms.monthlyPmi > 0 && balance > pmiBalanceLimit ? terms.monthlyPmi : 0;
+    const interest = roundCents(balance * monthlyRate);
+    const scheduledPrincipal = month === terms.termMonths
+      ? balance
+      : Math.min(balance, Math.max(0, principalAndInterest - interest));
+    const extraPrincipal = Math.min(terms.extraPrincipal, balance - scheduledPrincipal);
+    const principal = roundCents(scheduledPrincipal + extraPrincipal);
+
+    balance = roundCents(balance - principal);
+    totalInterestPaid += interest;
+    totalPmiPaid += pmi;
+    totalEscrowPaid += terms.monthlyEscrow;
+    if (pmi > 0) pmiLastMonth = month;
+
+    const payment = roundCents(principal + interest);
+    schedule.push({
+      month,
+      date: toMonthYear(addMonths(startDate, month - 1)),
+      payment,
+      principal,
+      interest,
+      extraPrincipal: roundCents(extraPrincipal),
+      escrow: terms.monthlyEscrow,
+      pmi,
+      totalPayment: roundCents(payment + terms.monthlyEscrow + pmi),
+      endingBalance: balance,
+      loanToValue: Math.round((balance / terms.pmiValue) * 10000) / 10000,
+    });
+  }
+
+  // PMI drops off the month after the last charge, if the loan outlives it
+  const pmiDropOffMonth = pmiLastMonth !== null && pmiLastMonth < month ? pmiLastMonth + 1 : null;
+
+  return {
+    principalAndInterest,
+    monthlyEscrow: terms.monthlyEscrow,
+    initialMonthlyPmi: schedule[0]?.pmi ?? 0,
+    initialTotalPayment: roundCents(principalAndInterest + terms.monthlyEscrow + (schedule[0]?.pmi ?? 0)),
+    totalMonths: month,
+    payoffDate: toDateString(addMonths(startDate, month)),
+    totalInterestPaid: roundCents(totalInterestPaid),
+    totalPmiPaid: roundCents(totalPmiPaid),
+    totalEscrowPaid: roundCents(totalEscrowPaid),
+    pmiLastMonth,
+    pmiDropOffMonth,
+    pmiDropOffDate: pmiDropOffMonth !== null
+      ? toMonthYear(addMonths(startDate, pmiDropOffMonth - 1))
+      : null,
+    schedule,
+  };
+}
+
+/**
+ * Amortization terms for the current mortgage.
+ */
+function currentTerms(mortgage: Mortgage, extraPrincipal: number): AmortizationTerms {
+  const originalLoanAmount = mortgage.original_loan_amount ?? mortgage.balance;
+
+  return {
+    principal: mortgage.balance,
+    apr: mortgage.apr,
+    termMonths: mortgage.remaining_term_months,
+    extraPrincipal,
+    monthlyEscrow: roundCents((mortgage.property_tax_annual + mortgage.insurance_annual) / 12),
+    monthlyPmi: roundCents((originalLoanAmount * mortgage.pmi_rate) / 100 / 12),
+    pmiValue: mortgage.original_home_value ?? mortgage.home_value,
+  };
+}
+
+/**
+ * Amortize the current mortgage, optionally with extra principal every month.
+ */
+export function amortizeMortgage(
+  mortgage: Mortgage,
+  extraPrincipal: number = 0
+): MortgageAmortization {
+  return amortize(currentTerms(mortgage, extraPrincipal));
+}
+
+// =============================================================================
+// PREPAYMENT
+// =============================================================================
+
+/**
+ * Compare paying extra principal every month with the scheduled payments.
+ */
+export function analyzePrepayment(
+  mortgage: Mortgage,
+  extraPrincipal: number,
+  current: MortgageAmortization = amortizeMortgage(mortgage)
+): MortgagePrepaymentResult {
+  const amortization = amortizeMortgage(mortgage, extraPrincipal);
+
+  const pmiMonthsSooner = current.pmiLastMonth !== null && amortization.pmiLastMonth !== null
+    ? current.pmiLastMonth - amortization.pmiLastMonth
+    : 0;
+
+  return {
+    extraPrincipal,
+    amortization,
+    interestSaved: roundCents(current.totalInterestPaid - amortization.totalInterestPaid),
+    pmiSaved: roundCents(current.totalPmiPaid - amortization.totalPmiPaid),
+    monthsSaved: current.totalMonths - amortization.totalMonths,
+    pmiMonthsSooner,
+  };
+}
+
+// =============================================================================
+// REFINANCE
+// =============================================================================
+
+/**
+ * Compare refinancing with keeping the current mortgage. Both loans are
+ * amortized on their scheduled payments. Closing costs count as a cost
+ * whether paid in cash or financed; financed costs also accrue interest.
+ * The new loan carries PMI if it exceeds 80% of the current home value.
+ */
+export function analyzeRefinance(
+  mortgage: Mortgage,
+  offer: RefinanceOffer,
+  current: MortgageAmortization = amortizeMortgage(mortgage)
+): RefinanceAnalysis {
+  const newPrincipal = roundCents(
+    mortgage.balance + (offer.finance_closing_costs ? offer.closing_costs : 0)
+  );
+  const needsPmi = newPrincipal > mortgage.home_value * MORTGAGE.PMI_REQUIRED_LTV;
+  const pmiRate = offer.pmi_rate ?? mortgage.pmi_rate;
+
+  const amortization = amortize({
+    principal: newPrincipal,
+    apr: offer.apr,
+    termMonths: offer.term_months,
+    extraPrincipal: 0,
+    monthlyEscrow: current.monthlyEscrow,
+    monthlyPmi: needsPmi ? roundCents((newPrincipal * pmiRate) / 100 / 12) : 0,
+    pmiValue: mortgage.home_value,
+  });
+
+  const startDate = now();
+  const monthlyPaymentChange = roundCents(amortization.principalAndInterest - current.principalAndInterest);
+  const currentCost = current.totalInterestPaid + current.totalPmiPaid;
+  const refinancedCost = offer.closing_costs + amortization.totalInterestPaid + amortization.totalPmiPaid;
+  const totalCostDifference = roundCents(refinancedCost - currentCost);
+
+  const breakEvenMonth = findBreakEvenMonth(
+    cumulativeCost(current.schedule.map((m) => m.interest + m.pmi), 0),
+    cumulativeCost(amortization.schedule.map((m) => m.interest + m.pmi), offer.closing_costs)
+  );
+  const recommended = totalCostDifference < 0 && breakEvenMonth !== null;
+
+  let reason: string;
+  if (recommended) {
+    reason = `Refinancing saves ${format(-totalCostDifference)} over the life of the loan ` +
+      `and recovers the closing costs by month ${breakEvenMonth}.`;
+  } else if (monthlyPaymentChange < 0) {
+    reason = `Refinancing lowers your principal and interest payment by ${format(-monthlyPaymentChange)} ` +
+      `but costs ${format(totalCostDifference)} more over the life of the loan.`;
+  } else {
+    reason = `Refinancing costs ${format(totalCostDifference)} more over the life of the loan ` +
+      `without lowering your payment.`;
+  }
+
+  return {
+    newPrincipal,
+    closingCosts: offer.closing_costs,
+    cashToClose: offer.finance_closing_costs ? 0 : offer.closing_costs,
+    amortization,
+    monthlyPaymentChange,
+    totalMonthlyPaymentChange: roundCents(amortization.initialTotalPayment - current.initialTotalPayment),
+    interestDifference: roundCents(amortization.totalInterestPaid - current.totalInterestPaid),
+    totalCostDifference,
+    monthsDifference: amortization.totalMonths - current.totalMonths,
+    breakEvenMonth,
+    breakEvenDate: breakEvenMonth !== null
+      ? toMonthYear(addMonths(startDate, breakEvenMonth - 1))
+      : null,
+    recommended,
+    reason,
+  };
+}
+
+// =============================================================================
+// ANALYSIS
+// =============================================================================
+
+/**
+ * Amortize a mortgage and, when requested, analyze prepayment and a refinance.
+ */
+export function analyzeMortgage(
+  mortgage: Mortgage,
+  extraPrincipal: number = 0,
+  refinance?: RefinanceOffer
+): MortgageAnalysis {
+  const current = amortizeMortgage(mortgage);
+
+  return {
+    current,
+    prepayment: extraPrincipal > 0 ? analyzePrepayment(mortgage, extraPrincipal, current) : null,
+    refinance: refinance ? analyzeRefinance(mortgage, refinance, current) : null,
+  };
+}
@@ -0,0 +1,283 @@
+/**
+ * Obsidian Decision Engine - Pay Down vs Invest
+ *
+ * Compares putting a monthly surplus toward debt with investing it.
+ * Both paths spend the same budget every month (minimums plus surplus):
+ * whatever the debts don't take is invested. The pay-down path starts
+ * investing once it is debt-free; the invest path pays the minimum_only
+ * baseline (freed minimums roll into the remaining debts) and invests
+ * the full surplus from the first month.
+ *
+ * Debt payments come from simulateStrategy, so the pay-down path matches
+ * the payoff plan. Employer match is added to contributions, and tax saved
+ * on deductible interest is invested as it is saved, under the same
+ * deduction rules as the payoff plan's after-tax interest.
+ *
+ * @module core/debt/payDownVsInvest
+ */
+
+import type { DebtAccount } from '../../models/types.js';
+import type { ReasonCode } from '../../models/DecisionResponse.js';
+import type {
+  DebtStrategy,
+  NetWorthPoint,
+  PayDownVsInvestComparison,
+  StrategySimulationResult,
+  SurplusPath,
+  SurplusPathProjection,
+  TaxProfile,
+} from './debtTypes.js';
+import { simulateStrategy, normalizeDebtAccounts } from './debtSimulator.js';
+import { monthlyTaxSavings } from './taxAdjustment.js';
+import { format, roundCents } from '../../utils/money.js';
+import { now, addMonths, toMonthYear } from '../../utils/dates.js';
+import { PAY_DOWN_VS_INVEST } from '../../config/thresholds.js';
+
+/**
+ * Investment and tax assumptions for the comparison.
+ */
+export interface InvestmentAssumptions {
+  /** Expected annual return as a percentage */
+  expectedReturn: number;
+  /** Annual standard deviation of returns as a percentage */
+  returnStdDev?: number;
+  employerMatch?: {
+    matchPercent: number;
+    maxMatchedContribution: number;
+  };
+  /** The user's tax profile (no interest is deductible without one) */
+  taxProfile?: TaxProfile;
+}
+
+// =============================================================================
+// RETURNS
+// =============================================================================
+
+/**
+ * Annualized returns at the 10th and 90th percentile over the horizon,
+ * treating yearly returns as lognormal.
+ */
+export function percentileReturns(
+  expectedReturn: number,
+  stdDev: number,
+  horizonMonths: number
+): { low: number; high: number } {
+  const mean = expectedReturn / 100;
+  const logVariance = Math.log(1 + Math.pow(stdDev / 100, 2) / Math.pow(1 + mean, 2));
+  const logMean = Math.log(1 + mean) - logVariance / 2;
+  const spread = PAY_DOWN_VS_INVEST.PERCENTILE_Z * Math.sqrt(logVariance / (horizonMonths / 12));
+
+  return {
+    low: (Math.exp(logMean - spread) - 1) * 100,
+    high: (Math.exp(logMean + spread) - 1) * 100,
+  };
+}
+
+// =============================================================================
+// PROJECTION
+// =============================================================================
+
+/**
+ * Project net worth month by month for one debt payment plan, investing
+ * whatever of the budget the debts don't take.
+ */
+function projectNetWorth(
+  path: SurplusPath,
+  result: StrategySimulationResult,
+  debts: DebtAccount[],
+  budget: number,
+  startingInvestments: number,
+  annualReturn: number,
+  assumptions: InvestmentAssumptions,
+  horizonMonths: number
+): Omit<SurplusPathProjection, 'finalNetWorthLow' | 'finalNetWorthHigh'> {
+  const monthlyReturn = Math.pow(1 + annualReturn / 100, 1 / 12) - 1;
+  const taxSavingsByMonth = assumptions.taxProfile ? monthlyTaxSavings(result, assumptions.taxProfile) : [];
+  const match = assumptions.employerMatch;
+
+  const startDate = now();
+  const trajectory: NetWorthPoint[] = [];
+  let investments = startingInvestments;
+  let debt = debts.reduce((sum, d) => sum + d.balance, 0);
+  let totalContributions = 0;
+  let totalEmployerMatch = 0;
+  let totalTaxSavings = 0;
+  let debtFreeMonth: number | null = debt <= 0 ? 0 : null;
+
+  for (let month = 1; month <= horizonMonths; month++) {
+    const simulated = result.schedule[month - 1];
+    if (simulated) {
+      debt = simulated.totalRemainingDebt;
+      if (debtFreeMonth === null && debt <= 0) debtFreeMonth = month;
+    }
+
+    const contribution = Math.max(0, budget - (simulated?.totalPayment ?? 0));
+    const employerMatch = match
+      ? (Math.min(contribution, match.maxMatchedContribution) * match.matchPercent) / 100
+      : 0;
+    const taxSavings = taxSavingsByMonth[month - 1] ?? 0;
+
+    investments = investments * (1 + monthlyReturn) + contribution + employerMatch + taxSavings;
+    totalContributions += contribution;
+    totalEmployerMatch += employerMatch;
+    totalTaxSavings += taxSavings;
+
+    trajectory.push({
+      month,
+      date: simulated?.date ?? toMonthYear(addMonths(startDate, month - 1)),
+      investments: roundCents(investments),
+      debt: roundCents(debt),
+      netWorth: roundCents(investments - debt),
+    });
+  }
+
+  return {
+    path,
+    trajectory,
+    finalNetWorth: trajectory[trajectory.length - 1]?.netWorth ?? roundCents(startingInvestments - debt),
+    totalContributions: roundCents(totalContributions),
+    totalEmployerMatch: roundCents(totalEmployerMatch),
+    totalTaxSavings: roundCents(totalTaxSavings),
+    totalInterestPaid: result.totalInterestPaid,
+    debtFreeMonth,
+  };
+}
+
+/**
+ * Simulate the debt payments of both paths. project() turns either one
+ * into a net-worth projection at a given annual return.
+ */
+function projectPaths(
+  debts: DebtAccount[],
+  startingInvestments: number,
+  monthlySurplus: number,
+  assumptions: InvestmentAssumptions,
+  strategy: DebtStrategy,
+  horizonMonths: number
+) {
+  const budget = debts.reduce((sum, d) => sum + d.minimum_payment!, 0) + monthlySurplus;
+  const payDown = simulateStrategy(debts, strategy, monthlySurplus, horizonMonths);
+  const invest = simulateStrategy(debts, 'minimum_only', 0, horizonMonths);
+
+  const project = (path: SurplusPath, result: StrategySimulationResult, rate: number) =>
+    projectNetWorth(path, result, debts, budget, startingInvestments, rate, assumptions, horizonMonths);
+
+  return { budget, payDown, invest, project };
+}
+
+// =============================================================================
+// COMPARISON
+// =============================================================================
+
+/**
+ * Smallest APR, applied to every debt, at which paying down ends with a
+ * higher net worth than investing. Returns null if investing wins even
+ * at the top of the search range.
+ */
+function findBreakEvenApr(
+  debts: DebtAccount[],
+  startingInvestments: number,
+  monthlySurplus: number,
+  assumptions: InvestmentAssumptions,
+  strategy: DebtStrategy,
+  horizonMonths: number
+): number | null {
+  const payDownAdvantage = (apr: number): number => {
+    const atApr = debts.map((d) => ({
+      ...d,
+      apr,
+      is_promotional_rate: false,
+      promotional_rate_expires: undefined,
+      post_promotional_apr: undefined,
+    }));
+    const { payDown, invest, project } = projectPaths(
+      atApr, startingInvestments, monthlySurplus, assumptions, strategy, horizonMonths
+    );
+    return project('pay_down', payDown, assumptions.expectedReturn).finalNetWorth -
+      project('invest', invest, assumptions.expectedReturn).finalNetWorth;
+  };
+
+  if (payDownAdvantage(0) > 0) return 0;
+
+  let high: number = PAY_DOWN_VS_INVEST.BREAK_EVEN_APR_MAX;
+  if (payDownAdvantage(high) <= 0) return null;
+
+  // Invariant: investing wins at low, paying down wins at high
+  let low = 0;
+  while (high - low > PAY_DOWN_VS_INVEST.BREAK_EVEN_APR_PRECISION) {
+    const mid = (low + high) / 2;
+    if (payDownAdvantage(mid) > 0) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+
+  return roundCents(high);
+}
+
+/**
+ * Compare putting a monthly surplus toward debt with investing it.
+ */
+export function comparePayDownVsInvest(
+  debts: DebtAccount[],
+  startingInvestments: number,
+  monthlySurplus: number,
+  assumptions: InvestmentAssumptions,
+  strategy: DebtStrategy = 'avalanche',
+  horizonMonths: number = 120
+): PayDownVsInvestComparison {
+  const normalized = normalizeDebtAccounts(debts);
+  const stdDev = assumptions.returnStdDev ?? PAY_DOWN_VS_INVEST.DEFAULT_RETURN_STD_DEV;
+  const { low, high } = percentileReturns(assumptions.expectedReturn, stdDev, horizonMonths);
+
+  const { budget, payDown, invest, project } = projectPaths(
+    normalized, startingInvestments, monthlySurplus, assumptions, strategy, horizonMonths
+  );
+
+  const withRange = (path: SurplusPath, result: StrategySimulationResult): SurplusPathProjection => ({
+    ...project(path, result, assumptions.expectedReturn),
+    finalNetWorthLow: project(path, result, low).finalNetWorth,
+    finalNetWorthHigh: project(path, result, high).finalNetWorth,
+  });
+
+  const payDownPath = withRange('pay_down', payDown);
+  const investPath = withRange('invest', invest);
+  const netWorthDifference = roundCents(payDownPath.finalNetWorth - investPath.finalNetWorth);
+  const recommendation: SurplusPath = netWorthDifference > 0 ? 'pay_down' : 'invest';
+
+  const breakEvenApr = findBreakEvenApr(
+    normalized, startingInvestments, monthlySurplus, assumptions, strategy, horizonMonths
+  );
+
+  const reasonCodes: ReasonCode[] = [
+    recommendation === 'pay_down' ? 'PAY_DOWN_BEATS_INVESTING' : 'INVESTING_BEATS_PAY_DOWN',
+  ];
+  if (payDownPath.totalEmployerMatch < investPath.totalEmployerMatch) {
+    reasonCodes.push('EMPLOYER_MATCH_FORGONE');
+  }
+
+  const years = Math.round((horizonMonths / 12) * 10) / 10;
+  let reason = recommendation === 'pay_down'
+    ? `Paying down debt leaves you ${format(netWorthDifference)} ahead after ${years} years.`
+    : `Investing leaves you ${format(-netWorthDifference)} ahead after ${years} years at an expected return of ${assumptions.expectedReturn}%.`;
+
+  if (recommendation === 'invest' && payDownPath.finalNetWorthLow > investPath.finalNetWorthLow) {
+    reason += ' In a weak market (10th percentile) paying down comes out ahead.';
+  }
+  if (breakEvenApr !== null) {
+    reason += ` Paying down wins for debt above ${breakEvenApr}% APR.`;
+  }
+
+  return {
+    monthlyBudget: roundCents(budget),
+    horizonMonths,
+    payDown: payDownPath,
+    invest: investPath,
+    netWorthDifference,
+    recommendation,
+    breakEvenApr,
+    reasonCodes,
+    reason,
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * Obsidian Decision Engine - Payoff Solver
+ *
+ * Inverse of the debt simulator: given a target debt-free date and/or a
+ * cap on total interest, finds the smallest extra monthly payment that
+ * meets it under each strategy.
+ *
+ * Every candidate payment is evaluated with simulateStrategySummary, so
+ * the solver and the forward simulation always agree.
+ *
+ * @module core/debt/payoffSolver
+ */
+
+import type { DebtAccount } from '../../models/types.js';
+import type {
+  DebtStrategy,
+  PayoffTarget,
+  RequiredPaymentResult,
+  StrategySimulationResult,
+} from './debtTypes.js';
+import { simulateStrategySummary } from './debtSimulator.js';
+import { dollarsToCents, centsToDollars } from '../../utils/money.js';
+import { DEBT_PAYOFF } from '../../config/thresholds.js';
+
+/**
+ * Strategies the solver searches. minimum_only ignores extra payments,
+ * so there is nothing to solve for.
+ */
+const SOLVABLE_STRATEGIES: DebtStrategy[] = ['avalanche', 'snowball', 'hybrid'];
+
+// =============================================================================
+// TARGET CHECK
+// =============================================================================
+
+/**
+ * Check whether a simulation result satisfies the payoff target.
+ */
+function meetsTarget(
+  result: StrategySimulationResult,
+  target: PayoffTarget,
+  maxMonths: number
+): boolean {
+  const allPaidOff = result.payoffOrder.every((p) => p.monthsToPayoff <= maxMonths);
+  if (!allPaidOff) return false;
+
+  if (target.targetMonths !== undefined && result.totalMonths > target.targetMonths) {
+    return false;
+  }
+
+  if (target.maxTotalInterest !== undefined && result.totalInterestPaid > target.maxTotalInterest) {
+    return false;
+  }
+
+  return true;
+}
+
+// =============================================================================
+// SOLVER
+// =============================================================================
+
+/**
+ * Find the smallest extra monthly payment (to the cent) that meets the
+ * target under a strategy, using binary search over the simulator.
+ */
+export function solveRequiredExtraPayment(
+  debts: DebtAccount[],
+  strategy: DebtStrategy,
+  target: PayoffTarget,
+  maxMonths: number = DEBT_PAYOFF.MAX_SIMULATION_MONTHS
+): RequiredPaymentResult {
+  // No need to simulate past the target date
+  const horizon = target.targetMonths !== undefined
+    ? Math.min(maxMonths, target.targetMonths)
+    : maxMonths;
+
+  const unreachable = (reason: string): RequiredPaymentResult => ({
+    strategy,
+    achievable: false,
+    requiredExtraPayment: null,
+    monthlyPaymentRequired: null,
+    totalMonths: null,
+    totalInterestPaid: null,
+    reason,
+  });
+
+  if (target.targetMonths !== undefined && target.targetMonths < 1) {
+    return unreachable('The target date must be at least one month away.');
+  }
+
+  const run = (extraCents: number) =>
+    simulateStrategySummary(debts, strategy, centsToDollars(extraCents), horizon);
+
+  // Upper bound: paying twice the total balance as extra clears everything
+  // as fast as the simulator allows. If that misses, no payment can hit it.
+  const totalBalance = debts.reduce((sum, d) => sum + d.balance, 0);
+  let high = dollarsToCents(totalBalance * 2);
+  let best = run(high);
+
+  if (!meetsTarget(best, target, horizon)) {
+    return unreachable(
+      target.maxTotalInterest !== undefined
+        ? 'Interest charged before any payment can clear the balances already exceeds the cap.'
+        : 'No extra payment can pay off all debts by the target date.'
+    );
+  }
+
+  let low = 0;
+  const baseline = run(low);
+  if (meetsTarget(baseline, target, horizon)) {
+    best = baseline;
+    high = 0;
+  }
+
+  // Invariant: high meets the target, low does not (until they meet)
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    const result = run(mid);
+
+    if (meetsTarget(result, target, horizon)) {
+      high = mid;
+      best = result;
+    } else {
+      low = mid;
+    }
+  }
+
+  const requiredExtraPayment = centsToDollars(high);
+
+  return {
+    strategy,
+    achievable: true,
+    requiredExtraPayment,
+    monthlyPaymentRequired: Math.round(best.monthlyPaymentRequired * 100) / 100,
+    totalMonths: best.totalMonths,
+    totalInterestPaid: best.totalInterestPaid,
+  };
+}
+
+/**
+ * Solve the required extra payment for every strategy that uses one.
+ */
+export function solveAllStrategies(
+  debts: DebtAccount[],
+  target: PayoffTarget,
+  maxMonths: number = DEBT_PAYOFF.MAX_SIMULATION_MONTHS
+): RequiredPaymentResult[] {
+  return SOLVABLE_STRATEGIES.map((strategy) =>
+    solveRequiredExtraPayment(debts, strategy, target, maxMonths)
+  );
+}
@@ -7,18 +7,54 @@
  * @module core/debt/payoffStrategies
  */
 
-import type { DebtState, DebtStrategy } from './debtTypes.js';
+import type { DebtState, DebtStrategy, StrategyConfig, HybridWeights, TaxProfile } from './debtTypes.js';
+import { deductibleShares, afterTaxApr } from './taxAdjustment.js';
+import { DEBT_PAYOFF, HYBRID_WEIGHTS } from '../../config/thresholds.js';
+
+/**
+ * APR used to rank a debt.
+ * Looks ahead to a promotional rate that is about to end, so a 0% card
+ * is prioritized at its post-promo APR shortly before the cliff.
+ */
+export function getPrioritizationApr(debt: DebtState): number {
+  if (
+    debt.promoMonthsRemaining !== undefined &&
+    debt.postPromotionalApr !== undefined &&
+    debt.promoMonthsRemaining <= DEBT_PAYOFF.PROMO_LOOKAHEAD_MONTHS
+  ) {
+    return debt.postPromotionalApr;
+  }
+  return debt.apr;
+}
+
+/**
+ * Ranking APR of each debt: the prioritization APR, net of the tax
+ * saved on deductible interest when a tax profile is given.
+ */
+export function getRankingAprs(debts: DebtState[], tax?: TaxProfile): Map<string, number> {
+  const shares = tax ? deductibleShares(debts, tax) : undefined;
+  
+  return new Map(debts.map((d) => {
+    const apr = getPrioritizationApr(d);
+    return [d.id, tax && shares ? afterTaxApr(apr, shares.get(d.id) ?? 0, tax) : apr];
+  }));
+}
 
 /**
  * Sort debts by avalanche strategy (highest APR first).
  * This is mathematically optimal - minimizes total interest paid.
+ * With a tax profile, debts are ranked by after-tax APR.
  */
-export function sortByAvalanche(debts: DebtState[]): DebtState[] {
-  return [...debts]
-    .filter((d) => !d.isPaidOff && d.balance > 0)
+export function sortByAvalanche(debts: DebtState[], tax?: TaxProfile): DebtState[] {
+  const activeDebts = debts.filter((d) => !d.isPaidOff && d.balance > 0);
+  const aprs = getRankingAprs(activeDebts, tax);
+  
+  return activeDebts
     .sort((a, b) => {
       // Primary: highest APR first
-      if (b.apr !== a.apr) return b.apr - a.apr;
+      const aprA = aprs.get(a.id)!;
+      const aprB = aprs.get(b.id)!;
+      if (aprB !== aprA) return aprB - aprA;
       // Secondary: lowest balance (for ties)
       return a.balance - b.balance;
     });
@@ -35,44 +71,113 @@ export function sortBySnowball(debts: DebtState[]): DebtState[] {
       // Primary: lowest balance first
       if (a.balance !== b.balance) return a.balance - b.balance;
       // Secondary: highest APR (for ties)
-      return b.apr - a.apr;
+      return getPrioritizationApr(b) - getPrioritizationApr(a);
     });
 }
 
+/**
+ * Fill in default hybrid weights and normalize them to sum to 1.
+ * Falls back to the defaults if every weight is zero.
+ */
+export function resolveHybridWeights(weights: Partial<HybridWeights> = {}): HybridWeights {
+  const merged: HybridWeights = {
+    apr: weights.apr ?? HYBRID_WEIGHTS.APR,
+    balance: weights.balance ?? HYBRID_WEIGHTS.BALANCE,
+    utilization: weights.utilization ?? HYBRID_WEIGHTS.UTILIZATION,
+    collections: weights.collections ?? HYBRID_WEIGHTS.COLLECTIONS,
+    fees: weights.fees ?? HYBRID_WEIGHTS.FEES,
+  };
+  
+  const total = merged.apr + merged.balance + merged.utilization + merged.collections + merged.fees;
+  if (total <= 0) return resolveHybridWeights();
+  
+  return {
+    apr: merged.apr / total,
+    balance: merged.balance / total,
+    utilization: merged.utilization / total,
+    collections: merged.collections / total,
+    fees: merged.fees / total,
+  };
+}
+
+/**
+ * Describe hybrid weights for display (e.g., "APR 60%, balance 40%").
+ * Factors with zero weight are left out.
+ */
+export function formatHybridWeights(weights: HybridWeights): string {
+  const labels: Array<[string, number]> = [
+    ['APR', weights.apr],
+    ['balance', weights.balance],
+    ['utilization', weights.utilization],
+    ['collections', weights.collections],
+    ['fees', weights.fees],
+  ];
+  
+  return labels
+    .filter(([, weight]) => weight > 0)
+    .map(([label, weight]) => `${label} ${Math.round(weight * 100)}%`)
+    .join(', ');
+}
+
 /**
  * Sort debts by hybrid strategy.
- * Combines APR and balance considerations with a scoring system.
+ * Combines APR and balance considerations with a scoring system,
+ * optionally adding utilization, collections and fee factors.
  * 
  * Score = (APR_weight * normalized_APR) + (balance_weight * (1 - normalized_balance))
+ *       + (utilization_weight * utilization) + (collections_weight * in_collections)
+ *       + (fees_weight * normalized_annual_fees)
  * 
- * Higher scores are paid first.
+ * Higher scores are paid first. With a tax profile, the APR factor uses
+ * after-tax APRs.
  */
-export function sortByHybrid(debts: DebtState[]): DebtState[] {
+export function sortByHybrid(
+  debts: DebtState[],
+  weights: Partial<HybridWeights> = {},
+  tax?: TaxProfile
+): DebtState[] {
   const activeDebts = debts.filter((d) => !d.isPaidOff && d.balance > 0);
   
   if (activeDebts.length === 0) return [];
   
+  const resolved = resolveHybridWeights(weights);
+  
   // Find min/max for normalization
-  const maxAPR = Math.max(...activeDebts.map((d) => d.apr));
-  const minAPR = Math.min(...activeDebts.map((d) => d.apr));
+  const aprs = getRankingAprs(activeDebts, tax);
+  const maxAPR = Math.max(...aprs.values());
+  const minAPR = Math.min(...aprs.values());
   const maxBalance = Math.max(...activeDebts.map((d) => d.balance));
   const minBalance = Math.min(...activeDebts.map((d) => d.balance));
-  
-  // Weights for scoring (APR slightly more important)
-  const APR_WEIGHT = 0.6;
-  const BALANCE_WEIGHT = 0.4;
+  const maxFees = Math.max(...activeDebts.map(annualFeeCost));
   
   // Calculate scores
   const scoredDebts = activeDebts.map((debt) => {
     // Normalize APR (0-1, higher APR = higher score)
-    const normalizedAPR = maxAPR === minAPR ? 1 : (debt.apr - minAPR) / (maxAPR - minAPR);
+    const apr = aprs.get(debt.id) ?? debt.apr;
+    const normalizedAPR = maxAPR === minAPR ? 1 : (apr - minAPR) / (maxAPR - minAPR);
     
     // Normalize balance (0-1, lower balance = higher score)
     const normalizedBalance = maxBalance === minBalance
       ? 1
       : 1 - (debt.balance - minBalance) / (maxBalance - minBalance);
     
-    const score = APR_WEIGHT * normalizedAPR + BALANCE_WEIGHT * normalizedBalance;
+    // Utilization (0-1, only for debts with a credit limit)
+    const utilization = debt.creditLimit && debt.creditLimit > 0
+      ? Math.min(1, debt.balance / debt.creditLimit)
+      : 0;
+    
+    // Collections (0 or 1)
+    const collections = debt.inCollections ? 1 : 0;
+    
+    // Recurring fees (0-1, relative to the costliest account)
+    const fees = maxFees > 0 ? annualFeeCost(debt) / maxFees : 0;
+    
+    const score =
+      resolved.apr * normalizedAPR +
+      resolved.balance * normalizedBalance +
+      resolved.utilization * utilization +
+      resolved.collections * collections +
+      resolved.fees * fees;
     
     return { debt, score };
   });
@@ -83,6 +188,13 @@ export function sortByHybrid(debts: DebtState[]): DebtState[] {
     .map((item) => item.debt);
 }
 
+/**
+ * Yearly cost of an account's recurring fees.
+ */
+function annualFeeCost(debt: DebtState): number {
+  return (debt.annualFee ?? 0) + (debt.monthlyFee ?? 0) * 12;
+}
+
 /**
  * Sort debts for minimum-only payments (maintains original order).
  * This is just for comparison - no prioritization strategy.
@@ -91,21 +203,45 @@ export function sortByMinimumOnly(debts: DebtState[]): DebtState[] {
   return [...debts].filter((d) => !d.isPaidOff && d.balance > 0);
 }
 
+/**
+ * Sort debts by a user-defined order of debt ids.
+ * Debts missing from the list follow in avalanche order, by after-tax
+ * APR when a tax profile is given.
+ */
+export function sortByCustomOrder(
+  debts: DebtState[],
+  order: string[],
+  tax?: TaxProfile
+): DebtState[] {
+  const rank = new Map(order.map((id, index) => [id, index]));
+  
+  const listed = debts
+    .filter((d) => !d.isPaidOff && d.balance > 0 && rank.has(d.id))
+    .sort((a, b) => rank.get(a.id)! - rank.get(b.id)!);
+  
+  const unlisted = sortByAvalanche(debts.filter((d) => !rank.has(d.id)), tax);
+  
+  return [...listed, ...unlisted];
+}
+
 /**
  * Get the appropriate sorting function for a strategy.
  */
 export function getStrategySorter(
-  strategy: DebtStrategy
+  strategy: DebtStrategy,
+  config: StrategyConfig = {}
 ): (debts: DebtState[]) => DebtState[] {
   switch (strategy) {
     case 'avalanche':
-      return sortByAvalanche;
+      return (debts) => sortByAvalanche(debts, config.taxProfile);
     case 'snowball':
       return sortBySnowball;
     case 'hybrid':
-      return sortByHybrid;
+      return (debts) => sortByHybrid(debts, config.hybridWeights, config.taxProfile);
     case 'minimum_only':
       return sortByMinimumOnly;
+    case 'custom':
+      return (debts) => sortByCustomOrder(debts, config.customOrder ?? [], config.taxProfile);
     default:
       return sortByAvalanche;
   }
@@ -114,16 +250,23 @@ export function getStrategySorter(
 /**
  * Get a human-readable description of a strategy.
  */
-export function getStrategyDescription(strategy: DebtStrategy): string {
+export function getStrategyDescription(
+  strategy: DebtStrategy,
+  config: StrategyConfig = {}
+): string {
   switch (strategy) {
     case 'avalanche':
-      return 'Pay off highest interest rate debts first to minimize total interest paid';
+      return config.taxProfile
+        ? 'Pay off highest after-tax interest rate debts first to minimize the after-tax cost of interest'
+        : 'Pay off highest interest rate debts first to minimize total interest paid';
     case 'snowball':
       return 'Pay off smallest balances first for quick wins and momentum';
     case 'hybrid':
-      return 'Balance between interest savings and quick wins using a weighted scoring system';
+      return `Balance between interest savings and quick wins using a weighted scoring system (${formatHybridWeights(resolveHybridWeights(config.hybridWeights))}${config.taxProfile ? ', after-tax APR' : ''})`;
     case 'minimum_only':
       return 'Pay only minimum payments (baseline comparison)';
+    case 'custom':
+      return 'Pay off debts in a user-defined order';
   }
 }
 
@@ -0,0 +1,164 @@
+/**
+ * Obsidian Decision Engine - Payday and Title Loan Rollovers
+ *
+ * Payday and title loans charge a flat fee per short term (e.g., $15 per
+ * $100 every 14 days) and are due in full when the term ends. A borrower
+ * who can't repay pays the fee and renews the whole balance, so the fee
+ * keeps coming back without touching the principal.
+ *
+ * The simulator accrues the fee as simple daily interest at the rate it
+ * works out to over a year, so a month's charge is the fee prorated over
+ * the terms in that month, and paying only the fee leaves the principal
+ * where it was.
+ *
+ * @module core/debt/rolloverLoans
+ */
+
+import type { DebtAccount } from '../../models/types.js';
+import type {
+  RolloverExitPlan,
+  RolloverLoanCost,
+  StrategySimulationResult,
+} from './debtTypes.js';
+import { roundCents } from '../../utils/money.js';
+import { ROLLOVER_LOANS } from '../../config/thresholds.js';
+
+/**
+ * Whether a debt is priced by a fee per term rather than an APR.
+ */
+export function isRolloverLoan(debt: DebtAccount): boolean {
+  return (debt.type === 'payday_loan' || debt.type === 'title_loan') &&
+    debt.term_fee_per_100 !== undefined;
+}
+
+/**
+ * Term length of a payday or title loan.
+ */
+export function rolloverTermDays(debt: DebtAccount): number {
+  if (debt.term_days !== undefined) return debt.term_days;
+  return debt.type === 'title_loan'
+    ? ROLLOVER_LOANS.DEFAULT_TERM_DAYS.title_loan
+    : ROLLOVER_LOANS.DEFAULT_TERM_DAYS.payday_loan;
+}
+
+/**
+ * A per-term fee as a simple annual rate (the APR lenders must disclose).
+ */
+export function rolloverApr(feePer100: number, termDays: number): number {
+  return (feePer100 * 365) / termDays;
+}
+
+/**
+ * APR a debt is charged at, with a payday or title loan's per-term fee
+ * taking the place of its stated APR.
+ */
+export function effectiveApr(debt: DebtAccount): number {
+  return isRolloverLoan(debt) ? rolloverApr(debt.term_fee_per_100!, rolloverTermDays(debt)) : debt.apr;
+}
+
+/**
+ * A per-term fee compounded over a year of rollovers, as a percentage.
+ */
+export function rolloverEffectiveRate(feePer100: number, termDays: number): number {
+  return (Math.pow(1 + feePer100 / 100, 365 / termDays) - 1) * 100;
+}
+
+/**
+ * Fee for one term on a balance.
+ */
+export function rolloverFee(balance: number, feePer100: number): number {
+  return (balance * feePer100) / 100;
+}
+
+/**
+ * Minimum that keeps a rollover loan current: the fees over the longest
+ * month, so paying it renews the loan without the balance growing.
+ */
+export function rolloverMinimumPayment(debt: DebtAccount): number {
+  const fees = rolloverFee(debt.balance, debt.term_fee_per_100!) * (31 / rolloverTermDays(debt));
+  return Math.ceil(fees * 100) / 100;
+}
+
+// =============================================================================
+// SIMULATED COST
+// =============================================================================
+
+/**
+ * Rollovers and fees for each payday and title loan under a simulated
+ * plan. Debts are matched to the plan by id (`debt_<index>` if unset).
+ */
+export function analyzeRolloverCosts(
+  debts: DebtAccount[],
+  result: StrategySimulationResult,
+  maxMonths: number
+): RolloverLoanCost[] {
+  const costs: RolloverLoanCost[] = [];
+
+  debts.forEach((debt, index) => {
+    if (!isRolloverLoan(debt) || debt.balance <= 0) return;
+
+    const debtId = debt.id ?? `debt_${index}`;
+    const payoff = result.payoffOrder.find((p) => p.debtId === debtId);
+    const paidOff = payoff !== undefined && payoff.monthsToPayoff <= maxMonths;
+    const months = paidOff ? payoff.monthsToPayoff : maxMonths;
+    const termDays = rolloverTermDays(debt);
+    const feePer100 = debt.term_fee_per_100!;
+
+    costs.push({
+      debtId,
+      debtName: payoff?.debtName ?? debt.name ?? debtId,
+      termDays,
+      feePerTerm: roundCents(rolloverFee(debt.balance, feePer100)),
+      trueApr: roundCents(rolloverApr(feePer100, termDays)),
+      effectiveAnnualRate: roundCents(rolloverEffectiveRate(feePer100, termDays)),
+      // Every term started after the first is a renewal
+      rollovers: Math.max(0, Math.ceil((months * 365) / 12 / termDays) - 1),
+      feesPaid: roundCents(payoff?.interestPaid ?? 0),
+      paidOff,
+    });
+  });
+
+  return costs;
+}
+
+// =============================================================================
+// EXIT PLAN
+// =============================================================================
+
+/**
+ * Plan to stop rolling a loan over: pay the principal off in equal
+ * installments, one per term, with each term's fee charged on what is
+ * left. On a lender's extended payment plan the same installments carry
+ * no further fees.
+ */
+export function planRolloverExit(debt: DebtAccount, index: number = 0): RolloverExitPlan {
+  const termDays = rolloverTermDays(debt);
+  const feePer100 = debt.term_fee_per_100!;
+  const installments = ROLLOVER_LOANS.EXIT_PLAN_INSTALLMENTS;
+  const installmentPrincipal = debt.balance / installments;
+
+  // Fees on the full balance, then on three quarters of it, and so on
+  let exitFees = 0;
+  for (let term = 0; term < installments; term++) {
+    exitFees += rolloverFee(debt.balance - installmentPrincipal * term, feePer100);
+  }
+
+  const annualRolloverCost = rolloverFee(debt.balance, feePer100) * (365 / termDays);
+
+  return {
+    debtId: debt.id ?? `debt_${index}`,
+    debtName: debt.name ?? debt.type,
+    principal: debt.balance,
+    termDays,
+    feePerTerm: roundCents(rolloverFee(debt.balance, feePer100)),
+    trueApr: roundCents(rolloverApr(feePer100, termDays)),
+    effectiveAnnualRate: roundCents(rolloverEffectiveRate(feePer100, termDays)),
+    annualRolloverCost: roundCents(annualRolloverCost),
+    installments,
+    installmentPrincipal: roundCents(installmentPrincipal),
+    firstPayment: roundCents(installmentPrincipal + rolloverFee(debt.balance, feePer100)),
+    exitFees: roundCents(exitFees),
+    feesSaved: roundCents(annualRolloverCost - exitFees),
+    palEligible: debt.balance <= ROLLOVER_LOANS.PAL_MAX_AMOUNT,
+  };
+}
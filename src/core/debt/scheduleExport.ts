@@ -0,0 +1,208 @@
+/**
+ * Obsidian Decision Engine - Schedule Export
+ *
+ * Writes a simulated schedule as CSV (one row per debt per month) or as
+ * an iCalendar file (one all-day event per payment on its due date).
+ * Amounts are the MonthlySimulationState payments, unrounded, so an
+ * export matches the JSON schedule exactly.
+ *
+ * A debt's payment falls on its payment_due_day in each simulated
+ * month. Without one, buy now, pay later plans use the day of their next
+ * installment and other debts the day the simulation starts.
+ *
+ * @module core/debt/scheduleExport
+ */
+
+import type { DebtAccount } from '../../models/types.js';
+import type { DebtPayment, MonthlySimulationState } from './debtTypes.js';
+import { format } from '../../utils/money.js';
+import {
+  now,
+  parse,
+  create,
+  addDays,
+  addMonths,
+  startOfDay,
+  startOfMonth,
+  daysInMonth,
+  isBefore,
+  toDateString,
+} from '../../utils/dates.js';
+
+type Day = ReturnType<typeof now>;
+
+const CSV_COLUMNS = [
+  'month',
+  'date',
+  'due_date',
+  'debt_id',
+  'debt_name',
+  'payment_amount',
+  'principal_paid',
+  'interest_paid',
+  'fees_charged',
+  'fees_paid',
+  'missed_payment',
+  'remaining_balance',
+];
+
+/**
+ * Date a debt's payment is due in a simulation month (1-based).
+ */
+export function paymentDueDate(debt: DebtAccount, month: number, startDate: Day = now()): Day {
+  const periodStart = startOfDay(addMonths(startDate, month - 1));
+  const dueDay = debt.payment_due_day ??
+    (debt.installment_plan ? parse(debt.installment_plan.next_due_date).date() : periodStart.date());
+  // Due days past the end of a short month fall on its last day
+  const dueIn = (date: Day) =>
+    create(date.year(), date.month() + 1, Math.min(dueDay, daysInMonth(date)));
+
+  const due = dueIn(periodStart);
+  return isBefore(due, periodStart) ? dueIn(addMonths(startOfMonth(periodStart), 1)) : due;
+}
+
+/**
+ * Debts by the id the simulator gives them.
+ */
+function debtsById(debts: DebtAccount[]): Map<string, DebtAccount> {
+  return new Map(debts.map((debt, index) => [debt.id ?? `debt_${index}`, debt]));
+}
+
+function dueDateOf(
+  payment: DebtPayment,
+  month: number,
+  debts: Map<string, DebtAccount>,
+  startDate: Day
+): Day {
+  const debt = debts.get(payment.debtId);
+  return debt ? paymentDueDate(debt, month, startDate) : startOfDay(addMonths(startDate, month - 1));
+}
+
+// =============================================================================
+// CSV
+// =============================================================================
+
+/**
+ * Quote a CSV field when needed. Text that a spreadsheet would read as a
+ * formula is prefixed with an apostrophe.
+ */
+function csvField(value: string | number | boolean): string {
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * The schedule as CSV, one row per debt per month.
+ */
+export function scheduleToCsv(
+  schedule: MonthlySimulationState[],
+  debts: DebtAccount[],
+  startDate: Day = now()
+): string {
+  const byId = debtsById(debts);
+  const rows = schedule.flatMap((month) =>
+    month.payments.map((p) => [
+      month.month,
+      month.date,
+      toDateString(dueDateOf(p, month.month, byId, startDate)),
+      p.debtId,
+      p.debtName,
+      p.paymentAmount,
+      p.principalPaid,
+      p.interestPaid,
+      p.feesCharged,
+      p.feesPaid,
+      p.missedPayment,
+      p.remainingBalance,
+    ].map(csvField).join(','))
+  );
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+// =============================================================================
+// ICALENDAR
+// =============================================================================
+
+/**
+ * Escape text for an iCalendar property value (RFC 5545, 3.3.11).
+ */
+function icsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets (RFC 5545, 3.1).
+ */
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let start = 0;
+  while (start < bytes.length) {
+    let end = Math.min(start + (parts.length === 0 ? 75 : 74), bytes.length);
+    // Don't split a multi-byte character
+    while (end < bytes.length && (bytes[end]! & 0xc0) === 0x80) end--;
+    parts.push(bytes.subarray(start, end).toString('utf8'));
+    start = end;
+  }
+  return parts.join('\r\n ');
+}
+
+function icsDate(date: Day): string {
+  return date.format('YYYYMMDD');
+}
+
+/**
+ * The schedule as an iCalendar file with an all-day event for each
+ * payment. Months where a debt gets no payment (missed, or already paid
+ * off) have no event.
+ */
+export function scheduleToICalendar(
+  schedule: MonthlySimulationState[],
+  debts: DebtAccount[],
+  startDate: Day = now()
+): string {
+  const byId = debtsById(debts);
+  const stamp = startDate.format('YYYYMMDD[T]HHmmss[Z]');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Obsidian//Decision Engine//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Debt payoff plan',
+  ];
+
+  for (const month of schedule) {
+    for (const p of month.payments) {
+      if (p.paymentAmount <= 0) continue;
+      const due = dueDateOf(p, month.month, byId, startDate);
+
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${icsText(`${p.debtId}-${icsDate(due)}`)}@obsidian-decision-engine`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${icsDate(due)}`,
+        `DTEND;VALUE=DATE:${icsDate(addDays(due, 1))}`,
+        `SUMMARY:${icsText(`Pay ${p.debtName}: ${format(p.paymentAmount)}`)}`,
+        `DESCRIPTION:${icsText(
+          `Month ${month.month} of the plan. Principal ${format(p.principalPaid)}, ` +
+          `interest ${format(p.interestPaid)}, fees ${format(p.feesPaid)}. ` +
+          `Remaining balance ${format(p.remainingBalance)}.`
+        )}`,
+        'TRANSP:TRANSPARENT',
+        'END:VEVENT'
+      );
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,195 @@
+/**
+ * Obsidian Decision Engine - Schedule Rollups and Paging
+ *
+ * Rolls a simulated schedule up into quarters or years and splits it
+ * into pages, so long simulations don't have to be cut short.
+ *
+ * Cursors are opaque to clients. Each one names the granularity it was
+ * issued for and the first period of the next page; the simulation is
+ * deterministic, so the same request with the cursor picks up where the
+ * last page stopped.
+ *
+ * Period totals are sums of the monthly figures, so pages reconcile with
+ * the totals of the whole schedule.
+ *
+ * @module core/debt/schedulePaging
+ */
+
+import type {
+  DebtPeriodPayment,
+  MonthlySimulationState,
+  ScheduleGranularity,
+  SchedulePage,
+  SchedulePeriod,
+  ScheduleTotals,
+} from './debtTypes.js';
+import { roundCents } from '../../utils/money.js';
+
+const MONTHS_PER_PERIOD: Record<ScheduleGranularity, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+// =============================================================================
+// CURSORS
+// =============================================================================
+
+/**
+ * Cursor pointing at a period of a schedule.
+ */
+export function encodeScheduleCursor(granularity: ScheduleGranularity, period: number): string {
+  return Buffer.from(`${granularity}:${period}`).toString('base64url');
+}
+
+/**
+ * Period a cursor points at, or null if it is malformed or was issued
+ * for another granularity.
+ */
+export function decodeScheduleCursor(cursor: string, granularity: ScheduleGranularity): number | null {
+  const [cursorGranularity, period] = Buffer.from(cursor, 'base64url').toString().split(':');
+  const first = Number(period);
+
+  if (cursorGranularity !== granularity || !Number.isInteger(first) || first < 1) return null;
+  return first;
+}
+
+// =============================================================================
+// ROLLUPS
+// =============================================================================
+
+/**
+ * Totals of the payment columns over a run of months.
+ */
+export function scheduleTotals(months: MonthlySimulationState[]): ScheduleTotals {
+  let totalPayment = 0;
+  let totalPrincipalPaid = 0;
+  let totalInterestPaid = 0;
+  let totalFeesCharged = 0;
+  let oneTimePaymentsApplied = 0;
+
+  for (const month of months) {
+    totalPayment += month.totalPayment;
+    totalPrincipalPaid += month.totalPrincipalPaid;
+    // A month's totalInterestPaid is cumulative, so sum the payments
+    totalInterestPaid += month.payments.reduce((sum, p) => sum + p.interestPaid, 0);
+    totalFeesCharged += month.totalFeesCharged;
+    oneTimePaymentsApplied += month.oneTimePaymentsApplied;
+  }
+
+  return {
+    totalPayment: roundCents(totalPayment),
+    totalPrincipalPaid: roundCents(totalPrincipalPaid),
+    totalInterestPaid: roundCents(totalInterestPaid),
+    totalFeesCharged: roundCents(totalFeesCharged),
+    oneTimePaymentsApplied: roundCents(oneTimePaymentsApplied),
+  };
+}
+
+/**
+ * What each debt paid over a run of months, in schedule order.
+ */
+function rollUpPayments(months: MonthlySimulationState[]): DebtPeriodPayment[] {
+  const byDebt = new Map<string, DebtPeriodPayment>();
+
+  for (const month of months) {
+    for (const payment of month.payments) {
+      let entry = byDebt.get(payment.debtId);
+      if (!entry) {
+        entry = {
+          debtId: payment.debtId,
+          debtName: payment.debtName,
+          paymentAmount: 0,
+          principalPaid: 0,
+          interestPaid: 0,
+          feesCharged: 0,
+          missedPayments: 0,
+          remainingBalance: 0,
+        };
+        byDebt.set(payment.debtId, entry);
+      }
+
+      entry.paymentAmount += payment.paymentAmount;
+      entry.principalPaid += payment.principalPaid;
+      entry.interestPaid += payment.interestPaid;
+      entry.feesCharged += payment.feesCharged;
+      if (payment.missedPayment) entry.missedPayments++;
+      entry.remainingBalance = payment.remainingBalance;
+    }
+  }
+
+  return [...byDebt.values()].map((entry) => ({
+    ...entry,
+    paymentAmount: roundCents(entry.paymentAmount),
+    principalPaid: roundCents(entry.principalPaid),
+    interestPaid: roundCents(entry.interestPaid),
+    feesCharged: roundCents(entry.feesCharged),
+  }));
+}
+
+/**
+ * Roll a schedule up into periods of the given granularity. The last
+ * period may be short if the plan ends partway through it.
+ */
+export function rollUpSchedule(
+  schedule: MonthlySimulationState[],
+  granularity: ScheduleGranularity
+): SchedulePeriod[] {
+  const size = MONTHS_PER_PERIOD[granularity];
+  const periods: SchedulePeriod[] = [];
+
+  for (let start = 0; start < schedule.length; start += size) {
+    const months = schedule.slice(start, start + size);
+    const first = months[0]!;
+    const last = months[months.length - 1]!;
+
+    periods.push({
+      period: start / size + 1,
+      startMonth: first.month,
+      endMonth: last.month,
+      startDate: first.date,
+      endDate: last.date,
+      payments: rollUpPayments(months),
+      ...scheduleTotals(months),
+      totalRemainingDebt: last.totalRemainingDebt,
+      debtsPaidOff: months.flatMap((m) => m.debtsPaidOffThisMonth),
+    });
+  }
+
+  return periods;
+}
+
+// =============================================================================
+// PAGING
+// =============================================================================
+
+/**
+ * One page of a schedule, starting at firstPeriod (1-based). Pages past
+ * the end are empty.
+ */
+export function pageSchedule(
+  schedule: MonthlySimulationState[],
+  granularity: ScheduleGranularity,
+  firstPeriod: number,
+  pageSize: number
+): SchedulePage {
+  const size = MONTHS_PER_PERIOD[granularity];
+  const totalPeriods = Math.ceil(schedule.length / size);
+  const endPeriod = Math.min(totalPeriods, firstPeriod + pageSize - 1);
+
+  // Only the months on this page are rolled up
+  const months = schedule.slice((firstPeriod - 1) * size, endPeriod * size);
+  const monthly = granularity === 'monthly';
+
+  return {
+    granularity,
+    months: monthly ? months : [],
+    periods: monthly
+      ? []
+      : rollUpSchedule(months, granularity).map((p) => ({ ...p, period: p.period + firstPeriod - 1 })),
+    totalPeriods,
+    firstPeriod,
+    nextCursor: endPeriod < totalPeriods ? encodeScheduleCursor(granularity, endPeriod + 1) : null,
+    totals: scheduleTotals(schedule),
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * Obsidian Decision Engine - Extra Payment Sensitivity Curve
+ *
+ * Traces months to payoff and total interest across a grid of extra
+ * monthly payments, for each strategy, so a client can show the whole
+ * curve behind an "extra payment" slider from one request.
+ *
+ * A grid point has diminishing returns when the step up to it saves
+ * noticeably less interest per dollar than the first step on the curve
+ * did. Steps are compared per dollar because the last one can be
+ * shorter than the rest.
+ *
+ * @module core/debt/sensitivityCurve
+ */
+
+import type { DebtAccount } from '../../models/types.js';
+import type {
+  DebtStrategy,
+  SensitivityCurve,
+  SensitivityPoint,
+  SimulationOptions,
+  StrategySensitivityCurve,
+  StrategySimulationResult,
+} from './debtTypes.js';
+import { simulateStrategySummary } from './debtSimulator.js';
+import { roundCents } from '../../utils/money.js';
+import { DEBT_PAYOFF, SENSITIVITY_CURVE } from '../../config/thresholds.js';
+
+/**
+ * Extra payment amounts from min to max in equal steps. The last point
+ * is max itself even if the steps don't land on it.
+ */
+export function buildExtraPaymentGrid(minExtra: number, maxExtra: number, step: number): number[] {
+  const grid: number[] = [];
+  for (let extra = minExtra; extra < maxExtra - 1e-9; extra += step) {
+    grid.push(roundCents(extra));
+  }
+  grid.push(roundCents(maxExtra));
+  return grid;
+}
+
+/**
+ * Number of points buildExtraPaymentGrid returns, without building it.
+ */
+export function extraPaymentGridSize(minExtra: number, maxExtra: number, step: number): number {
+  return Math.ceil((maxExtra - minExtra) / step - 1e-9) + 1;
+}
+
+function paidOff(result: StrategySimulationResult, maxMonths: number): boolean {
+  return result.payoffOrder.every((p) => p.monthsToPayoff <= maxMonths);
+}
+
+/**
+ * Trace one strategy across the grid.
+ */
+function traceStrategy(
+  debts: DebtAccount[],
+  strategy: DebtStrategy,
+  grid: number[],
+  maxMonths: number,
+  options: SimulationOptions
+): StrategySensitivityCurve {
+  const points: SensitivityPoint[] = [];
+  let previous: StrategySimulationResult | null = null;
+
+  for (const extra of grid) {
+    // Once everything is cleared in the first month, more money changes nothing
+    const result: StrategySimulationResult = previous && previous.totalMonths <= 1 && paidOff(previous, maxMonths)
+      ? previous
+      : simulateStrategySummary(debts, strategy, extra, maxMonths, options);
+
+    points.push({
+      extraPayment: extra,
+      totalMonths: result.totalMonths,
+      paidOff: paidOff(result, maxMonths),
+      totalInterestPaid: result.totalInterestPaid,
+      marginalInterestSaved: previous ? roundCents(previous.totalInterestPaid - result.totalInterestPaid) : null,
+      marginalMonthsSaved: previous ? previous.totalMonths - result.totalMonths : null,
+      diminishingReturns: false,
+    });
+    previous = result;
+  }
+
+  // Interest saved per dollar of the step up to a point
+  const savingsPerDollar = (i: number) =>
+    points[i]!.marginalInterestSaved! / (points[i]!.extraPayment - points[i - 1]!.extraPayment);
+
+  // Measure against the first step between two plans that pay off
+  const referenceIndex = points.findIndex((p, i) => i > 0 && p.paidOff && points[i - 1]!.paidOff);
+  const referenceSavings = referenceIndex > 0 ? savingsPerDollar(referenceIndex) : 0;
+
+  if (referenceSavings > 0) {
+    points.forEach((point, i) => {
+      if (i === 0 || !point.paidOff || !points[i - 1]!.paidOff) return;
+      point.diminishingReturns =
+        savingsPerDollar(i) < referenceSavings * SENSITIVITY_CURVE.DIMINISHING_RETURNS_RATIO;
+    });
+  }
+
+  return {
+    strategy,
+    points,
+    diminishingReturnsFrom: points.find((p) => p.diminishingReturns)?.extraPayment ?? null,
+  };
+}
+
+/**
+ * Months to payoff and total interest for each strategy at every extra
+ * payment amount on the grid.
+ */
+export function buildSensitivityCurve(
+  debts: DebtAccount[],
+  grid: number[],
+  strategies: DebtStrategy[] = ['avalanche', 'snowball', 'hybrid'],
+  maxMonths: number = DEBT_PAYOFF.MAX_SIMULATION_MONTHS,
+  options: SimulationOptions = {}
+): SensitivityCurve {
+  const minimumOnly = simulateStrategySummary(debts, 'minimum_only', 0, maxMonths, options);
+
+  return {
+    grid,
+    minimumOnly: {
+      totalMonths: minimumOnly.totalMonths,
+      paidOff: paidOff(minimumOnly, maxMonths),
+      totalInterestPaid: minimumOnly.totalInterestPaid,
+    },
+    curves: strategies.map((strategy) => traceStrategy(debts, strategy, grid, maxMonths, options)),
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * Obsidian Decision Engine - Tax-Adjusted Interest
+ * 
+ * Deductible interest costs less than its APR suggests: every deducted
+ * dollar saves the marginal tax rate. Student loan interest is deductible
+ * up to a yearly cap that phases out with income; mortgage interest only
+ * when the user itemizes, and only on the first $750,000 of the loan.
+ * 
+ * @module core/debt/taxAdjustment
+ */
+
+import type { UserFinancialProfile } from '../../models/types.js';
+import type {
+  AfterTaxInterest,
+  DebtState,
+  StrategySimulationResult,
+  TaxProfile,
+} from './debtTypes.js';
+import { roundCents } from '../../utils/money.js';
+import { TAX } from '../../config/thresholds.js';
+
+/**
+ * Tax profile for a user, or undefined if they gave no tax details.
+ * Annual income stands in for modified adjusted gross income.
+ */
+export function resolveTaxProfile(profile: UserFinancialProfile): TaxProfile | undefined {
+  if (!profile.tax) return undefined;
+  
+  const { filing_status, marginal_rate, itemizes } = profile.tax;
+  const phaseout = TAX.STUDENT_LOAN_PHASEOUT[filing_status];
+  const annualIncome = profile.monthly_income * 12;
+  
+  // Share of the cap left, falling linearly across the phase-out range
+  const remaining = phaseout.END <= phaseout.START
+    ? 0
+    : Math.min(1, Math.max(0, (phaseout.END - annualIncome) / (phaseout.END - phaseout.START)));
+  
+  return {
+    marginalRate: marginal_rate,
+    itemizes,
+    studentLoanDeductionCap: roundCents(TAX.STUDENT_LOAN_INTEREST_DEDUCTION_CAP * remaining),
+  };
+}
+
+/**
+ * Deductible share of a mortgage's interest: all of it on the first
+ * $750,000 of the loan, pro rata above that.
+ */
+function mortgageDeductibleShare(balance: number): number {
+  return balance > 0 ? Math.min(1, TAX.MORTGAGE_INTEREST_DEBT_LIMIT / balance) : 1;
+}
+
+/**
+ * Share of each debt's interest that is deductible (0-1). Student loans
+ * share the yearly cap in proportion to the interest they accrue.
+ */
+export function deductibleShares(
+  debts: Array<Pick<DebtState, 'id' | 'type' | 'balance' | 'apr'>>,
+  tax: TaxProfile
+): Map<string, number> {
+  const studentLoanInterest = debts
+    .filter((d) => d.type === 'student_loan')
+    .reduce((sum, d) => sum + (d.balance * d.apr) / 100, 0);
+  const studentLoanShare = studentLoanInterest > 0
+    ? Math.min(1, tax.studentLoanDeductionCap / studentLoanInterest)
+    : 0;
+  
+  return new Map(debts.map((d) => {
+    if (d.type === 'student_loan') return [d.id, studentLoanShare];
+    if (d.type === 'mortgage' && tax.itemizes) {
+      return [d.id, mortgageDeductibleShare(d.balance)];
+    }
+    return [d.id, 0];
+  }));
+}
+
+/**
+ * APR net of the tax saved on its deductible share.
+ */
+export function afterTaxApr(apr: number, deductibleShare: number, tax: TaxProfile): number {
+  return apr * (1 - (deductibleShare * tax.marginalRate) / 100);
+}
+
+/**
+ * Tax saved in each month of a simulated plan, in schedule order.
+ * The student loan cap applies to each 12-month period of the plan.
+ */
+export function monthlyTaxSavings(result: StrategySimulationResult, tax: TaxProfile): number[] {
+  const rate = tax.marginalRate / 100;
+  const types = new Map(result.schedule[0]?.debts.map((d) => [d.id, d.type]) ?? []);
+  let studentLoanDeducted = 0;
+  
+  return result.schedule.map((month) => {
+    if ((month.month - 1) % 12 === 0) studentLoanDeducted = 0;
+    
+    let savings = 0;
+    for (const payment of month.payments) {
+      const type = types.get(payment.debtId);
+      
+      if (type === 'student_loan') {
+        const deductible = Math.max(
+          0,
+          Math.min(payment.interestPaid, tax.studentLoanDeductionCap - studentLoanDeducted)
+        );
+        studentLoanDeducted += deductible;
+        savings += deductible * rate;
+      } else if (type === 'mortgage' && tax.itemizes) {
+        const balance = payment.remainingBalance + payment.principalPaid;
+        savings += payment.interestPaid * mortgageDeductibleShare(balance) * rate;
+      }
+    }
+    return savings;
+  });
+}
+
+/**
+ * Interest paid over a simulated plan before and after the tax it saves.
+ */
+export function calculateAfterTaxInterest(
+  result: StrategySimulationResult,
+  tax: TaxProfile | undefined
+): AfterTaxInterest {
+  const nominalInterest = result.totalInterestPaid;
+  if (!tax) return { nominalInterest, taxSavings: 0, afterTaxInterest: nominalInterest };
+  
+  const taxSavings = monthlyTaxSavings(result, tax).reduce((sum, s) => sum + s, 0);
+  
+  return {
+    nominalInterest,
+    taxSavings: roundCents(taxSavings),
+    afterTaxInterest: roundCents(nominalInterest - taxSavings),
+  };
+}
@@ -15,7 +15,10 @@ import {
   INTEREST_RATES,
   CASHFLOW,
   SAVINGS_RATE,
+  ROLLOVER_LOANS,
 } from '../../config/thresholds.js';
+import { detectNegativeAmortization } from '../debt/debtSimulator.js';
+import { isRolloverLoan, planRolloverExit } from '../debt/rolloverLoans.js';
 
 // =============================================================================
 // SIGNAL TYPES
@@ -224,9 +227,31 @@ export function detectDebtSignals(profile: UserFinancialProfile): FinancialSigna
   const signals: FinancialSignal[] = [];
   
   // Check each debt
-  for (const debt of profile.debts) {
+  for (const [index, debt] of profile.debts.entries()) {
     if (debt.balance <= 0) continue;
     
+    // Payday and title loans: the per-term fee is the real price, and
+    // renewing the balance pays it again and again
+    if (isRolloverLoan(debt)) {
+      const plan = planRolloverExit(debt, index);
+      const refinance = plan.palEligible
+        ? `, or refinance with a credit union payday alternative loan (APR capped at ${ROLLOVER_LOANS.PAL_MAX_APR}%)`
+        : '';
+      
+      signals.push({
+        id: `ROLLOVER_LOAN_${debt.id ?? debt.type}`,
+        category: 'debt',
+        severity: 'critical',
+        title: `Rollover Fees on ${plan.debtName}`,
+        description: `A $${debt.term_fee_per_100} fee per $100 every ${plan.termDays} days is a ${plan.trueApr}% APR (${plan.effectiveAnnualRate}% compounded). Rolling over the ${formatMoney(plan.principal)} balance for a year costs ${formatMoney(plan.annualRolloverCost)} in fees without paying any of it down.`,
+        value: plan.trueApr,
+        threshold: INTEREST_RATES.PREDATORY_APR,
+        recommendedAction: `Stop renewing it: pay ${formatMoney(plan.installmentPrincipal)} of principal each term plus the fee (${formatMoney(plan.firstPayment)} the first time) to clear it in ${plan.installments} terms for ${formatMoney(plan.exitFees)} in fees, ${formatMoney(plan.feesSaved)} less than a year of rollovers. Ask the lender for an extended payment plan, which spreads the same installments with no further fees${refinance}.`,
+        priority: 92,
+      });
+      continue;
+    }
+    
     // High APR debt
     if (debt.apr >= INTEREST_RATES.PREDATORY_APR) {
       signals.push({
@@ -286,6 +311,23 @@ export function detectDebtSignals(profile: UserFinancialProfile): FinancialSigna
     }
   }
   
+  // Balances that grow on minimum payments
+  for (const growing of detectNegativeAmortization(profile.debts)) {
+    signals.push({
+      id: `NEGATIVE_AMORTIZATION_${growing.debtId}`,
+      category: 'debt',
+      severity: 'critical',
+      title: `${growing.debtName} Grows on Minimum Payments`,
+      description: growing.afterPromotionalRate
+        ? `Once the promotional rate ends, the $${growing.minimumPayment.toFixed(2)} minimum won't cover interest and fees, and the balance will grow by about $${growing.monthlyGrowth.toFixed(2)} a month.`
+        : `The $${growing.minimumPayment.toFixed(2)} minimum doesn't cover interest and fees, so the balance grows by about $${growing.monthlyGrowth.toFixed(2)} a month.`,
+      value: growing.monthlyGrowth,
+      threshold: growing.breakEvenPayment,
+      recommendedAction: `Pay at least $${growing.breakEvenPayment.toFixed(2)} a month to stop the balance growing`,
+      priority: 90,
+    });
+  }
+  
   // No debt - positive signal
   if (profile.debts.length === 0 || profile.debts.every((d) => d.balance <= 0)) {
     signals.push({
@@ -61,6 +61,23 @@ export const ReasonCodeSchema = z.enum([
   'HIGH_CREDIT_UTILIZATION',
   'LOW_CREDIT_UTILIZATION',
   'HIGH_INTEREST_DEBT',
+  'NEGATIVE_AMORTIZATION',
+  'ROLLOVER_LOAN',
+  'CONSOLIDATION_SAVES_MONEY',
+  'CONSOLIDATION_COSTS_MORE',
+  'CONSOLIDATION_LOWERS_PAYMENT',
+  'CONSOLIDATION_RAISES_PAYMENT',
+  'CONSOLIDATION_EXTENDS_PAYOFF',
+  'PAY_DOWN_BEATS_INVESTING',
+  'INVESTING_BEATS_PAY_DOWN',
+  'EMPLOYER_MATCH_FORGONE',
+  'RELIEF_SAVES_MONEY',
+  'RELIEF_COSTS_MORE',
+  'RELIEF_LOWERS_PAYMENT',
+  'RELIEF_EXTENDS_PAYOFF',
+  'RELIEF_CASH_SHORTFALL',
+  'FORGIVEN_DEBT_TAXABLE',
+  'CREDIT_SCORE_DAMAGE',
   'DEBT_FREE',
   
   // Savings related
@@ -76,6 +93,7 @@ export const ReasonCodeSchema = z.enum([
   'LUXURY_WHILE_IN_DEBT',
   'FINANCING_RECOMMENDED',
   'CASH_PURCHASE_OK',
+  'BNPL_STACKING',
   
   // Income related
   'STABLE_INCOME',
@@ -155,6 +173,48 @@ export type DecisionMetadata = z.infer<typeof DecisionMetadataSchema>;
 // AFFORDABILITY DECISION RESPONSE
 // =============================================================================
 
+/**
+ * Installments due in one week of a new buy now, pay later plan.
+ */
+export const BnplWeekSchema = z.object({
+  week: z.number().int().positive(),
+  week_start: z.string(),
+  /** Installments already owed on existing plans */
+  existing_due: z.number(),
+  /** Installments of the new plan */
+  new_due: z.number(),
+  total_due: z.number(),
+  /** Plans with an installment due, counting the new one */
+  plans_due: z.number().int(),
+  /** Late fees if every installment due this week were missed */
+  late_fees_at_risk: z.number(),
+  over_capacity: z.boolean(),
+});
+
+/**
+ * A new buy now, pay later purchase stacked on existing plans' installments.
+ */
+export const BnplStackingSchema = z.object({
+  active_plans: z.number().int(),
+  new_installments: z.array(z.object({
+    installment: z.number().int().positive(),
+    due_date: z.string(),
+    amount: z.number(),
+    late_fee: z.number(),
+  })),
+  new_monthly_payment: z.number(),
+  /** Free cashflow per week before any installments */
+  weekly_capacity: z.number(),
+  weeks: z.array(BnplWeekSchema),
+  peak_week: z.number().int().positive(),
+  peak_week_due: z.number(),
+  stacked_weeks: z.number().int(),
+  late_fees_at_risk: z.number(),
+  stacking_risk: z.boolean(),
+});
+
+export type BnplStackingSummary = z.infer<typeof BnplStackingSchema>;
+
 /**
  * Response from the affordability decision endpoint.
  */
@@ -204,6 +264,9 @@ export const AffordabilityDecisionSchema = z.object({
     
     /** Credit utilization change (if using credit card) */
     credit_utilization_change: z.number().optional(),
+    
+    /** Installment stacking (if buy now, pay later) */
+    bnpl_stacking: BnplStackingSchema.optional(),
   }),
   
   /** Alternative purchase strategies */
@@ -224,6 +287,159 @@ export type AffordabilityDecision = z.infer<typeof AffordabilityDecisionSchema>;
 // DEBT PAYOFF PLAN RESPONSE
 // =============================================================================
 
+/**
+ * A promotional APR ending during the payoff plan.
+ */
+export const PromoCliffSchema = z.object({
+  debt_id: z.string(),
+  debt_name: z.string(),
+  month: z.number().int().positive(),
+  date: z.string(),
+  previous_apr: z.number(),
+  new_apr: z.number(),
+  balance_at_expiry: z.number(),
+});
+
+export type PromoCliff = z.infer<typeof PromoCliffSchema>;
+
+/**
+ * Projected outcome of one student loan repayment plan.
+ */
+export const StudentLoanPlanSummarySchema = z.object({
+  plan: z.enum(['standard', 'paye', 'ibr', 'icr']),
+  label: z.string(),
+  initial_monthly_payment: z.number(),
+  max_monthly_payment: z.number(),
+  total_months: z.number().int(),
+  total_paid: z.number(),
+  total_interest_paid: z.number(),
+  forgiven_balance: z.number(),
+  forgiveness_date: z.string().nullable(),
+});
+
+export type StudentLoanPlanSummary = z.infer<typeof StudentLoanPlanSummarySchema>;
+
+/**
+ * A debt whose balance grows on minimum payments.
+ */
+export const NegativeAmortizationSchema = z.object({
+  debt_id: z.string(),
+  debt_name: z.string(),
+  balance: z.number(),
+  minimum_payment: z.number(),
+  apr: z.number(),
+  monthly_interest: z.number(),
+  monthly_fees: z.number(),
+  monthly_growth: z.number(),
+  /** Smallest monthly payment that stops the balance growing */
+  break_even_payment: z.number(),
+  after_promotional_rate: z.boolean(),
+});
+
+export type NegativeAmortizationSummary = z.infer<typeof NegativeAmortizationSchema>;
+
+/**
+ * Payoff under a parallel move in every benchmark index.
+ */
+export const RateSensitivitySchema = z.object({
+  /** Index move in percentage points */
+  shock: z.number(),
+  total_months: z.number().int(),
+  paid_off: z.boolean(),
+  total_interest_paid: z.number(),
+  months_change: z.number().int(),
+  interest_change: z.number(),
+});
+
+export type RateSensitivitySummary = z.infer<typeof RateSensitivitySchema>;
+
+/**
+ * Cost of a payday or title loan under a payoff plan.
+ */
+export const RolloverLoanSchema = z.object({
+  debt_id: z.string(),
+  debt_name: z.string(),
+  term_days: z.number().int(),
+  /** Fee for one term at the starting balance */
+  fee_per_term: z.number(),
+  /** The per-term fee as a simple annual rate */
+  true_apr: z.number(),
+  /** The per-term fee compounded over a year of rollovers */
+  effective_annual_rate: z.number(),
+  /** Terms renewed after the first */
+  rollovers: z.number().int(),
+  fees_paid: z.number(),
+  paid_off: z.boolean(),
+});
+
+export type RolloverLoanSummary = z.infer<typeof RolloverLoanSchema>;
+
+/**
+ * Credit card utilization at the end of one month of the payoff plan.
+ */
+export const UtilizationMonthSchema = z.object({
+  /** 0 is today, before any payment */
+  month: z.number().int().nonnegative(),
+  date: z.string(),
+  total_balance: z.number(),
+  total_credit_limit: z.number(),
+  utilization: z.number(),
+  cards: z.array(z.object({
+    debt_id: z.string(),
+    debt_name: z.string(),
+    balance: z.number(),
+    credit_limit: z.number(),
+    utilization: z.number(),
+  })),
+  /** Estimated points against today (null without a score estimate) */
+  score_change: z.number().nullable(),
+  estimated_score: z.number().nullable(),
+  score_band: z.string().nullable(),
+});
+
+/**
+ * Credit card utilization along the recommended plan.
+ */
+export const CreditUtilizationSchema = z.object({
+  strategy: z.enum(['avalanche', 'snowball', 'hybrid', 'minimum_only', 'custom']),
+  starting_utilization: z.number(),
+  final_utilization: z.number(),
+  months: z.array(UtilizationMonthSchema),
+  /** Months where overall (debt_id null) or card utilization crossed a level */
+  threshold_crossings: z.array(z.object({
+    month: z.number().int().positive(),
+    date: z.string(),
+    debt_id: z.string().nullable(),
+    debt_name: z.string().nullable(),
+    threshold: z.enum(['excellent', 'good', 'elevated', 'high', 'critical']),
+    threshold_value: z.number(),
+    direction: z.enum(['below', 'above']),
+    utilization: z.number(),
+  })),
+  /** Score movement priced from utilization (null unless requested) */
+  score_estimate: z.object({
+    starting_score: z.number().nullable(),
+    starting_band: z.string().nullable(),
+    final_score_change: z.number(),
+    final_score: z.number().nullable(),
+    final_band: z.string().nullable(),
+    band_changes: z.array(z.object({
+      month: z.number().int().positive(),
+      date: z.string(),
+      from_band: z.string(),
+      to_band: z.string(),
+      estimated_score: z.number(),
+    })),
+    /** The points table the estimate used */
+    table: z.array(z.object({
+      max_utilization: z.number(),
+      points: z.number(),
+    })),
+  }).nullable(),
+});
+
+export type CreditUtilizationSummary = z.infer<typeof CreditUtilizationSchema>;
+
 /**
  * A single month in a debt payoff simulation.
  */
@@ -236,22 +452,88 @@ export const DebtPayoffMonthSchema = z.object({
     payment_amount: z.number(),
     principal_paid: z.number(),
     interest_paid: z.number(),
+    fees_charged: z.number().optional(),
+    fees_paid: z.number().optional(),
+    missed_payment: z.boolean().optional(),
     remaining_balance: z.number(),
   })),
   total_payment: z.number(),
+  total_fees_charged: z.number().optional(),
   total_remaining_debt: z.number(),
   debts_paid_off_this_month: z.array(z.string()),
+  extra_payment_applied: z.number().optional(),
+  one_time_payments_applied: z.number().optional(),
+  promotional_rate_expirations: z.array(PromoCliffSchema).optional(),
 });
 
 export type DebtPayoffMonth = z.infer<typeof DebtPayoffMonthSchema>;
 
+/**
+ * Payment columns summed over a schedule period or a whole schedule.
+ */
+const ScheduleTotalsSchema = z.object({
+  total_payment: z.number(),
+  total_principal_paid: z.number(),
+  total_interest_paid: z.number(),
+  total_fees_charged: z.number(),
+  one_time_payments_applied: z.number(),
+});
+
+/**
+ * Schedule months rolled up into a quarter or year.
+ */
+export const SchedulePeriodSchema = ScheduleTotalsSchema.extend({
+  period: z.number().int().positive(),
+  start_month: z.number().int().positive(),
+  end_month: z.number().int().positive(),
+  start_date: z.string(),
+  end_date: z.string(),
+  payments: z.array(z.object({
+    debt_id: z.string(),
+    debt_name: z.string(),
+    payment_amount: z.number(),
+    principal_paid: z.number(),
+    interest_paid: z.number(),
+    fees_charged: z.number(),
+    missed_payments: z.number().int(),
+    remaining_balance: z.number(),
+  })),
+  total_remaining_debt: z.number(),
+  debts_paid_off: z.array(z.string()),
+});
+
+export type SchedulePeriodSummary = z.infer<typeof SchedulePeriodSchema>;
+
+/**
+ * Where a page sits in the whole schedule.
+ */
+export const SchedulePageInfoSchema = z.object({
+  granularity: z.enum(['monthly', 'quarterly', 'yearly']),
+  /** Entries (months, quarters or years) in the whole schedule */
+  total_periods: z.number().int(),
+  /** Number of the first entry on this page */
+  first_period: z.number().int().positive(),
+  /** Pass as schedule_cursor for the next page (null on the last page) */
+  next_cursor: z.string().nullable(),
+  /** Totals over the whole schedule, not just this page */
+  totals: ScheduleTotalsSchema,
+});
+
+export type SchedulePageInfo = z.infer<typeof SchedulePageInfoSchema>;
+
 /**
  * Summary of a debt payoff strategy.
  */
 export const DebtStrategySummarySchema = z.object({
-  strategy_name: z.enum(['avalanche', 'snowball', 'hybrid', 'minimum_only']),
+  strategy_name: z.enum(['avalanche', 'snowball', 'hybrid', 'minimum_only', 'custom']),
+  strategy_description: z.string().optional(),
   total_months_to_payoff: z.number().int(),
   total_interest_paid: z.number(),
+  /** Tax saved on deductible interest (0 without the user's tax details) */
+  interest_tax_savings: z.number().optional(),
+  /** Interest net of the tax it saves */
+  after_tax_interest_paid: z.number().optional(),
+  total_fees_charged: z.number().optional(),
   total_amount_paid: z.number(),
   monthly_payment_required: z.number(),
   payoff_order: z.array(z.object({
@@ -277,17 +559,78 @@ export const DebtPayoffPlanSchema = z.object({
   /** Summary comparison of all strategies */
   strategy_comparison: z.array(DebtStrategySummarySchema),
   
-  /** Detailed month-by-month plan for recommended strategy */
+  /** Weights the hybrid strategy was scored with (normalized) */
+  hybrid_weights: z.object({
+    apr: z.number(),
+    balance: z.number(),
+    utilization: z.number(),
+    collections: z.number(),
+    fees: z.number(),
+  }).optional(),
+  
+  /** What the requested custom order costs compared with avalanche */
+  custom_order_cost: z.object({
+    extra_interest: z.number(),
+    extra_months: z.number().int(),
+  }).nullable().optional(),
+  
+  /** Detailed month-by-month plan for recommended strategy (monthly granularity) */
   monthly_schedule: z.array(DebtPayoffMonthSchema),
   
+  /** Quarterly or yearly rollups of the plan (quarterly and yearly granularity) */
+  schedule_periods: z.array(SchedulePeriodSchema).optional(),
+  
+  /** Position of this schedule page (null without a schedule) */
+  schedule_page: SchedulePageInfoSchema.nullable().optional(),
+  
+  /** Reason codes for conditions found in the debts */
+  reason_codes: z.array(ReasonCodeSchema).optional(),
+  
+  /** Debts whose balances grow on minimum payments */
+  negative_amortization: z.array(NegativeAmortizationSchema).optional(),
+  
+  /** Payday and title loan costs under the recommended plan */
+  rollover_loans: z.array(RolloverLoanSchema).optional(),
+  
+  /** Credit card utilization month by month (null without card limits or when not requested) */
+  credit_utilization: CreditUtilizationSchema.nullable().optional(),
+  
   /** Key metrics and insights */
   insights: z.object({
     potential_interest_savings: z.number(),
     debt_free_date: z.string(),
     highest_interest_debt: z.string(),
     quick_wins: z.array(z.string()),
+    promo_cliffs: z.array(PromoCliffSchema).optional(),
   }),
   
+  /** Interest and time saved by each one-time payment */
+  windfall_impact: z.array(z.object({
+    label: z.string(),
+    amount: z.number(),
+    date: z.string(),
+    month: z.number().int().positive(),
+    debt_id: z.string().nullable(),
+    interest_saved: z.number(),
+    months_saved: z.number().int(),
+  })).optional(),
+  
+  /** Payoff if variable rates run above or below their index paths (empty without variable-rate debts) */
+  rate_sensitivity: z.array(RateSensitivitySchema).optional(),
+  
+  /** Standard vs income-driven repayment for student loans (null without student loans) */
+  student_loan_repayment: z.object({
+    total_balance: z.number(),
+    weighted_apr: z.number(),
+    household_size: z.number().int(),
+    annual_income: z.number(),
+    poverty_guideline: z.number(),
+    standard: StudentLoanPlanSummarySchema,
+    income_driven: z.array(StudentLoanPlanSummarySchema),
+    lowest_total_cost: z.string(),
+    lowest_monthly_payment: z.string(),
+  }).nullable().optional(),
+  
   /** Human-readable explanation */
   explanation: z.string(),
   
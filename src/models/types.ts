@@ -47,12 +47,57 @@ export const DebtTypeSchema = z.enum([
   'mortgage',
   'medical_debt',
   'payday_loan',
+  'title_loan',
   'buy_now_pay_later',
   'other'
 ]);
 
 export type DebtType = z.infer<typeof DebtTypeSchema>;
 
+/**
+ * How interest accrues on a debt.
+ * - daily_compound: daily periodic rate (APR/365) compounded each day (revolving credit)
+ * - monthly_simple: APR/12 charged once per month (amortizing installment loans)
+ * - actual_365: simple daily interest on the actual days in the period
+ */
+export const InterestConventionSchema = z.enum([
+  'daily_compound',
+  'monthly_simple',
+  'actual_365'
+]);
+
+export type InterestConvention = z.infer<typeof InterestConventionSchema>;
+
+/**
+ * Benchmark rates that variable-rate debts float over.
+ */
+export const RateIndexSchema = z.enum([
+  'prime',
+  'sofr',
+  'treasury_1y'
+]);
+
+export type RateIndex = z.infer<typeof RateIndexSchema>;
+
+/**
+ * Fixed installment schedule of a buy now, pay later plan (pay-in-4, pay-in-N).
+ */
+export const InstallmentPlanSchema = z.object({
+  /** Amount due at each installment in dollars */
+  installment_amount: z.number().positive(),
+  
+  /** Installments still to pay */
+  remaining_installments: z.number().int().min(1).max(60),
+  
+  /** Due date of the next installment (ISO 8601) */
+  next_due_date: z.string().datetime(),
+  
+  /** Days between installments; defaults to 14 (pay-in-4 every two weeks) */
+  interval_days: z.number().int().min(7).max(31).optional(),
+});
+
+export type InstallmentPlan = z.infer<typeof InstallmentPlanSchema>;
+
 /**
  * A single debt account with all relevant details for calculations.
  */
@@ -86,6 +131,51 @@ export const DebtAccountSchema = z.object({
   
   /** APR after promotional period ends */
   post_promotional_apr: z.number().min(0).max(100).optional(),
+  
+  /** Whether this debt has been sent to collections */
+  in_collections: z.boolean().optional(),
+  
+  /** Annual fee charged on this account (e.g., card membership fee) */
+  annual_fee: z.number().nonnegative().optional(),
+  
+  /** Monthly maintenance or service fee */
+  monthly_fee: z.number().nonnegative().optional(),
+  
+  /** Calendar month (1-12) the annual fee posts; defaults to each 12th month from now */
+  annual_fee_month: z.number().int().min(1).max(12).optional(),
+  
+  /** One-time balance transfer fee in dollars */
+  balance_transfer_fee: z.number().nonnegative().optional(),
+  
+  /** Date the balance transfer fee posts (ISO 8601); defaults to the first month */
+  balance_transfer_date: z.string().datetime().optional(),
+  
+  /** Fee charged when a minimum payment is missed */
+  late_fee: z.number().nonnegative().optional(),
+  
+  /** APR applied after a missed minimum payment */
+  penalty_apr: z.number().min(0).max(100).optional(),
+  
+  /** Interest accrual convention (defaults by debt type) */
+  interest_convention: InterestConventionSchema.optional(),
+  
+  /** Benchmark index a variable APR floats over (fixed-rate if absent) */
+  rate_index: RateIndexSchema.optional(),
+  
+  /** Percentage points over the index; defaults to the current APR minus the index */
+  rate_margin: z.number().min(-20).max(50).optional(),
+  
+  /** Payday and title loans: finance charge per term, in dollars per $100 borrowed (replaces apr) */
+  term_fee_per_100: z.number().min(0).max(100).optional(),
+  
+  /** Payday and title loans: days until the balance is due or rolls over */
+  term_days: z.number().int().min(7).max(90).optional(),
+  
+  /** Buy now, pay later: remaining installments and their due dates (late_fee applies per missed installment) */
+  installment_plan: InstallmentPlanSchema.optional(),
+  
+  /** Day of the month the payment is due (schedule exports; past a short month's end, its last day) */
+  payment_due_day: z.number().int().min(1).max(31).optional(),
 });
 
 export type DebtAccount = z.infer<typeof DebtAccountSchema>;
@@ -185,6 +275,18 @@ export const ExpenseSchema = z.object({
 
 export type Expense = z.infer<typeof ExpenseSchema>;
 
+/**
+ * Federal income tax filing status.
+ */
+export const FilingStatusSchema = z.enum([
+  'single',
+  'married_joint',
+  'married_separate',
+  'head_of_household'
+]);
+
+export type FilingStatus = z.infer<typeof FilingStatusSchema>;
+
 // =============================================================================
 // USER FINANCIAL PROFILE
 // =============================================================================
@@ -247,6 +349,15 @@ export const UserFinancialProfileSchema = z.object({
     cost_of_living_index: z.number().optional(),
   }).optional(),
   
+  /** Tax situation, used to value deductible interest */
+  tax: z.object({
+    filing_status: FilingStatusSchema,
+    /** Federal marginal income tax rate as a percentage */
+    marginal_rate: z.number().min(0).max(60),
+    /** Whether the user itemizes deductions (mortgage interest needs it) */
+    itemizes: z.boolean().default(false),
+  }).optional(),
+  
   /** Custom metadata from client system */
   metadata: z.record(z.unknown()).optional(),
 });
@@ -329,6 +440,13 @@ export const PurchaseRequestSchema = z.object({
     term_months: z.number().int().positive(),
     down_payment: z.number().nonnegative().optional(),
   }).optional(),
+  
+  /** If buy now, pay later, what are the terms? (defaults to pay-in-4 every two weeks, first due at checkout) */
+  bnpl_terms: z.object({
+    installments: z.number().int().min(2).max(24).optional(),
+    interval_days: z.number().int().min(7).max(31).optional(),
+    late_fee: z.number().nonnegative().optional(),
+  }).optional(),
 });
 
 export type PurchaseRequest = z.infer<typeof PurchaseRequestSchema>;
@@ -156,6 +156,13 @@ export function isFuture(date: dayjs.Dayjs): boolean {
 // MONTH BOUNDARY FUNCTIONS
 // =============================================================================
 
+/**
+ * Get the start of the day.
+ */
+export function startOfDay(date: dayjs.Dayjs): dayjs.Dayjs {
+  return date.startOf('day');
+}
+
 /**
  * Get the first day of the month.
  */
@@ -143,6 +143,15 @@ export function aprToMonthlyRate(apr: number): number {
   return new Decimal(apr).dividedBy(100).dividedBy(12).toNumber();
 }
 
+/**
+ * Convert APR to daily periodic rate (actual/365).
+ * @param apr Annual Percentage Rate (e.g., 24.99)
+ * @returns Daily rate as decimal (e.g., 0.000685)
+ */
+export function aprToDailyRate(apr: number): number {
+  return new Decimal(apr).dividedBy(100).dividedBy(365).toNumber();
+}
+
 /**
  * Calculate monthly interest on a balance.
  * @param balance Current balance
@@ -223,6 +232,14 @@ export function round(amount: Money | number): Money {
   return amountMoney.toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
 }
 
+/**
+ * Round a plain-number amount to cents, for results the simulators have
+ * already computed in floating point.
+ */
+export function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
 /**
  * Round up to the nearest cent.
  */
@@ -0,0 +1,73 @@
+/**
+ * Obsidian Decision Engine - Seeded Random Numbers
+ *
+ * Deterministic pseudo-random numbers for stochastic simulations.
+ * The same seed always produces the same sequence, so any run can be
+ * replayed for audit. Not suitable for anything security-related.
+ *
+ * @module utils/random
+ */
+
+/**
+ * A seeded source of random numbers.
+ */
+export interface RandomSource {
+  /** Uniform in [0, 1) */
+  next(): number;
+  /** Standard normal (mean 0, standard deviation 1) */
+  normal(): number;
+  /** Exponential with the given mean */
+  exponential(mean: number): number;
+  /** True with the given probability */
+  chance(probability: number): boolean;
+}
+
+// =============================================================================
+// SEEDS
+// =============================================================================
+
+/**
+ * A fresh 32-bit seed, for runs where the caller didn't pick one.
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+/**
+ * Seed for one stream (e.g., one trial) derived from a run seed, so each
+ * stream can be replayed on its own.
+ */
+export function deriveSeed(seed: number, stream: number): number {
+  return (seed + Math.imul(stream + 1, 0x9e3779b9)) >>> 0;
+}
+
+// =============================================================================
+// GENERATOR
+// =============================================================================
+
+/**
+ * Create a seeded random source (mulberry32).
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+
+  return {
+    next,
+    normal: () => {
+      // Box-Muller; 1 - u keeps the log argument above zero
+      const u = 1 - next();
+      const v = next();
+      return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    },
+    exponential: (mean: number) => -mean * Math.log(1 - next()),
+    chance: (probability: number) => next() < probability,
+  };
+}
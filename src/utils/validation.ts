@@ -9,7 +9,7 @@
 
 import { z, ZodError, ZodSchema } from 'zod';
 import { INPUT_LIMITS } from '../config/limits.js';
-import type { UserFinancialProfile, PurchaseRequest } from '../models/types.js';
+import type { UserFinancialProfile, PurchaseRequest, DebtAccount } from '../models/types.js';
 
 // =============================================================================
 // VALIDATION RESULT TYPES
@@ -314,15 +314,7 @@ export function validateProfileConsistency(profile: {
  * Validate high-level input limits for a financial profile to avoid runaway payloads.
  */
 export function validateProfileLimits(profile: UserFinancialProfile): ValidationError[] {
-  const errors: ValidationError[] = [];
-  
-  if (profile.debts.length > INPUT_LIMITS.MAX_DEBT_ACCOUNTS) {
-    errors.push({
-      field: 'debts',
-      message: `Too many debt accounts (max ${INPUT_LIMITS.MAX_DEBT_ACCOUNTS})`,
-      code: 'too_many_debts',
-    });
-  }
+  const errors = validateDebtLimits(profile.debts);
   
   if (profile.monthly_income > INPUT_LIMITS.MAX_ANNUAL_INCOME / 12) {
     errors.push({
@@ -332,7 +324,24 @@ export function validateProfileLimits(profile: UserFinancialProfile): Validation
     });
   }
   
-  if (profile.debts.some((d) => d.balance > INPUT_LIMITS.MAX_DEBT_BALANCE)) {
+  return errors;
+}
+
+/**
+ * Validate debt list limits for requests that take debts without a profile.
+ */
+export function validateDebtLimits(debts: DebtAccount[]): ValidationError[] {
+  const errors: ValidationError[] = [];
+  
+  if (debts.length > INPUT_LIMITS.MAX_DEBT_ACCOUNTS) {
+    errors.push({
+      field: 'debts',
+      message: `Too many debt accounts (max ${INPUT_LIMITS.MAX_DEBT_ACCOUNTS})`,
+      code: 'too_many_debts',
+    });
+  }
+  
+  if (debts.some((d) => d.balance > INPUT_LIMITS.MAX_DEBT_BALANCE)) {
     errors.push({
       field: 'debts.balance',
       message: `One or more debts exceed maximum balance (${INPUT_LIMITS.MAX_DEBT_BALANCE})`,
@@ -367,3 +376,57 @@ export function validatePurchaseLimits(purchase: PurchaseRequest): ValidationErr
   
   return errors;
 }
+
+/**
+ * Validate that debt references in a request point at known debts.
+ * Debts without an id are addressed by their simulator default (`debt_<index>`).
+ */
+export function validateDebtReferences(
+  debtIds: Array<string | undefined>,
+  debts: DebtAccount[],
+  field: string
+): ValidationError[] {
+  const knownIds = new Set(debts.map((d, i) => d.id ?? `debt_${i}`));
+  const errors: ValidationError[] = [];
+  
+  debtIds.forEach((debtId, index) => {
+    if (debtId !== undefined && !knownIds.has(debtId)) {
+      errors.push({
+        field: `${field}[${index}].debt_id`,
+        message: `Unknown debt id "${debtId}"`,
+        code: 'unknown_debt_id',
+      });
+    }
+  });
+  
+  return errors;
+}
+
+/**
+ * Validate that ids a request introduces (such as balance transfer offers)
+ * don't reuse a debt id or each other. The simulator keys state by id, so a
+ * shared id would merge two accounts.
+ */
+export function validateNewIds(
+  ids: Array<string | undefined>,
+  debts: DebtAccount[],
+  field: string
+): ValidationError[] {
+  const usedIds = new Set(debts.map((d, i) => d.id ?? `debt_${i}`));
+  const errors: ValidationError[] = [];
+  
+  ids.forEach((id, index) => {
+    if (id === undefined) return;
+    
+    if (usedIds.has(id)) {
+      errors.push({
+        field: `${field}[${index}].id`,
+        message: `Id "${id}" is already used by a debt or another entry`,
+        code: 'duplicate_id',
+      });
+    }
+    usedIds.add(id);
+  });
+  
+  return errors;
+}
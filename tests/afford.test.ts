@@ -6,7 +6,10 @@
 
 import { describe, it, expect } from 'vitest';
 import { calculateAffordability, calculateMetrics } from '../src/core/affordability/affordCalculator.js';
-import type { UserFinancialProfile, PurchaseRequest } from '../src/models/types.js';
+import { analyzeBnplStacking } from '../src/core/affordability/bnplStacking.js';
+import { installmentSchedule } from '../src/core/debt/installmentPlans.js';
+import { now, addDays, toISO } from '../src/utils/dates.js';
+import type { UserFinancialProfile, PurchaseRequest, DebtAccount } from '../src/models/types.js';
 
 // =============================================================================
 // TEST DATA
@@ -257,3 +260,91 @@ describe('Rule evaluation', () => {
     expect(totalRules).toBeGreaterThan(0);
   });
 });
+
+// =============================================================================
+// BUY NOW, PAY LATER TESTS
+// =============================================================================
+
+describe('Buy now, pay later', () => {
+  const bnplPurchase: PurchaseRequest = {
+    amount: 400,
+    category: 'electronics',
+    payment_method: 'buy_now_pay_later',
+  };
+
+  const existingPlan = (id: string): DebtAccount => ({
+    id,
+    type: 'buy_now_pay_later',
+    balance: 180,
+    apr: 0,
+    installment_plan: {
+      installment_amount: 60,
+      remaining_installments: 3,
+      next_due_date: toISO(addDays(now(), 3)),
+    },
+  });
+
+  const stackedProfile: UserFinancialProfile = {
+    monthly_income: 3000,
+    monthly_fixed_expenses: 2500,
+    cash_balance: 2000,
+    debts: [existingPlan('klarna'), existingPlan('afterpay')],
+  };
+
+  it('should list remaining installments every interval, last one taking the remainder', () => {
+    const schedule = installmentSchedule({
+      type: 'buy_now_pay_later',
+      balance: 100,
+      apr: 0,
+      installment_plan: {
+        installment_amount: 33.33,
+        remaining_installments: 3,
+        next_due_date: '2026-03-01T00:00:00.000Z',
+        interval_days: 14,
+      },
+    });
+
+    expect(schedule.map((i) => i.dueDate)).toEqual(['2026-03-01', '2026-03-15', '2026-03-29']);
+    expect(schedule.map((i) => i.amount)).toEqual([33.33, 33.33, 33.34]);
+    expect(schedule[0]!.lateFee).toBeGreaterThan(0);
+  });
+
+  it('should split a new purchase into pay-in-4 with the first installment at checkout', () => {
+    const result = calculateAffordability(healthyProfile, bnplPurchase);
+    const stacking = result.impact.bnplStacking!;
+
+    expect(stacking.newInstallments.map((i) => i.amount)).toEqual([100, 100, 100, 100]);
+    expect(stacking.weeks).toHaveLength(7);
+    expect(result.impact.projectedCashBalance).toBe(19900);
+    expect(stacking.stackingRisk).toBe(false);
+    expect(result.reasonCodes).not.toContain('BNPL_STACKING');
+  });
+
+  it('should stack the new plan on installments already due in the same weeks', () => {
+    const stacking = analyzeBnplStacking(
+      stackedProfile,
+      bnplPurchase,
+      calculateMetrics(stackedProfile).monthlyCashflow
+    );
+
+    expect(stacking.activePlans).toBe(2);
+    expect(stacking.weeks[0]).toMatchObject({ existingDue: 120, newDue: 100, totalDue: 220, plansDue: 3 });
+    expect(stacking.weeks[0]!.overCapacity).toBe(true);
+    expect(stacking.stackingRisk).toBe(true);
+    expect(stacking.lateFeesAtRisk).toBeGreaterThan(0);
+  });
+
+  it('should flag stacking in the decision', () => {
+    const result = calculateAffordability(stackedProfile, bnplPurchase);
+    const rule = result.ruleEvaluation.rules.find((r) => r.ruleId === 'BNPL_STACKING')!;
+
+    expect(rule.passed).toBe(false);
+    expect(result.reasonCodes).toContain('BNPL_STACKING');
+  });
+
+  it('should not apply the stacking rule to other payment methods', () => {
+    const result = calculateAffordability(healthyProfile, mediumPurchase);
+
+    expect(result.impact.bnplStacking).toBeNull();
+  });
+});
@@ -7,15 +7,69 @@
 import { describe, it, expect } from 'vitest';
 import {
   simulateStrategy,
+  simulateStrategySummary,
   compareStrategies,
   generateDebtInsights,
+  analyzeWindfalls,
+  analyzeRateSensitivity,
+  detectNegativeAmortization,
 } from '../src/core/debt/debtSimulator.js';
 import {
   sortByAvalanche,
   sortBySnowball,
   sortByHybrid,
+  sortByCustomOrder,
+  resolveHybridWeights,
+  formatHybridWeights,
+  getStrategySorter,
 } from '../src/core/debt/payoffStrategies.js';
-import type { DebtAccount } from '../src/models/types.js';
+import {
+  solveRequiredExtraPayment,
+  solveAllStrategies,
+} from '../src/core/debt/payoffSolver.js';
+import {
+  compareStudentLoanPlans,
+  povertyGuideline,
+} from '../src/core/debt/incomeDrivenRepayment.js';
+import { evaluateBalanceTransfers } from '../src/core/debt/balanceTransfer.js';
+import { analyzeConsolidation } from '../src/core/debt/consolidation.js';
+import {
+  amortizeMortgage,
+  analyzePrepayment,
+  analyzeRefinance,
+  analyzeMortgage,
+} from '../src/core/debt/mortgage.js';
+import {
+  comparePayDownVsInvest,
+  percentileReturns,
+} from '../src/core/debt/payDownVsInvest.js';
+import { runMonteCarlo, runMonteCarloTrial } from '../src/core/debt/monteCarlo.js';
+import { resolveTaxProfile, calculateAfterTaxInterest } from '../src/core/debt/taxAdjustment.js';
+import { buildSensitivityCurve, buildExtraPaymentGrid, extraPaymentGridSize } from '../src/core/debt/sensitivityCurve.js';
+import {
+  analyzeRolloverCosts,
+  planRolloverExit,
+  rolloverApr,
+  rolloverEffectiveRate,
+} from '../src/core/debt/rolloverLoans.js';
+import { installmentPlanMinimumPayment } from '../src/core/debt/installmentPlans.js';
+import { analyzeHardshipOptions } from '../src/core/debt/hardshipOptions.js';
+import { buildUtilizationTrajectory } from '../src/core/debt/creditUtilization.js';
+import {
+  paymentDueDate,
+  scheduleToCsv,
+  scheduleToICalendar,
+} from '../src/core/debt/scheduleExport.js';
+import {
+  pageSchedule,
+  rollUpSchedule,
+  encodeScheduleCursor,
+  decodeScheduleCursor,
+} from '../src/core/debt/schedulePaging.js';
+import type { Mortgage } from '../src/core/debt/debtTypes.js';
+import type { DebtAccount, UserFinancialProfile } from '../src/models/types.js';
+import { now, parse, create, addMonths, addDays, daysInMonth, toDateString, toMonthYear } from '../src/utils/dates.js';
+import { createRandom, deriveSeed } from '../src/utils/random.js';
 
 // =============================================================================
 // TEST DATA
@@ -110,6 +164,83 @@ describe('Debt sorting strategies', () => {
       
       expect(sorted.length).toBe(1);
     });
+
+    it('should follow custom APR and balance weights', () => {
+      const byBalance = sortByHybrid(debtStates, { apr: 0, balance: 1 });
+      
+      expect(byBalance.map((d) => d.id)).toEqual(['cc2', 'cc1', 'loan1']);
+    });
+
+    it('should prioritize debts in collections when weighted', () => {
+      const states = debtStates.map((d) => ({ ...d, inCollections: d.id === 'loan1' }));
+      
+      expect(sortByHybrid(states)[0]?.id).not.toBe('loan1');
+      expect(sortByHybrid(states, { collections: 1 })[0]?.id).toBe('loan1');
+    });
+
+    it('should prioritize fuller cards when utilization is weighted', () => {
+      const sorted = sortByHybrid(debtStates, { apr: 0, balance: 0, utilization: 1 });
+      
+      expect(sorted[0]?.id).toBe('cc1'); // 50% utilized vs 17%
+    });
+
+    it('should prioritize accounts with fees when weighted', () => {
+      const states = debtStates.map((d) => ({ ...d, monthlyFee: d.id === 'loan1' ? 15 : 0 }));
+      
+      expect(sortByHybrid(states, { apr: 0, balance: 0, fees: 1 })[0]?.id).toBe('loan1');
+    });
+  });
+
+  describe('Hybrid weights', () => {
+    it('should normalize weights to sum to 1', () => {
+      const weights = resolveHybridWeights({ apr: 3, balance: 1 });
+      
+      expect(weights.apr).toBeCloseTo(0.75);
+      expect(weights.balance).toBeCloseTo(0.25);
+      expect(weights.utilization).toBe(0);
+    });
+
+    it('should fall back to defaults when all weights are zero', () => {
+      const weights = resolveHybridWeights({ apr: 0, balance: 0 });
+      
+      expect(weights.apr).toBeCloseTo(0.6);
+      expect(weights.balance).toBeCloseTo(0.4);
+    });
+
+    it('should describe the weights used', () => {
+      expect(formatHybridWeights(resolveHybridWeights({ apr: 1, collections: 1, balance: 0 })))
+        .toBe('APR 50%, collections 50%');
+    });
+
+    it('should report the weights in the strategy comparison', () => {
+      const comparison = compareStrategies(testDebts, 300, 360, {
+        hybridWeights: { apr: 0, balance: 1 },
+      });
+
+      expect(comparison.hybridWeights.balance).toBe(1);
+      expect(comparison.strategies.find((s) => s.strategy === 'hybrid')?.payoffOrder[0]?.debtId)
+        .toBe('cc2');
+    });
+  });
+
+  describe('Custom order', () => {
+    it('should follow the given order of debt ids', () => {
+      const sorted = sortByCustomOrder(debtStates, ['loan1', 'cc2', 'cc1']);
+      
+      expect(sorted.map((d) => d.id)).toEqual(['loan1', 'cc2', 'cc1']);
+    });
+
+    it('should place unlisted debts after listed ones in avalanche order', () => {
+      const sorted = sortByCustomOrder(debtStates, ['loan1']);
+      
+      expect(sorted.map((d) => d.id)).toEqual(['loan1', 'cc1', 'cc2']);
+    });
+
+    it('should be returned by getStrategySorter', () => {
+      const sorter = getStrategySorter('custom', { customOrder: ['cc2', 'loan1'] });
+      
+      expect(sorter(debtStates)[0]?.id).toBe('cc2');
+    });
   });
 });
 
@@ -306,3 +437,1756 @@ describe('Edge cases', () => {
     expect(result.totalMonths).toBe(1);
   });
 });
+
+// =============================================================================
+// PROMOTIONAL APR TESTS
+// =============================================================================
+
+describe('Promotional APR expiry', () => {
+  // Promo ends six months out (plus a day so month boundaries are stable)
+  const promoExpires = addDays(addMonths(now(), 6), 1).toISOString();
+  
+  const promoDebts: DebtAccount[] = [
+    {
+      id: 'promo',
+      type: 'credit_card',
+      name: 'Zero Percent Card',
+      balance: 6000,
+      apr: 0,
+      minimum_payment: 100,
+      is_promotional_rate: true,
+      promotional_rate_expires: promoExpires,
+      post_promotional_apr: 26.99,
+    },
+    {
+      id: 'card',
+      type: 'credit_card',
+      name: 'Regular Card',
+      balance: 4000,
+      apr: 19.99,
+      minimum_payment: 80,
+    },
+  ];
+
+  it('should charge no interest during the promo and the post-promo APR after', () => {
+    const result = simulateStrategy(promoDebts, 'minimum_only', 0, 12);
+    
+    const interestIn = (month: number) =>
+      result.schedule[month - 1]!.payments.find((p) => p.debtId === 'promo')!.interestPaid;
+    
+    expect(interestIn(6)).toBe(0);
+    expect(interestIn(7)).toBeGreaterThan(0);
+  });
+
+  it('should flag the promo cliff month and remaining balance', () => {
+    const result = simulateStrategy(promoDebts, 'minimum_only', 0, 12);
+    
+    expect(result.promoCliffs.length).toBe(1);
+    const cliff = result.promoCliffs[0]!;
+    expect(cliff.debtId).toBe('promo');
+    expect(cliff.month).toBe(7);
+    expect(cliff.previousApr).toBe(0);
+    expect(cliff.newApr).toBe(26.99);
+    // Six $100 minimums at 0% have been paid
+    expect(cliff.balanceAtExpiry).toBe(5400);
+    expect(result.schedule[6]!.promotionalRateExpirations).toEqual([cliff]);
+    expect(result.schedule[5]!.promotionalRateExpirations).toEqual([]);
+  });
+
+  it('should not flag a cliff for a promo debt paid off before expiry', () => {
+    const result = simulateStrategy(promoDebts, 'avalanche', 10000, 12);
+    
+    expect(result.promoCliffs.length).toBe(0);
+  });
+
+  it('should rank the promo debt by its post-promo APR as the cliff approaches', () => {
+    const result = simulateStrategy(promoDebts, 'avalanche', 300, 12);
+    
+    const extraTo = (month: number, debtId: string) => {
+      const payment = result.schedule[month - 1]!.payments.find((p) => p.debtId === debtId)!;
+      const minimum = promoDebts.find((d) => d.id === debtId)!.minimum_payment!;
+      return payment.paymentAmount - minimum;
+    };
+    
+    // Early on the 19.99% card is the avalanche target
+    expect(extraTo(1, 'card')).toBeGreaterThan(0);
+    expect(extraTo(1, 'promo')).toBe(0);
+    // Within the lookahead window the 26.99% post-promo APR wins
+    expect(extraTo(4, 'promo')).toBeGreaterThan(0);
+  });
+
+  it('should surface promo cliffs in insights', () => {
+    const comparison = compareStrategies(promoDebts, 0);
+    const insights = generateDebtInsights(promoDebts, comparison);
+    
+    expect(insights.promoCliffs.length).toBe(1);
+    expect(insights.promoCliffs[0]?.debtName).toBe('Zero Percent Card');
+  });
+});
+
+// =============================================================================
+// PAYOFF SOLVER TESTS
+// =============================================================================
+
+describe('Payoff solver', () => {
+  it('should find the smallest extra payment that meets a target date', () => {
+    const result = solveRequiredExtraPayment(testDebts, 'avalanche', { targetMonths: 24 });
+    
+    expect(result.achievable).toBe(true);
+    const extra = result.requiredExtraPayment!;
+    
+    expect(simulateStrategy(testDebts, 'avalanche', extra).totalMonths).toBeLessThanOrEqual(24);
+    expect(
+      simulateStrategy(testDebts, 'avalanche', Math.round((extra - 0.01) * 100) / 100).totalMonths
+    ).toBeGreaterThan(24);
+  });
+
+  it('should find the smallest extra payment that meets an interest cap', () => {
+    const result = solveRequiredExtraPayment(testDebts, 'snowball', { maxTotalInterest: 1500 });
+    
+    expect(result.achievable).toBe(true);
+    expect(result.totalInterestPaid).toBeLessThanOrEqual(1500);
+    
+    const cheaper = simulateStrategy(
+      testDebts,
+      'snowball',
+      Math.round((result.requiredExtraPayment! - 0.01) * 100) / 100
+    );
+    expect(cheaper.totalInterestPaid).toBeGreaterThan(1500);
+  });
+
+  it('should return zero when minimums already meet the target', () => {
+    const result = solveRequiredExtraPayment(testDebts, 'avalanche', { targetMonths: 360 });
+    
+    expect(result.requiredExtraPayment).toBe(0);
+  });
+
+  it('should report when no payment can reach the target', () => {
+    const result = solveRequiredExtraPayment(testDebts, 'avalanche', { maxTotalInterest: 10 });
+    
+    expect(result.achievable).toBe(false);
+    expect(result.requiredExtraPayment).toBeNull();
+    expect(result.reason).toBeDefined();
+  });
+
+  it('should solve every strategy that uses extra payments', () => {
+    const results = solveAllStrategies(testDebts, { targetMonths: 36 });
+    
+    expect(results.map((r) => r.strategy)).toEqual(['avalanche', 'snowball', 'hybrid']);
+    results.forEach((r) => expect(r.achievable).toBe(true));
+  });
+});
+
+// =============================================================================
+// ONE-TIME PAYMENT TESTS
+// =============================================================================
+
+describe('One-time payments', () => {
+  const inThreeMonths = addDays(addMonths(now(), 2), 1).toISOString();
+  
+  it('should apply a directed lump sum to the named debt in its month', () => {
+    const result = simulateStrategy(testDebts, 'avalanche', 0, 360, {
+      oneTimePayments: [{ amount: 1000, date: inThreeMonths, debt_id: 'loan1' }],
+    });
+    
+    const month3 = result.schedule[2]!;
+    const loanPayment = month3.payments.find((p) => p.debtId === 'loan1')!;
+    
+    expect(month3.oneTimePaymentsApplied).toBe(1000);
+    expect(loanPayment.paymentAmount).toBe(1200); // 200 minimum + 1000
+    expect(result.schedule[1]!.oneTimePaymentsApplied).toBe(0);
+  });
+
+  it('should spread an undirected lump sum by strategy', () => {
+    const result = simulateStrategy(testDebts, 'avalanche', 0, 360, {
+      oneTimePayments: [{ amount: 1000, date: inThreeMonths }],
+    });
+    
+    const ccPayment = result.schedule[2]!.payments.find((p) => p.debtId === 'cc1')!;
+    expect(ccPayment.paymentAmount).toBe(1100); // 100 minimum + 1000
+  });
+
+  it('should send overflow from a nearly paid debt to the strategy target', () => {
+    const result = simulateStrategy(testDebts, 'avalanche', 0, 360, {
+      oneTimePayments: [{ amount: 1000, date: now().toISOString(), debt_id: 'cc2' }],
+    });
+    
+    const month1 = result.schedule[0]!;
+    expect(month1.debtsPaidOffThisMonth).toContain('cc2');
+    expect(month1.payments.find((p) => p.debtId === 'cc1')!.paymentAmount).toBeGreaterThan(100);
+  });
+
+  it('should report only the part of a lump sum the debts can take', () => {
+    const result = simulateStrategy([testDebts[1]!], 'avalanche', 0, 360, {
+      oneTimePayments: [{ amount: 1000, date: now().toISOString(), debt_id: 'cc2' }],
+    });
+    
+    expect(result.totalMonths).toBe(1);
+    expect(result.schedule[0]!.oneTimePaymentsApplied).toBe(500);
+  });
+
+  it('should free the unused minimum of a debt a directed lump sum clears', () => {
+    const result = simulateStrategy(testDebts, 'avalanche', 0, 360, {
+      oneTimePayments: [{ amount: 500, date: now().toISOString(), debt_id: 'cc2' }],
+    });
+    
+    const month1 = result.schedule[0]!;
+    const cc2Payment = month1.payments.find((p) => p.debtId === 'cc2')!.paymentAmount;
+    const cc1Payment = month1.payments.find((p) => p.debtId === 'cc1')!.paymentAmount;
+    
+    expect(month1.debtsPaidOffThisMonth).toContain('cc2');
+    expect(month1.oneTimePaymentsApplied).toBe(500);
+    // cc2 takes the lump sum plus this month's interest; the rest of its
+    // $25 minimum goes to cc1
+    expect(cc1Payment).toBeCloseTo(100 + 25 - (cc2Payment - 500), 2);
+  });
+
+  it('should reduce interest and time compared with the plan without it', () => {
+    const without = simulateStrategy(testDebts, 'avalanche', 200);
+    const withLump = simulateStrategy(testDebts, 'avalanche', 200, 360, {
+      oneTimePayments: [{ amount: 3000, date: inThreeMonths }],
+    });
+    
+    expect(withLump.totalInterestPaid).toBeLessThan(without.totalInterestPaid);
+    expect(withLump.totalMonths).toBeLessThan(without.totalMonths);
+  });
+
+  it('should report savings per windfall', () => {
+    const impacts = analyzeWindfalls(testDebts, 'avalanche', 200, 360, {
+      oneTimePayments: [
+        { amount: 3000, date: inThreeMonths, label: 'Tax refund' },
+        { amount: 500, date: inThreeMonths, debt_id: 'loan1' },
+      ],
+    });
+    
+    expect(impacts.length).toBe(2);
+    expect(impacts[0]!.label).toBe('Tax refund');
+    expect(impacts[0]!.month).toBe(3);
+    expect(impacts[0]!.interestSaved).toBeGreaterThan(impacts[1]!.interestSaved);
+    expect(impacts[1]!.debtId).toBe('loan1');
+    impacts.forEach((impact) => expect(impact.interestSaved).toBeGreaterThan(0));
+  });
+
+  it('should leave the minimum-only baseline untouched', () => {
+    const plain = compareStrategies(testDebts, 200);
+    const withLump = compareStrategies(testDebts, 200, 360, {
+      oneTimePayments: [{ amount: 3000, date: inThreeMonths }],
+    });
+    
+    const baseline = (c: typeof plain) =>
+      c.strategies.find((s) => s.strategy === 'minimum_only')!.totalInterestPaid;
+    expect(baseline(withLump)).toBe(baseline(plain));
+  });
+});
+
+// =============================================================================
+// EXTRA PAYMENT SCHEDULE TESTS
+// =============================================================================
+
+describe('Extra payment schedule', () => {
+  it('should apply each step in its month range', () => {
+    const result = simulateStrategy(testDebts, 'avalanche', 100, 12, {
+      extraPaymentSchedule: [
+        { amount: 200, start_month: 1, end_month: 3 },
+        { amount: 0, start_month: 4, end_month: 6 },
+        { amount: 500, start_month: 7 },
+      ],
+    });
+    
+    const extraIn = (month: number) => result.schedule[month - 1]!.extraPaymentApplied;
+    expect(extraIn(1)).toBe(200);
+    expect(extraIn(3)).toBe(200);
+    expect(extraIn(5)).toBe(0);
+    expect(extraIn(8)).toBeGreaterThanOrEqual(500);
+  });
+
+  it('should fall back to the flat extra payment outside every step', () => {
+    const result = simulateStrategy(testDebts, 'avalanche', 150, 6, {
+      extraPaymentSchedule: [{ amount: 400, start_month: 3, end_month: 4 }],
+    });
+    
+    expect(result.schedule[0]!.extraPaymentApplied).toBe(150);
+    expect(result.schedule[2]!.extraPaymentApplied).toBe(400);
+    expect(result.schedule[4]!.extraPaymentApplied).toBe(150);
+  });
+
+  it('should let later steps override earlier ones', () => {
+    const result = simulateStrategy(testDebts, 'avalanche', 0, 6, {
+      extraPaymentSchedule: [
+        { amount: 300 },
+        { amount: 50, start_month: 2, end_month: 2 },
+      ],
+    });
+    
+    expect(result.schedule[0]!.extraPaymentApplied).toBe(300);
+    expect(result.schedule[1]!.extraPaymentApplied).toBe(50);
+  });
+
+  it('should resolve date ranges to simulation months', () => {
+    const result = simulateStrategy(testDebts, 'avalanche', 0, 6, {
+      extraPaymentSchedule: [{
+        amount: 250,
+        start_date: addDays(addMonths(now(), 2), 1).toISOString(),
+        end_date: addDays(addMonths(now(), 3), 1).toISOString(),
+      }],
+    });
+    
+    expect(result.schedule[1]!.extraPaymentApplied).toBe(0);
+    expect(result.schedule[2]!.extraPaymentApplied).toBe(250);
+    expect(result.schedule[3]!.extraPaymentApplied).toBe(250);
+    expect(result.schedule[4]!.extraPaymentApplied).toBe(0);
+  });
+
+  it('should be honored by compareStrategies but not the minimum-only baseline', () => {
+    const schedule = { extraPaymentSchedule: [{ amount: 600, start_month: 1 }] };
+    const flat = compareStrategies(testDebts, 100);
+    const stepped = compareStrategies(testDebts, 100, 360, schedule);
+    
+    const months = (c: typeof flat, strategy: string) =>
+      c.strategies.find((s) => s.strategy === strategy)!.totalMonths;
+    
+    expect(months(stepped, 'avalanche')).toBeLessThan(months(flat, 'avalanche'));
+    expect(months(stepped, 'minimum_only')).toBe(months(flat, 'minimum_only'));
+  });
+});
+
+// =============================================================================
+// CUSTOM STRATEGY TESTS
+// =============================================================================
+
+describe('Custom strategy', () => {
+  it('should direct extra payments to the first debt in the custom order', () => {
+    const result = simulateStrategy(testDebts, 'custom', 300, 360, {
+      customOrder: ['loan1', 'cc1', 'cc2'],
+    });
+    
+    const loanPayment = result.schedule[0]!.payments.find((p) => p.debtId === 'loan1')!;
+    expect(loanPayment.paymentAmount).toBe(500); // 200 minimum + 300
+    expect(result.payoffOrder[0]?.debtId).toBe('loan1');
+  });
+
+  it('should be compared against avalanche when a custom order is given', () => {
+    const comparison = compareStrategies(testDebts, 300, 360, {
+      customOrder: ['loan1', 'cc1', 'cc2'],
+    });
+    
+    expect(comparison.strategies.map((s) => s.strategy)).toContain('custom');
+    expect(comparison.customOrderCost).not.toBeNull();
+    expect(comparison.customOrderCost!.extraInterest).toBeGreaterThan(0);
+  });
+
+  it('should not be compared when no custom order is given', () => {
+    const comparison = compareStrategies(testDebts, 300);
+    
+    expect(comparison.strategies.map((s) => s.strategy)).not.toContain('custom');
+    expect(comparison.customOrderCost).toBeNull();
+  });
+});
+
+// =============================================================================
+// INTEREST CONVENTION TESTS
+// =============================================================================
+
+describe('Interest conventions', () => {
+  const days = daysInMonth(now());
+  const firstMonthInterest = (debt: DebtAccount) =>
+    simulateStrategy([debt], 'avalanche', 0, 1).schedule[0]!.payments[0]!.interestPaid;
+  
+  it('should compound the daily periodic rate on credit cards', () => {
+    const interest = firstMonthInterest({
+      id: 'card', type: 'credit_card', balance: 1000, apr: 18, minimum_payment: 500,
+    });
+    
+    const expected = 1000 * (Math.pow(1 + 0.18 / 365, days) - 1);
+    expect(interest).toBeCloseTo(expected, 2);
+  });
+
+  it('should charge simple daily interest on student loans', () => {
+    const interest = firstMonthInterest({
+      id: 'student', type: 'student_loan', balance: 1000, apr: 18, minimum_payment: 500,
+    });
+    
+    expect(interest).toBeCloseTo((1000 * 0.18 * days) / 365, 2);
+  });
+
+  it('should charge APR/12 on installment loans', () => {
+    const interest = firstMonthInterest({
+      id: 'auto', type: 'auto_loan', balance: 1000, apr: 18, minimum_payment: 500,
+    });
+    
+    expect(interest).toBe(15);
+  });
+
+  it('should honor an explicit interest convention', () => {
+    const interest = firstMonthInterest({
+      id: 'card', type: 'credit_card', balance: 1000, apr: 18, minimum_payment: 500,
+      interest_convention: 'monthly_simple',
+    });
+    
+    expect(interest).toBe(15);
+  });
+});
+
+// =============================================================================
+// FEE TESTS
+// =============================================================================
+
+describe('Fees', () => {
+  const loan: DebtAccount = {
+    id: 'loan', type: 'personal_loan', balance: 1200, apr: 0, minimum_payment: 100,
+  };
+  
+  it('should add monthly fees to the balance and report them per month', () => {
+    const result = simulateStrategy([{ ...loan, monthly_fee: 5 }], 'avalanche', 0);
+    const first = result.schedule[0]!;
+    
+    expect(first.payments[0]!.feesCharged).toBe(5);
+    expect(first.payments[0]!.feesPaid).toBe(5);
+    expect(first.payments[0]!.principalPaid).toBe(95);
+    expect(first.totalFeesCharged).toBe(5);
+    expect(result.totalFeesCharged).toBe(5 * result.totalMonths);
+  });
+
+  it('should include fees in the total amount paid', () => {
+    const result = simulateStrategy([{ ...loan, monthly_fee: 5 }], 'avalanche', 0);
+    
+    expect(result.totalAmountPaid).toBeCloseTo(1200 + result.totalFeesCharged, 2);
+  });
+
+  it('should charge the annual fee every twelfth month by default', () => {
+    const result = simulateStrategy([{ ...loan, annual_fee: 95 }], 'avalanche', 0);
+    
+    expect(result.schedule[10]!.totalFeesCharged).toBe(0);
+    expect(result.schedule[11]!.totalFeesCharged).toBe(95);
+  });
+
+  it('should charge the annual fee in its calendar month', () => {
+    const feeMonth = addMonths(now(), 2).month() + 1;
+    const result = simulateStrategy(
+      [{ ...loan, annual_fee: 95, annual_fee_month: feeMonth }],
+      'avalanche',
+      0
+    );
+    
+    expect(result.schedule[2]!.totalFeesCharged).toBe(95);
+    expect(result.schedule.filter((m) => m.totalFeesCharged > 0).length).toBe(1);
+  });
+
+  it('should charge a balance transfer fee once', () => {
+    const result = simulateStrategy([{ ...loan, balance_transfer_fee: 36 }], 'avalanche', 0);
+    
+    expect(result.schedule[0]!.totalFeesCharged).toBe(36);
+    expect(result.totalFeesCharged).toBe(36);
+  });
+
+  describe('Missed payments', () => {
+    const card: DebtAccount = {
+      id: 'card', type: 'credit_card', balance: 2000, apr: 12, minimum_payment: 100,
+      penalty_apr: 29.99, interest_convention: 'monthly_simple',
+    };
+    
+    it('should skip the payment and charge a late fee', () => {
+      const result = simulateStrategy([card], 'avalanche', 0, 360, {
+        missedPayments: [{ month: 2 }],
+      });
+      const missed = result.schedule[1]!.payments[0]!;
+      
+      expect(missed.missedPayment).toBe(true);
+      expect(missed.paymentAmount).toBe(0);
+      expect(missed.feesCharged).toBe(30);
+    });
+
+    it('should apply the penalty APR until enough on-time payments cure it', () => {
+      const result = simulateStrategy([card], 'avalanche', 0, 360, {
+        missedPayments: [{ month: 1, debt_id: 'card' }],
+      });
+      
+      expect(result.schedule[0]!.debts[0]!.apr).toBe(29.99);
+      expect(result.schedule[5]!.debts[0]!.apr).toBe(29.99);
+      expect(result.schedule[6]!.debts[0]!.apr).toBe(12);
+    });
+
+    it('should cost more than paying on time', () => {
+      const onTime = simulateStrategy([card], 'avalanche', 0);
+      const stressed = simulateStrategy([card], 'avalanche', 0, 360, {
+        missedPayments: [{ month: 3 }],
+      });
+      
+      expect(stressed.totalInterestPaid).toBeGreaterThan(onTime.totalInterestPaid);
+      expect(stressed.totalFeesCharged).toBe(30);
+    });
+  });
+});
+
+// =============================================================================
+// INCOME-DRIVEN REPAYMENT TESTS
+// =============================================================================
+
+describe('Income-driven repayment', () => {
+  const studentLoan: DebtAccount = {
+    id: 'student', type: 'student_loan', balance: 40000, apr: 6,
+  };
+  
+  it('should scale the poverty guideline with household size', () => {
+    expect(povertyGuideline(1)).toBe(15060);
+    expect(povertyGuideline(3)).toBe(15060 + 2 * 5380);
+  });
+
+  it('should return null without student loans', () => {
+    expect(compareStudentLoanPlans(testDebts, { monthlyIncome: 5000 })).toBeNull();
+  });
+
+  it('should pay off the standard plan in ten years without forgiveness', () => {
+    const comparison = compareStudentLoanPlans([studentLoan], { monthlyIncome: 5000 })!;
+    
+    expect(comparison.standard.totalMonths).toBeLessThanOrEqual(121);
+    expect(comparison.standard.forgivenBalance).toBe(0);
+    expect(comparison.standard.totalPaid).toBeGreaterThan(40000);
+  });
+
+  it('should charge a share of discretionary income', () => {
+    const comparison = compareStudentLoanPlans([studentLoan], { monthlyIncome: 4000 })!;
+    const paye = comparison.incomeDriven.find((p) => p.plan === 'paye')!;
+    
+    // 10% of (48,000 - 1.5 * 15,060) / 12
+    expect(paye.initialMonthlyPayment).toBeCloseTo((0.1 * (48000 - 1.5 * 15060)) / 12, 2);
+  });
+
+  it('should lower payments for households with dependents', () => {
+    const single = compareStudentLoanPlans([studentLoan], { monthlyIncome: 4000 })!;
+    const family = compareStudentLoanPlans([studentLoan], { monthlyIncome: 4000, dependents: 2 })!;
+    
+    expect(family.householdSize).toBe(3);
+    expect(family.incomeDriven[0]!.initialMonthlyPayment)
+      .toBeLessThan(single.incomeDriven[0]!.initialMonthlyPayment);
+  });
+
+  it('should raise payments at recertification as income grows', () => {
+    const comparison = compareStudentLoanPlans([studentLoan], { monthlyIncome: 4000 })!;
+    const ibr = comparison.incomeDriven.find((p) => p.plan === 'ibr')!;
+    
+    expect(ibr.maxMonthlyPayment).toBeGreaterThan(ibr.initialMonthlyPayment);
+  });
+
+  it('should forgive the remaining balance for low incomes', () => {
+    const comparison = compareStudentLoanPlans([studentLoan], { monthlyIncome: 1500 })!;
+    const paye = comparison.incomeDriven.find((p) => p.plan === 'paye')!;
+    
+    expect(paye.initialMonthlyPayment).toBe(0);
+    expect(paye.totalMonths).toBe(240);
+    expect(paye.forgivenBalance).toBeGreaterThan(40000);
+    expect(paye.forgivenessDate).not.toBeNull();
+    expect(comparison.lowestMonthlyPayment).not.toBe('standard');
+  });
+
+  it('should cap capped plans at the standard payment', () => {
+    const comparison = compareStudentLoanPlans([studentLoan], { monthlyIncome: 20000 })!;
+    const paye = comparison.incomeDriven.find((p) => p.plan === 'paye')!;
+    const icr = comparison.incomeDriven.find((p) => p.plan === 'icr')!;
+    
+    expect(paye.initialMonthlyPayment).toBe(comparison.standard.initialMonthlyPayment);
+    expect(icr.initialMonthlyPayment).toBeGreaterThan(comparison.standard.initialMonthlyPayment);
+  });
+});
+
+// =============================================================================
+// NEGATIVE AMORTIZATION TESTS
+// =============================================================================
+
+describe('Negative amortization', () => {
+  const underwater: DebtAccount = {
+    id: 'card', type: 'credit_card', balance: 10000, apr: 24, minimum_payment: 150,
+  };
+  
+  it('should detect a minimum payment below monthly interest', () => {
+    const [growing] = detectNegativeAmortization([underwater]);
+    
+    expect(growing?.debtId).toBe('card');
+    expect(growing!.breakEvenPayment).toBeGreaterThan(150);
+    expect(growing!.monthlyGrowth).toBeCloseTo(growing!.breakEvenPayment - 150, 2);
+    expect(growing!.afterPromotionalRate).toBe(false);
+  });
+
+  it('should report a break-even payment that stops the balance growing', () => {
+    const [growing] = detectNegativeAmortization([underwater]);
+    const result = simulateStrategy(
+      [{ ...underwater, minimum_payment: growing!.breakEvenPayment }],
+      'minimum_only',
+      0,
+      12
+    );
+    
+    result.schedule.forEach((m) => {
+      expect(m.totalRemainingDebt).toBeLessThanOrEqual(10000);
+    });
+  });
+
+  it('should include recurring fees', () => {
+    const [growing] = detectNegativeAmortization([
+      { id: 'loan', type: 'personal_loan', balance: 1000, apr: 0, minimum_payment: 5, monthly_fee: 10 },
+    ]);
+    
+    expect(growing?.breakEvenPayment).toBe(10);
+  });
+
+  it('should flag growth that starts when a promotional rate ends', () => {
+    const [growing] = detectNegativeAmortization([{
+      ...underwater,
+      apr: 0,
+      is_promotional_rate: true,
+      promotional_rate_expires: addMonths(now(), 6).toISOString(),
+      post_promotional_apr: 24,
+    }]);
+    
+    expect(growing?.afterPromotionalRate).toBe(true);
+    expect(growing?.apr).toBe(24);
+  });
+
+  it('should only flag debts whose minimum falls short', () => {
+    // cc1: $100 minimum vs ~$106 of interest in a 31-day month
+    expect(detectNegativeAmortization(testDebts).map((d) => d.debtId)).toEqual(['cc1']);
+  });
+});
+
+// =============================================================================
+// BALANCE TRANSFER TESTS
+// =============================================================================
+
+describe('Balance transfer evaluator', () => {
+  const debts: DebtAccount[] = [
+    { id: 'card', type: 'credit_card', balance: 6000, apr: 26.99, minimum_payment: 180 },
+    { id: 'car', type: 'auto_loan', balance: 12000, apr: 7, minimum_payment: 300 },
+  ];
+  const offer = {
+    id: 'bt', intro_apr: 0, intro_months: 18, transfer_fee_percent: 3, go_to_apr: 24.99,
+    credit_limit: 10000,
+  };
+  
+  it('should move high-APR card balances and save money net of fees', () => {
+    const evaluation = evaluateBalanceTransfers(debts, [offer], 200);
+    
+    expect(evaluation.moves).toEqual([
+      expect.objectContaining({ offerId: 'bt', debtId: 'card', amount: 6000, fee: 180 }),
+    ]);
+    expect(evaluation.transferFees).toBe(180);
+    expect(evaluation.netSavings).toBeGreaterThan(0);
+    expect(evaluation.recommended).toBe(true);
+  });
+
+  it('should keep the monthly payment the same on both paths', () => {
+    const evaluation = evaluateBalanceTransfers(debts, [offer], 200);
+    
+    expect(evaluation.withTransfer.monthlyPaymentRequired)
+      .toBeCloseTo(evaluation.baseline.monthlyPaymentRequired, 2);
+  });
+
+  it('should report the payoff pace needed before the promo ends', () => {
+    const [result] = evaluateBalanceTransfers(debts, [offer], 200).offers;
+    
+    expect(result!.requiredMonthlyPayment).toBeCloseTo(6180 / 18, 2);
+  });
+
+  it('should flag a balance left when the promo ends', () => {
+    const [result] = evaluateBalanceTransfers(debts, [offer], 0).offers;
+    
+    expect(result!.clearedBeforePromoEnds).toBe(false);
+    expect(result!.balanceAtPromoEnd).toBeGreaterThan(0);
+  });
+
+  it('should respect the credit limit including fees', () => {
+    const evaluation = evaluateBalanceTransfers(debts, [{ ...offer, credit_limit: 3090 }], 200);
+    const moved = evaluation.moves[0]!;
+    
+    expect(moved.amount + moved.fee).toBeLessThanOrEqual(3090);
+    expect(moved.amount).toBeCloseTo(3000, 0);
+  });
+
+  it('should leave secured loans and low-APR balances alone', () => {
+    const evaluation = evaluateBalanceTransfers(debts, [{ ...offer, credit_limit: 50000 }], 200);
+    
+    expect(evaluation.moves.map((m) => m.debtId)).toEqual(['card']);
+  });
+
+  it('should not recommend offers whose fee outweighs the savings', () => {
+    const evaluation = evaluateBalanceTransfers(
+      debts,
+      [{ ...offer, intro_months: 3, transfer_fee_percent: 10 }],
+      200
+    );
+    
+    expect(evaluation.moves).toEqual([]);
+    expect(evaluation.recommended).toBe(false);
+    expect(evaluation.netSavings).toBe(0);
+  });
+
+  it('should keep an unnamed offer apart from a debt with the same default id', () => {
+    const cards: DebtAccount[] = [
+      { id: 'transfer_0', type: 'credit_card', balance: 6000, apr: 26.99, minimum_payment: 180 },
+    ];
+    const { id: _, ...unnamed } = offer;
+    const evaluation = evaluateBalanceTransfers(cards, [unnamed], 200);
+    const offerId = evaluation.offers[0]!.offerId;
+    
+    expect(offerId).not.toBe('transfer_0');
+    expect(evaluation.moves).toEqual([
+      expect.objectContaining({ offerId, debtId: 'transfer_0', amount: 6000 }),
+    ]);
+    expect(evaluation.withTransfer.payoffOrder.map((p) => p.debtId))
+      .toEqual([offerId]);
+  });
+});
+
+// =============================================================================
+// CONSOLIDATION TESTS
+// =============================================================================
+
+describe('Consolidation loan analysis', () => {
+  const debts: DebtAccount[] = [
+    { id: 'card1', type: 'credit_card', balance: 8000, apr: 27.99, minimum_payment: 240 },
+    { id: 'card2', type: 'credit_card', balance: 4000, apr: 22.99, minimum_payment: 120 },
+    { id: 'car', type: 'auto_loan', balance: 15000, apr: 6, minimum_payment: 350 },
+  ];
+  
+  it('should recommend a cheaper loan and find its break-even month', () => {
+    const analysis = analyzeConsolidation(
+      debts,
+      { apr: 9.99, term_months: 36, origination_fee_percent: 3 },
+      ['card1', 'card2'],
+      100
+    );
+    
+    expect(analysis.consolidatedBalance).toBe(12000);
+    expect(analysis.loanPrincipal).toBeCloseTo(12000 / 0.97, 2);
+    expect(analysis.originationFee).toBeCloseTo(analysis.loanPrincipal - 12000, 2);
+    expect(analysis.totalCostDifference).toBeLessThan(0);
+    expect(analysis.breakEvenMonth).not.toBeNull();
+    expect(analysis.breakEvenMonth!).toBeGreaterThan(1); // Fee must be earned back first
+    expect(analysis.decision).toBe('YES');
+    expect(analysis.reasonCodes).toContain('CONSOLIDATION_SAVES_MONEY');
+  });
+
+  it('should report the monthly payment change', () => {
+    const analysis = analyzeConsolidation(
+      debts,
+      { apr: 9.99, term_months: 60, origination_fee_percent: 0 },
+      ['card1', 'card2']
+    );
+    
+    expect(analysis.currentMonthlyPayment).toBe(710);
+    expect(analysis.monthlyPaymentChange)
+      .toBeCloseTo(analysis.loanPayment - 360, 2);
+  });
+
+  it('should keep the current debts when the loan costs more', () => {
+    const analysis = analyzeConsolidation(
+      debts,
+      { apr: 12, term_months: 120, origination_fee_percent: 8 },
+      ['car']
+    );
+    
+    expect(analysis.totalCostDifference).toBeGreaterThan(0);
+    expect(analysis.breakEvenMonth).toBeNull();
+    expect(analysis.decision).not.toBe('YES');
+    expect(analysis.reasonCodes).toContain('CONSOLIDATION_COSTS_MORE');
+  });
+
+  it('should flag lower payments that cost more overall as conditional', () => {
+    const analysis = analyzeConsolidation(
+      debts,
+      { apr: 19.99, term_months: 84, origination_fee_percent: 5 },
+      ['card1', 'card2']
+    );
+    
+    expect(analysis.monthlyPaymentChange).toBeLessThan(0);
+    expect(analysis.decision).toBe('CONDITIONAL');
+    expect(analysis.reasonCodes).toEqual(expect.arrayContaining([
+      'CONSOLIDATION_COSTS_MORE',
+      'CONSOLIDATION_LOWERS_PAYMENT',
+    ]));
+  });
+});
+
+describe('Mortgage analysis', () => {
+  const mortgage: Mortgage = {
+    balance: 300000,
+    apr: 6.5,
+    remaining_term_months: 360,
+    home_value: 340000,
+    pmi_rate: 0.5,
+    property_tax_annual: 4800,
+    insurance_annual: 1500,
+  };
+  
+  it('should fully amortize the loan over its remaining term', () => {
+    const amortization = amortizeMortgage(mortgage);
+    
+    expect(amortization.principalAndInterest).toBeCloseTo(1896.20, 2);
+    expect(amortization.monthlyEscrow).toBe(525);
+    expect(amortization.totalMonths).toBe(360);
+    expect(amortization.schedule[359].endingBalance).toBe(0);
+    
+    const principalPaid = amortization.schedule.reduce((sum, m) => sum + m.principal, 0);
+    expect(principalPaid).toBeCloseTo(300000, 0);
+    expect(amortization.totalInterestPaid).toBeCloseTo(1896.20 * 360 - 300000, -2);
+  });
+  
+  it('should drop PMI once the balance reaches 78% of the original value', () => {
+    const amortization = amortizeMortgage(mortgage);
+    const dropOff = amortization.pmiDropOffMonth!;
+    
+    expect(amortization.initialMonthlyPmi).toBe(125);
+    expect(amortization.initialTotalPayment).toBeCloseTo(1896.20 + 525 + 125, 2);
+    expect(dropOff).toBeGreaterThan(1);
+    expect(amortization.schedule[dropOff - 2].pmi).toBe(125);
+    expect(amortization.schedule[dropOff - 2].endingBalance).toBeLessThanOrEqual(340000 * 0.78);
+    expect(amortization.schedule[dropOff - 3].endingBalance).toBeGreaterThan(340000 * 0.78);
+    expect(amortization.schedule[dropOff - 1].pmi).toBe(0);
+    expect(amortization.totalPmiPaid).toBe(125 * (dropOff - 1));
+  });
+  
+  it('should not charge PMI without a premium', () => {
+    const amortization = amortizeMortgage({ ...mortgage, pmi_rate: 0 });
+    
+    expect(amortization.totalPmiPaid).toBe(0);
+    expect(amortization.pmiDropOffMonth).toBeNull();
+  });
+  
+  it('should save interest and drop PMI sooner with extra principal', () => {
+    const result = analyzePrepayment(mortgage, 300);
+    
+    expect(result.interestSaved).toBeGreaterThan(0);
+    expect(result.monthsSaved).toBeGreaterThan(0);
+    expect(result.pmiMonthsSooner).toBeGreaterThan(0);
+    expect(result.pmiSaved).toBe(125 * result.pmiMonthsSooner);
+    expect(result.amortization.schedule[0].extraPrincipal).toBe(300);
+  });
+  
+  it('should break even on a lower-rate refinance', () => {
+    const refinance = analyzeRefinance(mortgage, {
+      apr: 5.5,
+      term_months: 360,
+      closing_costs: 6000,
+      finance_closing_costs: false,
+    });
+    
+    expect(refinance.monthlyPaymentChange).toBeLessThan(0);
+    expect(refinance.totalCostDifference).toBeLessThan(0);
+    expect(refinance.breakEvenMonth).not.toBeNull();
+    expect(refinance.breakEvenMonth!).toBeGreaterThan(12);
+    expect(refinance.cashToClose).toBe(6000);
+    expect(refinance.recommended).toBe(true);
+  });
+  
+  it('should flag a refinance that lowers the payment but restarts the term', () => {
+    const seasoned: Mortgage = { ...mortgage, remaining_term_months: 240, pmi_rate: 0 };
+    const refinance = analyzeRefinance(seasoned, {
+      apr: 6,
+      term_months: 360,
+      closing_costs: 5000,
+      finance_closing_costs: false,
+    });
+    
+    expect(refinance.monthlyPaymentChange).toBeLessThan(0);
+    expect(refinance.monthsDifference).toBe(120);
+    expect(refinance.totalCostDifference).toBeGreaterThan(0);
+    expect(refinance.recommended).toBe(false);
+  });
+  
+  it('should roll financed closing costs into the new loan', () => {
+    const refinance = analyzeRefinance({ ...mortgage, home_value: 500000 }, {
+      apr: 5.5,
+      term_months: 360,
+      closing_costs: 6000,
+      finance_closing_costs: true,
+    });
+    
+    expect(refinance.newPrincipal).toBe(306000);
+    expect(refinance.cashToClose).toBe(0);
+    // Well under 80% of the current value, so the new loan needs no PMI
+    expect(refinance.amortization.totalPmiPaid).toBe(0);
+  });
+  
+  it('should only analyze prepayment and refinance when requested', () => {
+    const analysis = analyzeMortgage(mortgage);
+    
+    expect(analysis.current.totalMonths).toBe(360);
+    expect(analysis.prepayment).toBeNull();
+    expect(analysis.refinance).toBeNull();
+  });
+});
+
+describe('Pay down vs invest', () => {
+  const card: DebtAccount = {
+    id: 'card',
+    type: 'credit_card',
+    balance: 5000,
+    apr: 22.99,
+    minimum_payment: 150,
+  };
+  const studentLoan: DebtAccount = {
+    id: 'student',
+    type: 'student_loan',
+    balance: 20000,
+    apr: 4,
+    minimum_payment: 250,
+  };
+  
+  it('should pay down high-interest debt before investing', () => {
+    const comparison = comparePayDownVsInvest([card], 10000, 500, { expectedReturn: 7 });
+    
+    expect(comparison.recommendation).toBe('pay_down');
+    expect(comparison.netWorthDifference).toBeGreaterThan(0);
+    expect(comparison.reasonCodes).toContain('PAY_DOWN_BEATS_INVESTING');
+    expect(comparison.payDown.debtFreeMonth).toBeLessThan(comparison.invest.debtFreeMonth!);
+    expect(comparison.breakEvenApr).not.toBeNull();
+    expect(comparison.breakEvenApr!).toBeLessThan(22.99);
+  });
+  
+  it('should invest rather than prepay low-interest debt', () => {
+    const comparison = comparePayDownVsInvest([studentLoan], 0, 500, { expectedReturn: 8 });
+    
+    expect(comparison.recommendation).toBe('invest');
+    expect(comparison.reasonCodes).toContain('INVESTING_BEATS_PAY_DOWN');
+    expect(comparison.breakEvenApr!).toBeGreaterThan(4);
+  });
+  
+  it('should spend the same budget on both paths', () => {
+    const comparison = comparePayDownVsInvest([card], 0, 500, { expectedReturn: 0, returnStdDev: 0 });
+    
+    expect(comparison.monthlyBudget).toBe(650);
+    expect(comparison.payDown.trajectory).toHaveLength(120);
+    expect(comparison.invest.trajectory).toHaveLength(120);
+    // At a 0% return, net worth is just what was paid minus interest
+    const budgetSpent = 650 * 120;
+    expect(comparison.payDown.finalNetWorth).toBeCloseTo(
+      budgetSpent - 5000 - comparison.payDown.totalInterestPaid, 0
+    );
+    expect(comparison.invest.finalNetWorth).toBeCloseTo(
+      budgetSpent - 5000 - comparison.invest.totalInterestPaid, 0
+    );
+  });
+  
+  it('should start from the existing investment balance', () => {
+    const comparison = comparePayDownVsInvest([card], 25000, 500, { expectedReturn: 0, returnStdDev: 0 });
+    const first = comparison.invest.trajectory[0];
+    
+    expect(first.investments).toBeCloseTo(25000 + 500, 2);
+    expect(first.netWorth).toBeCloseTo(first.investments - first.debt, 2);
+  });
+  
+  it('should raise the break-even APR with an employer match', () => {
+    const withoutMatch = comparePayDownVsInvest([card], 0, 500, { expectedReturn: 7 });
+    const withMatch = comparePayDownVsInvest([card], 0, 500, {
+      expectedReturn: 7,
+      employerMatch: { matchPercent: 100, maxMatchedContribution: 300 },
+    });
+    
+    expect(withMatch.invest.totalEmployerMatch).toBeGreaterThan(withMatch.payDown.totalEmployerMatch);
+    expect(withMatch.reasonCodes).toContain('EMPLOYER_MATCH_FORGONE');
+    expect(withMatch.breakEvenApr!).toBeGreaterThan(withoutMatch.breakEvenApr!);
+  });
+  
+  it('should credit tax saved on deductible interest', () => {
+    const taxProfile = { marginalRate: 22, itemizes: false, studentLoanDeductionCap: 2500 };
+    const taxed = comparePayDownVsInvest([studentLoan], 0, 500, { expectedReturn: 7, taxProfile });
+    const untaxed = comparePayDownVsInvest([studentLoan], 0, 500, { expectedReturn: 7 });
+    const phasedOut = comparePayDownVsInvest([studentLoan], 0, 500, {
+      expectedReturn: 7,
+      taxProfile: { ...taxProfile, studentLoanDeductionCap: 0 },
+    });
+    
+    expect(taxed.invest.totalTaxSavings).toBeGreaterThan(0);
+    expect(untaxed.invest.totalTaxSavings).toBe(0);
+    expect(phasedOut.invest.totalTaxSavings).toBe(0);
+    expect(taxed.invest.finalNetWorth).toBeGreaterThan(untaxed.invest.finalNetWorth);
+    // The same savings the payoff plan reports for the invest path's payments
+    const invest = simulateStrategy([studentLoan], 'minimum_only', 0, 120);
+    expect(taxed.invest.totalTaxSavings).toBe(calculateAfterTaxInterest(invest, taxProfile).taxSavings);
+  });
+  
+  it('should deduct mortgage interest only when itemizing', () => {
+    const mortgage: DebtAccount = { id: 'home', type: 'mortgage', balance: 300000, apr: 6.5, minimum_payment: 1900 };
+    const taxProfile = { marginalRate: 24, itemizes: false, studentLoanDeductionCap: 2500 };
+    const standard = comparePayDownVsInvest([mortgage], 0, 500, { expectedReturn: 7, taxProfile });
+    const itemized = comparePayDownVsInvest([mortgage], 0, 500, {
+      expectedReturn: 7,
+      taxProfile: { ...taxProfile, itemizes: true },
+    });
+    
+    expect(standard.invest.totalTaxSavings).toBe(0);
+    expect(itemized.invest.totalTaxSavings).toBeGreaterThan(0);
+  });
+  
+  it('should bracket the expected outcome with percentile returns', () => {
+    const { low, high } = percentileReturns(7, 15, 120);
+    const comparison = comparePayDownVsInvest([studentLoan], 0, 500, { expectedReturn: 7 });
+    
+    expect(low).toBeLessThan(7);
+    expect(high).toBeGreaterThan(low);
+    expect(comparison.invest.finalNetWorthLow).toBeLessThan(comparison.invest.finalNetWorth);
+    expect(comparison.invest.finalNetWorthHigh).toBeGreaterThan(comparison.invest.finalNetWorth);
+  });
+  
+  it('should have nothing to compare without debt', () => {
+    const comparison = comparePayDownVsInvest([], 1000, 500, { expectedReturn: 7 });
+    
+    expect(comparison.netWorthDifference).toBe(0);
+    expect(comparison.recommendation).toBe('invest');
+    expect(comparison.breakEvenApr).toBeNull();
+  });
+});
+
+describe('Monte Carlo simulation', () => {
+  const profile: UserFinancialProfile = {
+    monthly_income: 5000,
+    monthly_fixed_expenses: 3500,
+    cash_balance: 2000,
+    debts: [
+      { id: 'card', type: 'credit_card', balance: 6000, apr: 24.99, minimum_payment: 180 },
+      { id: 'car', type: 'auto_loan', balance: 9000, apr: 6.5, minimum_payment: 300 },
+    ],
+  };
+  const calm = {
+    job_loss_probability: 0,
+    expense_spike_probability: 0,
+    rate_volatility: 0,
+  };
+  
+  it('should produce the same sequence from the same seed', () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    const c = createRandom(43);
+    const first = [a.next(), a.next(), a.normal()];
+    
+    expect([b.next(), b.next(), b.normal()]).toEqual(first);
+    expect(c.next()).not.toBe(first[0]);
+    expect(deriveSeed(42, 1)).toBe(deriveSeed(42, 1));
+    expect(deriveSeed(42, 1)).not.toBe(deriveSeed(42, 2));
+  });
+  
+  it('should reproduce a run from its seed', () => {
+    const first = runMonteCarlo(profile, 'avalanche', 200, { trials: 25, seed: 1234 });
+    const second = runMonteCarlo(profile, 'avalanche', 200, { trials: 25, seed: 1234 });
+    
+    expect(second.seed).toBe(1234);
+    expect(second.trialResults).toEqual(first.trialResults);
+    expect(second.payoffMonths).toEqual(first.payoffMonths);
+  });
+  
+  it('should replay a single trial from its seed', () => {
+    const run = runMonteCarlo(profile, 'avalanche', 200, { trials: 10, seed: 99 });
+    const trial = run.trialResults[7]!;
+    
+    expect(runMonteCarloTrial(profile, 'avalanche', 200, trial.seed, {}, 7)).toEqual(trial);
+  });
+  
+  it('should match the deterministic plan without shocks', () => {
+    const result = runMonteCarlo(profile, 'avalanche', 200, { trials: 5, seed: 7, shocks: calm });
+    
+    expect(result.probabilityDebtFree).toBe(1);
+    expect(result.probabilityMissedPayment).toBe(0);
+    expect(result.payoffMonths.p10).toBe(result.deterministic.totalMonths);
+    expect(result.payoffMonths.p90).toBe(result.deterministic.totalMonths);
+    expect(result.totalInterest.min).toBe(result.deterministic.totalInterestPaid);
+    expect(result.totalInterest.max).toBe(result.deterministic.totalInterestPaid);
+  });
+  
+  it('should miss payments and pay more interest when income drops', () => {
+    const result = runMonteCarlo(profile, 'avalanche', 200, {
+      trials: 50,
+      seed: 2024,
+      shocks: { ...calm, job_loss_probability: 0.5, job_loss_duration_months: 6, income_replacement: 0.2 },
+    });
+    
+    expect(result.probabilityMissedPayment).toBeGreaterThan(0);
+    expect(result.averageMissedPaymentMonths).toBeGreaterThan(0);
+    expect(result.totalInterest.max).toBeGreaterThan(result.deterministic.totalInterestPaid);
+    expect(result.payoffMonths.p90!).toBeGreaterThanOrEqual(result.payoffMonths.p10!);
+  });
+  
+  it('should move variable rates along a random path', () => {
+    const result = runMonteCarlo(profile, 'avalanche', 200, {
+      trials: 30,
+      seed: 5,
+      shocks: { ...calm, rate_volatility: 3 },
+    });
+    
+    expect(result.totalInterest.min).toBeLessThan(result.deterministic.totalInterestPaid);
+    expect(result.totalInterest.max).toBeGreaterThan(result.deterministic.totalInterestPaid);
+    expect(result.probabilityMissedPayment).toBe(0);
+  });
+});
+
+describe('Rate paths', () => {
+  it('should shift only the listed debts by the path', () => {
+    const debts: DebtAccount[] = [
+      { id: 'card', type: 'credit_card', balance: 3000, apr: 20, minimum_payment: 100 },
+      { id: 'loan', type: 'personal_loan', balance: 3000, apr: 10, minimum_payment: 100 },
+    ];
+    const base = simulateStrategy(debts, 'minimum_only', 0, 12);
+    const shifted = simulateStrategy(debts, 'minimum_only', 0, 12, {
+      ratePath: { debtIds: ['card'], shifts: [2] },
+    });
+    
+    const interestFor = (result: typeof base, debtId: string) =>
+      result.schedule[0]!.payments.find((p) => p.debtId === debtId)!.interestPaid;
+    
+    expect(interestFor(shifted, 'card')).toBeGreaterThan(interestFor(base, 'card'));
+    expect(interestFor(shifted, 'loan')).toBe(interestFor(base, 'loan'));
+    // The last shift holds for the rest of the simulation
+    expect(shifted.totalInterestPaid).toBeGreaterThan(base.totalInterestPaid);
+  });
+});
+
+describe('Index-linked rates', () => {
+  const heloc: DebtAccount = {
+    id: 'heloc',
+    type: 'other',
+    balance: 20000,
+    apr: 9.5,
+    minimum_payment: 400,
+    rate_index: 'prime',
+    rate_margin: 2,
+  };
+  
+  const aprIn = (result: ReturnType<typeof simulateStrategy>, month: number) =>
+    result.schedule[month - 1]!.debts.find((d) => d.id === 'heloc')!.apr;
+  
+  it('should keep the APR when the index stays at its current level', () => {
+    const result = simulateStrategy([{ ...heloc, rate_margin: undefined }], 'avalanche', 0, 24);
+    
+    expect(aprIn(result, 1)).toBe(9.5);
+    expect(aprIn(result, 24)).toBe(9.5);
+  });
+  
+  it('should reprice to the index plus margin along a step path', () => {
+    const result = simulateStrategy([heloc], 'avalanche', 0, 24, {
+      indexRatePaths: [{ type: 'step', index: 'prime', steps: [{ month: 7, rate: 8.5 }, { month: 13, rate: 6 }] }],
+    });
+    
+    expect(aprIn(result, 6)).toBe(9.5);
+    expect(aprIn(result, 7)).toBe(10.5);
+    expect(aprIn(result, 13)).toBe(8);
+  });
+  
+  it('should hold the last rate of a custom path', () => {
+    const result = simulateStrategy([heloc], 'avalanche', 0, 12, {
+      indexRatePaths: [{ type: 'custom', index: 'prime', monthly_rates: [7, 7.25, 7.5] }],
+    });
+    
+    expect(aprIn(result, 1)).toBe(9);
+    expect(aprIn(result, 2)).toBe(9.25);
+    expect(aprIn(result, 12)).toBe(9.5);
+  });
+  
+  it('should not reprice while a promotional rate applies', () => {
+    const promo: DebtAccount = {
+      ...heloc,
+      apr: 0,
+      is_promotional_rate: true,
+      promotional_rate_expires: addDays(addMonths(now(), 3), 1).toISOString(),
+      post_promotional_apr: 9.5,
+    };
+    const result = simulateStrategy([promo], 'avalanche', 0, 12, {
+      indexRatePaths: [{ type: 'flat', index: 'prime', rate: 9 }],
+    });
+    
+    expect(aprIn(result, 1)).toBe(0);
+    expect(aprIn(result, 12)).toBe(11);
+  });
+  
+  it('should report payoff sensitivity to index shocks', () => {
+    const sensitivity = analyzeRateSensitivity([heloc], 'avalanche', 100, 360);
+    
+    expect(sensitivity.map((s) => s.shock)).toEqual([-2, -1, 1, 2]);
+    expect(sensitivity[0]!.interestChange).toBeLessThan(0);
+    expect(sensitivity[3]!.interestChange).toBeGreaterThan(sensitivity[2]!.interestChange);
+    expect(sensitivity[3]!.monthsChange).toBeGreaterThanOrEqual(0);
+  });
+  
+  it('should skip sensitivity when no debt floats', () => {
+    const fixed: DebtAccount = { ...heloc, rate_index: undefined, rate_margin: undefined };
+    
+    expect(analyzeRateSensitivity([fixed], 'avalanche', 100, 360)).toEqual([]);
+  });
+});
+
+describe('Tax-adjusted APR', () => {
+  const profile = (annualIncome: number, tax: UserFinancialProfile['tax']): UserFinancialProfile => ({
+    monthly_income: annualIncome / 12,
+    monthly_fixed_expenses: 0,
+    cash_balance: 0,
+    debts: [],
+    tax,
+  });
+  
+  const state = (id: string, type: DebtAccount['type'], balance: number, apr: number) => ({
+    id,
+    name: id,
+    type,
+    balance,
+    apr,
+    minimumPayment: 100,
+    isPaidOff: false,
+  });
+  
+  it('should phase out the student loan deduction with income', () => {
+    expect(resolveTaxProfile(profile(60000, undefined))).toBeUndefined();
+    expect(resolveTaxProfile(profile(60000, { filing_status: 'single', marginal_rate: 22, itemizes: false }))
+      ?.studentLoanDeductionCap).toBe(2500);
+    expect(resolveTaxProfile(profile(87500, { filing_status: 'single', marginal_rate: 22, itemizes: false }))
+      ?.studentLoanDeductionCap).toBe(1250);
+    expect(resolveTaxProfile(profile(60000, { filing_status: 'married_separate', marginal_rate: 22, itemizes: false }))
+      ?.studentLoanDeductionCap).toBe(0);
+  });
+  
+  it('should rank deductible student loans by after-tax APR', () => {
+    const debts = [state('student', 'student_loan', 10000, 7), state('auto', 'auto_loan', 10000, 6.5)];
+    const tax = resolveTaxProfile(profile(60000, { filing_status: 'single', marginal_rate: 24, itemizes: false }))!;
+    
+    // 7% less 24% of the deductible interest is 5.32%
+    expect(sortByAvalanche(debts)[0]?.id).toBe('student');
+    expect(sortByAvalanche(debts, tax)[0]?.id).toBe('auto');
+    expect(getStrategySorter('hybrid', { hybridWeights: { apr: 1, balance: 0 }, taxProfile: tax })(debts)[0]?.id)
+      .toBe('auto');
+    expect(getStrategySorter('custom', { customOrder: [], taxProfile: tax })(debts)[0]?.id).toBe('auto');
+  });
+  
+  it('should only deduct mortgage interest when itemizing', () => {
+    const debts = [state('mortgage', 'mortgage', 300000, 7), state('auto', 'auto_loan', 10000, 6)];
+    const standard = resolveTaxProfile(profile(150000, { filing_status: 'married_joint', marginal_rate: 24, itemizes: false }))!;
+    const itemized = resolveTaxProfile(profile(150000, { filing_status: 'married_joint', marginal_rate: 24, itemizes: true }))!;
+    
+    expect(sortByAvalanche(debts, standard)[0]?.id).toBe('mortgage');
+    expect(sortByAvalanche(debts, itemized)[0]?.id).toBe('auto');
+  });
+  
+  it('should report interest net of the tax it saves', () => {
+    const debts: DebtAccount[] = [
+      { id: 'student', type: 'student_loan', balance: 60000, apr: 6, minimum_payment: 700 },
+      { id: 'card', type: 'credit_card', balance: 3000, apr: 22, minimum_payment: 90 },
+    ];
+    const tax = resolveTaxProfile(profile(60000, { filing_status: 'single', marginal_rate: 22, itemizes: false }))!;
+    const result = simulateStrategy(debts, 'avalanche', 200, 360);
+    const afterTax = calculateAfterTaxInterest(result, tax);
+    const years = Math.ceil(result.totalMonths / 12);
+    
+    expect(afterTax.taxSavings).toBeGreaterThan(0);
+    // The student loan deduction is capped each year
+    expect(afterTax.taxSavings).toBeLessThanOrEqual(2500 * 0.22 * years);
+    expect(afterTax.afterTaxInterest).toBeCloseTo(afterTax.nominalInterest - afterTax.taxSavings, 2);
+    expect(calculateAfterTaxInterest(result, undefined).taxSavings).toBe(0);
+  });
+});
+
+describe('Sensitivity curve', () => {
+  const debts: DebtAccount[] = [
+    { id: 'card', type: 'credit_card', balance: 6000, apr: 24, minimum_payment: 180 },
+    { id: 'auto', type: 'auto_loan', balance: 12000, apr: 7, minimum_payment: 300 },
+  ];
+  
+  it('should build an evenly spaced grid ending at the maximum', () => {
+    expect(buildExtraPaymentGrid(0, 200, 50)).toEqual([0, 50, 100, 150, 200]);
+    expect(buildExtraPaymentGrid(0, 120, 50)).toEqual([0, 50, 100, 120]);
+    expect(extraPaymentGridSize(0, 120, 50)).toBe(4);
+    expect(extraPaymentGridSize(0, 2000, 50)).toBe(41);
+  });
+  
+  it('should match a direct simulation at every grid point', () => {
+    const curve = buildSensitivityCurve(debts, [0, 250, 500], ['avalanche', 'snowball']);
+    
+    expect(curve.curves.map((c) => c.strategy)).toEqual(['avalanche', 'snowball']);
+    for (const point of curve.curves[0]!.points) {
+      const direct = simulateStrategy(debts, 'avalanche', point.extraPayment, 360);
+      expect(point.totalMonths).toBe(direct.totalMonths);
+      expect(point.totalInterestPaid).toBe(direct.totalInterestPaid);
+    }
+    expect(curve.minimumOnly.totalInterestPaid)
+      .toBeGreaterThan(curve.curves[0]!.points[1]!.totalInterestPaid);
+  });
+  
+  it('should mark where extra payments stop paying off as much', () => {
+    const grid = buildExtraPaymentGrid(0, 2000, 50);
+    const [avalanche] = buildSensitivityCurve(debts, grid, ['avalanche']).curves;
+    const points = avalanche!.points;
+    
+    expect(points[0]!.marginalInterestSaved).toBeNull();
+    expect(points[1]!.diminishingReturns).toBe(false);
+    for (let i = 1; i < points.length; i++) {
+      expect(points[i]!.totalInterestPaid).toBeLessThanOrEqual(points[i - 1]!.totalInterestPaid);
+    }
+    
+    const from = avalanche!.diminishingReturnsFrom;
+    expect(from).not.toBeNull();
+    expect(points.find((p) => p.diminishingReturns)?.extraPayment).toBe(from);
+    expect(points[points.length - 1]!.diminishingReturns).toBe(true);
+  });
+  
+  it('should compare a short last step per dollar', () => {
+    const [avalanche] = buildSensitivityCurve(debts, [0, 100, 110], ['avalanche']).curves;
+    const [first, last] = avalanche!.points.slice(1);
+    
+    expect(last!.marginalInterestSaved!).toBeLessThan(first!.marginalInterestSaved! / 2);
+    expect(last!.diminishingReturns).toBe(false);
+  });
+  
+  it('should not judge the step up from a plan that never pays off', () => {
+    const [avalanche] = buildSensitivityCurve(debts, [1000, 1395, 1400], ['avalanche'], 12).curves;
+    const [unpaid, firstPaid] = avalanche!.points;
+    
+    expect(unpaid!.paidOff).toBe(false);
+    expect(firstPaid!.paidOff).toBe(true);
+    expect(firstPaid!.diminishingReturns).toBe(false);
+  });
+});
+
+describe('Summary simulation', () => {
+  const portfolio: DebtAccount[] = [
+    ...testDebts,
+    {
+      id: 'promo',
+      type: 'credit_card',
+      balance: 4200,
+      apr: 0,
+      minimum_payment: 90,
+      promotional_rate_expires: addMonths(now(), 5).toISOString(),
+      post_promotional_apr: 26.99,
+      annual_fee: 95,
+      annual_fee_month: 3,
+    },
+    {
+      id: 'heloc',
+      type: 'other',
+      balance: 15000,
+      apr: 9.5,
+      minimum_payment: 250,
+      rate_index: 'prime',
+      rate_margin: 2,
+      monthly_fee: 5,
+      interest_convention: 'actual_365',
+    },
+    {
+      id: 'student',
+      type: 'student_loan',
+      balance: 22000,
+      apr: 5.5,
+      minimum_payment: 240,
+      balance_transfer_fee: 150,
+      balance_transfer_date: addMonths(now(), 2).toISOString(),
+    },
+  ];
+  
+  const expectSameTotals = (
+    ...args: Parameters<typeof simulateStrategy>
+  ) => {
+    expect(simulateStrategySummary(...args)).toEqual({ ...simulateStrategy(...args), schedule: [] });
+  };
+  
+  it('should match the full simulation for every strategy', () => {
+    for (const strategy of ['avalanche', 'snowball', 'hybrid', 'minimum_only'] as const) {
+      for (const extra of [0, 137.45, 900]) {
+        expectSameTotals(portfolio, strategy, extra, 360);
+      }
+    }
+    expectSameTotals(portfolio, 'custom', 300, 360, { customOrder: ['student', 'heloc'] });
+    expectSameTotals(portfolio, 'hybrid', 300, 360, { hybridWeights: { apr: 0.2, balance: 0.8 } });
+  });
+  
+  it('should match under every interest convention', () => {
+    for (const interest_convention of ['monthly_simple', 'actual_365', 'daily_compound'] as const) {
+      const debts = portfolio.map((d) => ({ ...d, interest_convention }));
+      expectSameTotals(debts, 'avalanche', 250, 360);
+    }
+  });
+  
+  it('should match with index rate paths, shocks and after-tax ranking', () => {
+    const indexRatePaths = [
+      { type: 'step' as const, index: 'prime' as const, steps: [{ month: 4, rate: 9 }, { month: 20, rate: 5.25 }] },
+    ];
+    expectSameTotals(portfolio, 'avalanche', 200, 360, { indexRatePaths });
+    expectSameTotals(portfolio, 'snowball', 200, 360, { indexRatePaths, indexRateShock: 2 });
+    expectSameTotals(portfolio, 'avalanche', 200, 360, {
+      taxProfile: { marginalRate: 32, itemizes: true, studentLoanDeductionCap: 2500 },
+    });
+  });
+  
+  it('should match plans that run past the horizon', () => {
+    expectSameTotals(portfolio, 'minimum_only', 0, 24);
+    expectSameTotals(portfolio, 'avalanche', 100, 1);
+  });
+  
+  it('should fall back to the full simulation for month-by-month options', () => {
+    expectSameTotals(portfolio, 'avalanche', 200, 360, {
+      oneTimePayments: [{ amount: 3000, date: addMonths(now(), 3).toISOString() }],
+      missedPayments: [{ month: 2 }],
+    });
+  });
+  
+  it('should leave schedules out of a comparison only when asked', () => {
+    const withSchedules = compareStrategies(portfolio, 300);
+    const withoutSchedules = compareStrategies(portfolio, 300, 360, {}, false);
+    
+    expect(withoutSchedules.strategies.every((s) => s.schedule.length === 0)).toBe(true);
+    expect(withoutSchedules).toEqual({
+      ...withSchedules,
+      strategies: withSchedules.strategies.map((s) => ({ ...s, schedule: [] })),
+    });
+  });
+});
+
+describe('Schedule paging', () => {
+  const result = simulateStrategy(testDebts, 'avalanche', 50, 360, {
+    oneTimePayments: [{ amount: 1000, date: addMonths(now(), 4).toISOString() }],
+  });
+  const months = result.schedule.length;
+  
+  it('should roll months up into quarters and years that reconcile with the plan', () => {
+    for (const granularity of ['quarterly', 'yearly'] as const) {
+      const periods = rollUpSchedule(result.schedule, granularity);
+      const size = granularity === 'quarterly' ? 3 : 12;
+      const sum = (pick: (p: typeof periods[number]) => number) =>
+        Math.round(periods.reduce((total, p) => total + pick(p), 0) * 100) / 100;
+      
+      expect(periods).toHaveLength(Math.ceil(months / size));
+      expect(periods[0]!.endMonth).toBe(Math.min(size, months));
+      expect(periods[periods.length - 1]!.endMonth).toBe(months);
+      expect(periods[periods.length - 1]!.totalRemainingDebt).toBe(0);
+      expect(sum((p) => p.totalPayment)).toBe(result.totalAmountPaid);
+      expect(sum((p) => p.totalInterestPaid)).toBe(result.totalInterestPaid);
+      expect(sum((p) => p.oneTimePaymentsApplied)).toBe(1000);
+      expect(periods.flatMap((p) => p.debtsPaidOff)).toEqual(result.payoffOrder.map((p) => p.debtId));
+    }
+  });
+  
+  it('should page through every month with cursors', () => {
+    const seen: number[] = [];
+    let firstPeriod: number | null = 1;
+    
+    while (firstPeriod !== null) {
+      const page = pageSchedule(result.schedule, 'monthly', firstPeriod, 10);
+      expect(page.totalPeriods).toBe(months);
+      expect(page.periods).toEqual([]);
+      expect(page.totals.totalPayment).toBe(result.totalAmountPaid);
+      seen.push(...page.months.map((m) => m.month));
+      firstPeriod = page.nextCursor === null ? null : decodeScheduleCursor(page.nextCursor, 'monthly');
+    }
+    
+    expect(seen).toEqual(result.schedule.map((m) => m.month));
+  });
+  
+  it('should number rolled-up periods from the cursor', () => {
+    const page = pageSchedule(result.schedule, 'quarterly', 2, 2);
+    
+    expect(page.months).toEqual([]);
+    expect(page.periods.map((p) => p.period)).toEqual([2, 3]);
+    expect(page.periods[0]!.startMonth).toBe(4);
+    expect(page.periods).toEqual(rollUpSchedule(result.schedule, 'quarterly').slice(1, 3));
+    expect(pageSchedule(result.schedule, 'quarterly', 1000, 2).periods).toEqual([]);
+    expect(pageSchedule(result.schedule, 'quarterly', 1000, 2).nextCursor).toBeNull();
+  });
+  
+  it('should reject cursors issued for another granularity', () => {
+    const cursor = encodeScheduleCursor('quarterly', 5);
+    
+    expect(decodeScheduleCursor(cursor, 'quarterly')).toBe(5);
+    expect(decodeScheduleCursor(cursor, 'yearly')).toBeNull();
+    expect(decodeScheduleCursor('not-a-cursor', 'monthly')).toBeNull();
+  });
+});
+
+describe('Rollover loans', () => {
+  const payday: DebtAccount = {
+    id: 'payday',
+    type: 'payday_loan',
+    balance: 500,
+    apr: 0,
+    term_fee_per_100: 15,
+    term_days: 14,
+  };
+  
+  it('should convert the fee per term to its true APR', () => {
+    expect(rolloverApr(15, 14)).toBeCloseTo(391.07, 2);
+    expect(rolloverEffectiveRate(15, 14)).toBeGreaterThan(3000);
+    expect(rolloverApr(25, 30)).toBeCloseTo(304.17, 2);
+  });
+  
+  it('should keep charging the fee while the loan only rolls over', () => {
+    const result = simulateStrategy([payday], 'minimum_only', 0, 60);
+    const [cost] = analyzeRolloverCosts([payday], result, 60);
+    const balances = result.schedule.map((m) => m.totalRemainingDebt);
+    
+    // The default minimum covers the fees of the longest month, so the
+    // loan renews without growing and only shrinks in shorter months
+    expect(result.schedule[0]!.payments[0]!.paymentAmount).toBe(166.08);
+    expect(balances[0]).toBeGreaterThan(499);
+    balances.slice(1).forEach((balance, i) => expect(balance).toBeLessThanOrEqual(balances[i]!));
+    
+    expect(cost!.feePerTerm).toBe(75);
+    expect(cost!.paidOff).toBe(true);
+    expect(cost!.rollovers).toBeGreaterThan(26);
+    // Fees run to several times the amount borrowed
+    expect(cost!.feesPaid).toBeGreaterThan(1500);
+    expect(cost!.feesPaid).toBe(Math.round(result.totalInterestPaid * 100) / 100);
+  });
+  
+  it('should stop charging once extra payments clear the principal', () => {
+    const result = simulateStrategy([payday], 'avalanche', 300, 12);
+    const [cost] = analyzeRolloverCosts([payday], result, 12);
+    
+    expect(cost!.paidOff).toBe(true);
+    expect(result.totalMonths).toBe(2);
+    expect(cost!.feesPaid).toBeLessThan(250);
+  });
+  
+  it('should rank rollover loans by their true APR', () => {
+    const card: DebtAccount = { id: 'card', type: 'credit_card', balance: 300, apr: 29.99, minimum_payment: 25 };
+    const result = simulateStrategy([card, payday], 'avalanche', 200, 60);
+    
+    expect(result.payoffOrder[0]!.debtId).toBe('payday');
+  });
+  
+  it('should plan an exit in installments', () => {
+    const plan = planRolloverExit(payday);
+    
+    expect(plan.installments).toBe(4);
+    expect(plan.installmentPrincipal).toBe(125);
+    expect(plan.firstPayment).toBe(200);
+    // Fees on $500, $375, $250 and $125
+    expect(plan.exitFees).toBe(187.5);
+    expect(plan.annualRolloverCost).toBeCloseTo(1955.36, 2);
+    expect(plan.feesSaved).toBeCloseTo(1767.86, 2);
+    expect(plan.palEligible).toBe(true);
+  });
+});
+
+describe('Installment plans', () => {
+  const payIn4: DebtAccount = {
+    id: 'bnpl',
+    type: 'buy_now_pay_later',
+    balance: 300,
+    apr: 0,
+    late_fee: 7,
+    installment_plan: {
+      installment_amount: 100,
+      remaining_installments: 3,
+      next_due_date: addDays(now(), 10).toISOString(),
+      interval_days: 14,
+    },
+  };
+  
+  it('should clear the plan in the month its last installment is due', () => {
+    // Installments on days 10, 24 and 38 fall in the first two months
+    expect(installmentPlanMinimumPayment(payIn4)).toBe(150);
+    
+    const result = simulateStrategy([payIn4], 'minimum_only', 0, 12);
+    expect(result.totalMonths).toBe(2);
+    expect(result.totalInterestPaid).toBe(0);
+  });
+  
+  it('should charge the plan late fee on a missed installment', () => {
+    const result = simulateStrategy([payIn4], 'minimum_only', 0, 12, {
+      missedPayments: [{ month: 1 }],
+    });
+    
+    expect(result.schedule[0]!.payments[0]!.feesCharged).toBe(7);
+  });
+});
+
+describe('Hardship options', () => {
+  const debts: DebtAccount[] = [
+    { id: 'card', name: 'Visa', type: 'credit_card', balance: 8000, apr: 27.99, minimum_payment: 240 },
+    { id: 'car', type: 'auto_loan', balance: 12000, apr: 7, minimum_payment: 350 },
+  ];
+  
+  it('should apply temporary terms only for their months', () => {
+    const result = simulateStrategy(debts, 'minimum_only', 0, 360, {
+      paymentTermChanges: [{ debtId: 'car', startMonth: 1, endMonth: 3, apr: 0, minimumPayment: 0 }],
+    });
+    const car = (month: number) => result.schedule[month - 1]!.payments.find((p) => p.debtId === 'car')!;
+    
+    expect(car(3).paymentAmount).toBe(0);
+    expect(car(3).remainingBalance).toBe(12000);
+    expect(car(4).paymentAmount).toBe(350);
+    expect(car(4).interestPaid).toBeGreaterThan(0);
+    
+    // The summary path falls back to the full simulation for changes of terms
+    const summary = simulateStrategySummary(debts, 'minimum_only', 0, 360, {
+      paymentTermChanges: [{ debtId: 'car', startMonth: 1, endMonth: 3, apr: 0, minimumPayment: 0 }],
+    });
+    expect(summary.totalInterestPaid).toBe(result.totalInterestPaid);
+  });
+  
+  it('should send no extra payment to a debt in forbearance', () => {
+    const result = simulateStrategy(debts, 'avalanche', 200, 360, {
+      paymentTermChanges: [{ debtId: 'card', startMonth: 1, endMonth: 3, minimumPayment: 0 }],
+    });
+    const payment = (month: number, debtId: string) =>
+      result.schedule[month - 1]!.payments.find((p) => p.debtId === debtId)!;
+    
+    for (const month of [1, 2, 3]) {
+      expect(payment(month, 'card').paymentAmount).toBe(0);
+      expect(payment(month, 'car').paymentAmount).toBe(550);
+    }
+    expect(payment(4, 'card').paymentAmount).toBe(440);
+  });
+  
+  it('should rank debts by the APR a change of terms sets', () => {
+    const result = simulateStrategy(debts, 'avalanche', 200, 360, {
+      paymentTermChanges: [{ debtId: 'card', startMonth: 1, endMonth: 2, apr: 0, minimumPayment: 240 }],
+    });
+    const payment = (month: number, debtId: string) =>
+      result.schedule[month - 1]!.payments.find((p) => p.debtId === debtId)!;
+    
+    expect(payment(2, 'car').paymentAmount).toBe(550);
+    expect(payment(3, 'card').paymentAmount).toBe(440);
+  });
+  
+  it('should price a settlement with its cash need, forgiven balance and tax', () => {
+    const analysis = analyzeHardshipOptions(
+      debts,
+      [{ type: 'settlement', debt_id: 'card', settlement_percent: 45 }],
+      'avalanche',
+      0,
+      { availableCash: 3000, marginalTaxRate: 22 }
+    );
+    const [settlement] = analysis.options;
+    
+    expect(settlement!.cashNeeded).toBe(3600);
+    expect(settlement!.forgivenAmount).toBe(4400);
+    expect(settlement!.taxOnForgiven).toBe(968);
+    expect(settlement!.monthlyPaymentChange).toBe(-240);
+    expect(settlement!.creditImpact).toBe('severe');
+    expect(settlement!.reasonCodes).toEqual(expect.arrayContaining([
+      'RELIEF_SAVES_MONEY', 'RELIEF_CASH_SHORTFALL', 'FORGIVEN_DEBT_TAXABLE', 'CREDIT_SCORE_DAMAGE',
+    ]));
+    // Saves money, but the borrower can't raise the lump sum
+    expect(analysis.lowestCostOption).toBeNull();
+  });
+  
+  it('should compare hardship plans and forbearance with the current plan', () => {
+    const analysis = analyzeHardshipOptions(debts, [
+      { type: 'hardship_plan', debt_id: 'card', reduced_apr: 9.9, reduced_payment: 160, duration_months: 12 },
+      { type: 'forbearance', debt_id: 'car', duration_months: 3, interest_accrues: true },
+      { type: 'forbearance', debt_id: 'car', duration_months: 3, interest_accrues: false },
+    ]);
+    const [hardship, accruing, waived] = analysis.options;
+    
+    expect(hardship!.costDifference).toBeLessThan(0);
+    expect(hardship!.monthlyPayment).toBe(510);
+    expect(hardship!.creditImpact).toBe('moderate');
+    expect(analysis.lowestCostOption).toBe(0);
+    
+    expect(accruing!.costDifference).toBeGreaterThan(0);
+    expect(accruing!.reasonCodes).toEqual(expect.arrayContaining(['RELIEF_COSTS_MORE', 'RELIEF_EXTENDS_PAYOFF']));
+    expect(accruing!.creditImpact).toBe('none');
+    expect(waived!.totalInterestPaid).toBeLessThan(accruing!.totalInterestPaid);
+  });
+});
+
+describe('Credit utilization trajectory', () => {
+  const debts: DebtAccount[] = [
+    { id: 'visa', name: 'Visa', type: 'credit_card', balance: 4500, apr: 24, credit_limit: 5000, minimum_payment: 135 },
+    { id: 'amex', name: 'Amex', type: 'credit_card', balance: 1000, apr: 18, credit_limit: 5000, minimum_payment: 30 },
+    { id: 'car', type: 'auto_loan', balance: 8000, apr: 6, minimum_payment: 250 },
+  ];
+  
+  it('should follow overall and per-card utilization down the schedule', () => {
+    const result = simulateStrategy(debts, 'avalanche', 300, 360);
+    const trajectory = buildUtilizationTrajectory(debts, result)!;
+    
+    expect(trajectory.months).toHaveLength(result.schedule.length + 1);
+    expect(trajectory.startingUtilization).toBe(0.55);
+    expect(trajectory.months[0]!.cards.map((c) => c.utilization)).toEqual([0.9, 0.2]);
+    expect(trajectory.months[0]!.date).toBe(toMonthYear(parse(result.startDate)));
+    expect(trajectory.finalUtilization).toBe(0);
+    expect(trajectory.scoreEstimate).toBeNull();
+    
+    // Overall utilization falls through each level once, in order
+    const overall = trajectory.crossings.filter((c) => c.debtId === null);
+    expect(overall.map((c) => c.threshold)).toEqual(['elevated', 'good', 'excellent']);
+    expect(overall.every((c) => c.direction === 'below')).toBe(true);
+    const good = overall.find((c) => c.threshold === 'good')!;
+    expect(trajectory.months[good.month]!.utilization).toBeLessThanOrEqual(0.3);
+    expect(trajectory.months[good.month - 1]!.utilization).toBeGreaterThan(0.3);
+  });
+  
+  it('should skip debts without a credit limit', () => {
+    const result = simulateStrategy(debts.slice(2), 'avalanche', 300, 360);
+    expect(buildUtilizationTrajectory(debts.slice(2), result)).toBeNull();
+  });
+  
+  it('should estimate score bands from the points table', () => {
+    const result = simulateStrategy(debts, 'avalanche', 300, 360);
+    const { scoreEstimate } = buildUtilizationTrajectory(debts, result, { creditScore: 690 })!;
+    
+    // 55% scores -50 and 0% scores 0 on the default table
+    expect(scoreEstimate!.finalScoreChange).toBe(50);
+    expect(scoreEstimate!.finalScore).toBe(740);
+    expect(scoreEstimate!.startingBand).toBe('good');
+    expect(scoreEstimate!.finalBand).toBe('very_good');
+    expect(scoreEstimate!.bandChanges).toHaveLength(1);
+    
+    // A custom table, and no score to start from
+    const custom = buildUtilizationTrajectory(debts, result, {
+      table: [{ max_utilization: 0.3, points: 0 }, { max_utilization: 1, points: -20 }],
+    })!.scoreEstimate!;
+    expect(custom.finalScoreChange).toBe(20);
+    expect(custom.finalScore).toBeNull();
+    expect(custom.bandChanges).toEqual([]);
+  });
+});
+
+describe('Schedule export', () => {
+  const debts: DebtAccount[] = [
+    { id: 'card', name: 'Visa, "Gold"', type: 'credit_card', balance: 3000, apr: 22, minimum_payment: 90, payment_due_day: 31 },
+    { id: 'car', type: 'auto_loan', balance: 6000, apr: 6, minimum_payment: 200 },
+  ];
+  const startDate = create(2025, 1, 15);
+  
+  it('should put payments on the due day, or the last day of a short month', () => {
+    expect(toDateString(paymentDueDate(debts[0]!, 1, startDate))).toBe('2025-01-31');
+    expect(toDateString(paymentDueDate(debts[0]!, 2, startDate))).toBe('2025-02-28');
+    expect(toDateString(paymentDueDate(debts[1]!, 3, startDate))).toBe('2025-03-15');
+    // A due day already past in the month falls in the next one
+    expect(toDateString(paymentDueDate({ ...debts[1]!, payment_due_day: 5 }, 1, startDate))).toBe('2025-02-05');
+  });
+  
+  it('should record the start date the schedule is dated from', () => {
+    const result = simulateStrategy(debts, 'avalanche', 150, 360);
+    const start = parse(result.startDate);
+    
+    expect(toMonthYear(start)).toBe(result.schedule[0]!.date);
+    expect(simulateStrategySummary(debts, 'avalanche', 150, 360).startDate).toBeDefined();
+  });
+  
+  it('should write one CSV row per debt per month with the schedule amounts', () => {
+    const result = simulateStrategy(debts, 'avalanche', 150, 360);
+    const lines = scheduleToCsv(result.schedule, debts, startDate).trimEnd().split('\r\n');
+    const rows = result.schedule.flatMap((m) => m.payments);
+    
+    expect(lines).toHaveLength(rows.length + 1);
+    expect(lines[0]).toBe(
+      'month,date,due_date,debt_id,debt_name,payment_amount,principal_paid,interest_paid,' +
+      'fees_charged,fees_paid,missed_payment,remaining_balance'
+    );
+    const first = rows[0]!;
+    expect(lines[1]).toBe([
+      1, result.schedule[0]!.date, '2025-01-31', 'card', '"Visa, ""Gold"""',
+      first.paymentAmount, first.principalPaid, first.interestPaid,
+      first.feesCharged, first.feesPaid, first.missedPayment, first.remainingBalance,
+    ].join(','));
+  });
+  
+  it('should write an escaped, folded calendar event for each payment', () => {
+    const result = simulateStrategy(debts, 'avalanche', 150, 360);
+    const ics = scheduleToICalendar(result.schedule, debts, startDate);
+    const payments = result.schedule.flatMap((m) => m.payments).filter((p) => p.paymentAmount > 0);
+    
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(payments.length);
+    expect(ics).toContain('DTSTART;VALUE=DATE:20250131');
+    expect(ics).toContain('SUMMARY:Pay Visa\\, "Gold": $');
+    expect(ics.split('\r\n').every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Obsidian Decision Engine - Debt Simulator Benchmarks
+ * 
+ * Full simulation against the schedule-free summary path on the same
+ * portfolio, and the costliest Monte Carlo run the API accepts.
+ * Run with `npm run bench`.
+ */
+
+import { describe, bench } from 'vitest';
+import { simulateStrategy, simulateStrategySummary } from '../src/core/debt/debtSimulator.js';
+import { runMonteCarlo } from '../src/core/debt/monteCarlo.js';
+import { COMPUTATION_LIMITS } from '../src/config/limits.js';
+import type { DebtAccount, UserFinancialProfile } from '../src/models/types.js';
+
+const debts: DebtAccount[] = Array.from({ length: 12 }, (_, i) => ({
+  id: `debt_${i}`,
+  type: i % 3 === 0 ? 'personal_loan' : 'credit_card',
+  balance: 2500 + i * 1750,
+  apr: 6 + ((i * 7) % 22),
+  minimum_payment: 60 + i * 25,
+  interest_convention: i % 3 === 0 ? 'monthly_simple' : 'daily_compound',
+}));
+
+describe('avalanche, 12 debts', () => {
+  bench('simulateStrategy', () => {
+    simulateStrategy(debts, 'avalanche', 150, 360);
+  });
+  
+  bench('simulateStrategySummary', () => {
+    simulateStrategySummary(debts, 'avalanche', 150, 360);
+  });
+});
+
+describe('minimum only, 12 debts', () => {
+  bench('simulateStrategy', () => {
+    simulateStrategy(debts, 'minimum_only', 0, 360);
+  });
+  
+  bench('simulateStrategySummary', () => {
+    simulateStrategySummary(debts, 'minimum_only', 0, 360);
+  });
+});
+
+describe('Monte Carlo at the work cap, 2 distressed debts', () => {
+  // Short of the minimums every month with nothing saved, so every trial
+  // misses payments and cuts the extra all the way to max_months
+  const profile = {
+    monthly_income: 3000,
+    monthly_fixed_expenses: 2800,
+    cash_balance: 0,
+    debts: [
+      { id: 'card_a', type: 'credit_card', balance: 20000, apr: 29.99, minimum_payment: 600 },
+      { id: 'card_b', type: 'credit_card', balance: 15000, apr: 24.99, minimum_payment: 450 },
+    ],
+  } as UserFinancialProfile;
+  const trials = Math.floor(COMPUTATION_LIMITS.MAX_MONTE_CARLO_DEBT_MONTHS / (2 * 360));
+  
+  bench('runMonteCarlo', () => {
+    runMonteCarlo(profile, 'avalanche', 100, {
+      trials,
+      seed: 1,
+      maxMonths: 360,
+      shocks: { job_loss_probability: 0.9 },
+    });
+  }, { iterations: 1, time: 0, warmupIterations: 0, warmupTime: 0 });
+});
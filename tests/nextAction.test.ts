@@ -6,7 +6,11 @@
 
 import { describe, it, expect } from 'vitest';
 import { generateNextBestActions } from '../src/core/actions/nextBestAction.js';
-import { detectAllSignals, detectRiskSignals } from '../src/core/signals/financialSignals.js';
+import {
+  detectAllSignals,
+  detectRiskSignals,
+  detectDebtSignals,
+} from '../src/core/signals/financialSignals.js';
 import type { UserFinancialProfile } from '../src/models/types.js';
 
 // =============================================================================
@@ -115,6 +119,38 @@ describe('Signal detection', () => {
     });
   });
 
+  describe('Debt signals', () => {
+    it('should flag balances that grow on minimum payments', () => {
+      const signals = detectDebtSignals(criticalProfile);
+      
+      const growing = signals.find((s) => s.id.startsWith('NEGATIVE_AMORTIZATION'));
+      expect(growing).toBeDefined();
+      expect(growing!.severity).toBe('critical');
+      expect(growing!.threshold).toBeGreaterThan(100); // Break-even payment
+    });
+
+    it('should not flag minimums that cover interest', () => {
+      const signals = detectDebtSignals(healthyProfile);
+      
+      expect(signals.find((s) => s.id.startsWith('NEGATIVE_AMORTIZATION'))).toBeUndefined();
+    });
+
+    it('should price payday rollovers at their true APR and suggest a way out', () => {
+      const signals = detectDebtSignals({
+        ...healthyProfile,
+        debts: [{ id: 'payday', type: 'payday_loan', balance: 500, apr: 0, term_fee_per_100: 15, term_days: 14 }],
+      });
+      
+      const rollover = signals.find((s) => s.id === 'ROLLOVER_LOAN_payday');
+      expect(rollover).toBeDefined();
+      expect(rollover!.severity).toBe('critical');
+      expect(rollover!.value).toBeCloseTo(391.07, 2); // $15 per $100 every 14 days
+      expect(rollover!.recommendedAction).toContain('extended payment plan');
+      expect(rollover!.recommendedAction).toContain('payday alternative loan');
+      expect(signals.find((s) => s.id.startsWith('PREDATORY_APR'))).toBeUndefined();
+    });
+  });
+
   describe('All signals', () => {
     it('should return signals sorted by priority', () => {
       const signals = detectAllSignals(stressedProfile);